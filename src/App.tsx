@@ -10,6 +10,11 @@ import QuestionDetail from "./pages/QuestionDetail";
 import AskQuestion from "./pages/AskQuestion";
 import Auth from "./pages/Auth";
 import Admin from "./pages/Admin";
+import Search from "./pages/Search";
+import MyActivity from "./pages/MyActivity";
+import Notifications from "./pages/Notifications";
+import Inbox from "./pages/Inbox";
+import NotificationSettings from "./pages/NotificationSettings";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -28,6 +33,11 @@ const App = () => (
             <Route path="/ask" element={<AskQuestion />} />
             <Route path="/question/:id" element={<QuestionDetail />} />
             <Route path="/admin" element={<Admin />} />
+            <Route path="/search" element={<Search />} />
+            <Route path="/me" element={<MyActivity />} />
+            <Route path="/inbox" element={<Inbox />} />
+            <Route path="/notifications" element={<Notifications />} />
+            <Route path="/settings/notifications" element={<NotificationSettings />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
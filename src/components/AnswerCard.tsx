@@ -1,81 +1,125 @@
 import { useState } from "react";
-import { Check, MessageSquare, User } from "lucide-react";
+import { Check, CheckCircle2, MessageSquare, Pencil } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Textarea } from "@/components/ui/textarea";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { VoteButtons } from "./VoteButtons";
+import { RevisionHistory } from "./RevisionHistory";
+import { Markdown } from "./Markdown";
+import { MarkdownEditor } from "./MarkdownEditor";
+import { AttachmentList } from "./AttachmentList";
+import { CommentThread, ThreadComment } from "./CommentThread";
 import { formatDistanceToNow } from "date-fns";
 import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
 import { useToast } from "@/hooks/use-toast";
+import { withOwnerToken } from "@/lib/ownership";
 import { cn } from "@/lib/utils";
 
-interface Comment {
-  id: string;
-  content: string;
-  is_anonymous: boolean;
-  created_at: string;
-  author?: {
-    full_name?: string;
-    avatar_url?: string;
-  };
-}
-
 interface AnswerCardProps {
   id: string;
   content: string;
   isOfficial: boolean;
+  isAccepted: boolean;
+  canAccept?: boolean;
+  ownerToken?: string | null;
+  canEdit?: boolean;
+  editedAt?: string | null;
+  upvotes: number;
+  downvotes: number;
+  userVote: 'up' | 'down' | null;
   createdAt: string;
   author: {
     full_name?: string;
     avatar_url?: string;
     email?: string;
   };
-  comments: Comment[];
-  onCommentAdded?: () => void;
+  attachments?: Tables<'attachments'>[];
+  comments: ThreadComment[];
+  ownCommentIds: Set<string>;
+  canModerate?: boolean;
+  onCommentsChange?: () => void;
+  onVoteChange?: () => void;
+  onAcceptChange?: () => void;
+  onEdited?: () => void;
+  onAttachmentsChange?: () => void;
 }
 
 export function AnswerCard({
   id,
   content,
   isOfficial,
+  isAccepted,
+  canAccept,
+  ownerToken,
+  canEdit,
+  editedAt,
+  upvotes,
+  downvotes,
+  userVote,
   createdAt,
   author,
+  attachments = [],
   comments,
-  onCommentAdded,
+  ownCommentIds,
+  canModerate,
+  onCommentsChange,
+  onVoteChange,
+  onAcceptChange,
+  onEdited,
+  onAttachmentsChange,
 }: AnswerCardProps) {
   const [showComments, setShowComments] = useState(false);
-  const [newComment, setNewComment] = useState("");
-  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isAccepting, setIsAccepting] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(content);
+  const [isSaving, setIsSaving] = useState(false);
   const { toast } = useToast();
 
-  const handleSubmitComment = async () => {
-    if (!newComment.trim()) return;
-    setIsSubmitting(true);
-
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        toast({ title: "Please sign in to comment", variant: "destructive" });
-        return;
-      }
-
-      const { error } = await supabase.from('comments').insert({
-        answer_id: id,
-        content: newComment.trim(),
-        author_id: user.id,
-        is_anonymous: true,
-      });
-
-      if (error) throw error;
-
-      setNewComment("");
-      toast({ title: "Comment added" });
-      onCommentAdded?.();
-    } catch (error) {
-      toast({ title: "Failed to add comment", variant: "destructive" });
-    } finally {
-      setIsSubmitting(false);
+  const handleToggleAccepted = async () => {
+    setIsAccepting(true);
+
+    const { error } = await withOwnerToken(
+      supabase.rpc('accept_answer', {
+        _answer_id: id,
+        _accepted: !isAccepted,
+      }),
+      ownerToken
+    );
+
+    if (error) {
+      toast({ title: "Failed to update accepted answer", variant: "destructive" });
+    } else {
+      toast({ title: isAccepted ? "Answer unaccepted" : "Answer accepted" });
+      onAcceptChange?.();
     }
+
+    setIsAccepting(false);
+  };
+
+  const handleStartEditing = () => {
+    setDraft(content);
+    setIsEditing(true);
+  };
+
+  const handleSaveEdit = async () => {
+    if (!draft.trim()) return;
+    setIsSaving(true);
+
+    const { error } = await supabase
+      .from('answers')
+      .update({ content: draft.trim() })
+      .eq('id', id);
+
+    if (error) {
+      toast({ title: "Failed to save changes", variant: "destructive" });
+    } else {
+      toast({ title: "Answer updated" });
+      setIsEditing(false);
+      onEdited?.();
+    }
+
+    setIsSaving(false);
   };
 
   const authorInitials = author.full_name
@@ -87,9 +131,19 @@ export function AnswerCard({
   return (
     <Card className={cn(
       "p-5 animate-slide-up",
-      isOfficial && "border-success/30 bg-success/5"
+      isOfficial && "border-success/30 bg-success/5",
+      isAccepted && "border-success ring-1 ring-success/40"
     )}>
       <div className="flex gap-4">
+        <VoteButtons
+          targetId={id}
+          target="answer"
+          upvotes={upvotes}
+          downvotes={downvotes}
+          userVote={userVote}
+          onVoteChange={onVoteChange}
+        />
+
         <Avatar className="w-10 h-10 shrink-0">
           <AvatarImage src={author.avatar_url} />
           <AvatarFallback className="bg-primary text-primary-foreground text-sm">
@@ -108,62 +162,102 @@ export function AnswerCard({
                 Official
               </span>
             )}
+            {isAccepted && (
+              <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium border border-success text-success">
+                <CheckCircle2 className="w-3 h-3" />
+                Accepted
+              </span>
+            )}
             <span className="text-xs text-muted-foreground">
               {formatDistanceToNow(new Date(createdAt), { addSuffix: true })}
             </span>
+            {editedAt && (
+              <RevisionHistory
+                entityType="answer"
+                entityId={id}
+                editedAt={editedAt}
+                currentContent={content}
+              />
+            )}
           </div>
 
-          <div className="prose prose-sm max-w-none text-foreground/90 mb-4">
-            <p className="whitespace-pre-wrap">{content}</p>
-          </div>
+          {isEditing ? (
+            <div className="mb-4 space-y-2">
+              <MarkdownEditor
+                value={draft}
+                onChange={setDraft}
+                className="min-h-[120px]"
+              />
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" size="sm" onClick={() => setIsEditing(false)} disabled={isSaving}>
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={handleSaveEdit} disabled={isSaving || !draft.trim() || draft.trim() === content}>
+                  {isSaving ? "Saving..." : "Save"}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Markdown content={content} className="mb-4" />
+          )}
+
+          <AttachmentList
+            attachments={attachments}
+            canDelete={canEdit}
+            onDeleted={onAttachmentsChange}
+            className="mb-4"
+          />
 
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={() => setShowComments(!showComments)}
-            className="text-muted-foreground hover:text-foreground -ml-2"
-          >
-            <MessageSquare className="w-4 h-4 mr-1.5" />
-            {comments.length} {comments.length === 1 ? "comment" : "comments"}
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowComments(!showComments)}
+              className="text-muted-foreground hover:text-foreground -ml-2"
+            >
+              <MessageSquare className="w-4 h-4 mr-1.5" />
+              {comments.length} {comments.length === 1 ? "comment" : "comments"}
+            </Button>
+
+            {canAccept && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleToggleAccepted}
+                disabled={isAccepting}
+                className={cn(
+                  "text-muted-foreground hover:text-success",
+                  isAccepted && "text-success"
+                )}
+              >
+                <CheckCircle2 className="w-4 h-4 mr-1.5" />
+                {isAccepted ? "Unaccept" : "Accept answer"}
+              </Button>
+            )}
+
+            {canEdit && !isEditing && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleStartEditing}
+                className="text-muted-foreground hover:text-foreground"
+              >
+                <Pencil className="w-4 h-4 mr-1.5" />
+                Edit
+              </Button>
+            )}
+          </div>
 
           {showComments && (
-            <div className="mt-4 space-y-4 pl-4 border-l-2 border-border">
-              {comments.map((comment) => (
-                <div key={comment.id} className="animate-fade-in">
-                  <div className="flex items-center gap-2 mb-1">
-                    <User className="w-3.5 h-3.5 text-muted-foreground" />
-                    <span className={cn(
-                      "text-xs font-medium",
-                      comment.is_anonymous && "text-anonymous"
-                    )}>
-                      {comment.is_anonymous
-                        ? "Anonymous"
-                        : comment.author?.full_name || "Unknown"}
-                    </span>
-                    <span className="text-xs text-muted-foreground">
-                      {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
-                    </span>
-                  </div>
-                  <p className="text-sm text-foreground/80 pl-5">{comment.content}</p>
-                </div>
-              ))}
-
-              <div className="pt-2">
-                <Textarea
-                  placeholder="Add a follow-up question or comment..."
-                  value={newComment}
-                  onChange={(e) => setNewComment(e.target.value)}
-                  className="min-h-[80px] mb-2"
-                />
-                <Button
-                  size="sm"
-                  onClick={handleSubmitComment}
-                  disabled={isSubmitting || !newComment.trim()}
-                >
-                  {isSubmitting ? "Posting..." : "Post Comment"}
-                </Button>
-              </div>
+            <div className="mt-4 pl-4 border-l-2 border-border">
+              <CommentThread
+                answerId={id}
+                comments={comments}
+                ownCommentIds={ownCommentIds}
+                canModerate={canModerate}
+                ownerToken={ownerToken}
+                onChange={onCommentsChange}
+              />
             </div>
           )}
         </div>
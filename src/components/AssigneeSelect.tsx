@@ -0,0 +1,100 @@
+import { useEffect, useState } from "react";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+export interface AssignableResponder {
+  user_id: string;
+  full_name: string | null;
+  email: string;
+  in_department: boolean;
+}
+
+interface AssigneeSelectProps {
+  questionId: string;
+  departmentId: string | null;
+  assigneeId: string | null;
+  onChange?: (assigneeId: string | null) => void;
+  // Lists that show many questions fetch the responders once and pass them in
+  responders?: AssignableResponder[];
+  className?: string;
+}
+
+const UNASSIGNED = "unassigned";
+
+export function AssigneeSelect({ questionId, departmentId, assigneeId, onChange, responders: givenResponders, className }: AssigneeSelectProps) {
+  const [fetchedResponders, setFetchedResponders] = useState<AssignableResponder[]>([]);
+  const responders = givenResponders ?? fetchedResponders;
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (givenResponders) return;
+
+    const fetchResponders = async () => {
+      const { data, error } = await supabase.rpc('get_assignable_responders', {
+        _department_id: departmentId ?? undefined,
+      });
+
+      if (error) {
+        console.error('Error fetching responders:', error);
+        return;
+      }
+      setFetchedResponders(data);
+    };
+
+    fetchResponders();
+  }, [departmentId, givenResponders]);
+
+  const handleChange = async (value: string) => {
+    const nextAssignee = value === UNASSIGNED ? null : value;
+    setIsSaving(true);
+
+    const { error } = await supabase.rpc('assign_question', {
+      _question_id: questionId,
+      _assignee_id: nextAssignee ?? undefined,
+    });
+
+    if (error) {
+      toast({ title: "Failed to assign question", description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: nextAssignee ? "Question assigned" : "Question unassigned" });
+      onChange?.(nextAssignee);
+    }
+
+    setIsSaving(false);
+  };
+
+  const nameOf = (responder: AssignableResponder) => responder.full_name || responder.email;
+  const byName = (a: AssignableResponder, b: AssignableResponder) => nameOf(a).localeCompare(nameOf(b));
+  const departmentMembers = responders.filter(r => r.in_department).sort(byName);
+  const others = responders.filter(r => !r.in_department).sort(byName);
+
+  return (
+    <Select value={assigneeId ?? UNASSIGNED} onValueChange={handleChange} disabled={isSaving}>
+      <SelectTrigger className={cn("w-[200px] h-8", className)}>
+        <SelectValue placeholder="Assignee" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+        {departmentMembers.length > 0 && (
+          <SelectGroup>
+            <SelectLabel>This department</SelectLabel>
+            {departmentMembers.map(r => (
+              <SelectItem key={r.user_id} value={r.user_id}>{nameOf(r)}</SelectItem>
+            ))}
+          </SelectGroup>
+        )}
+        {others.length > 0 && (
+          <SelectGroup>
+            {departmentMembers.length > 0 && <SelectLabel>Other responders</SelectLabel>}
+            {others.map(r => (
+              <SelectItem key={r.user_id} value={r.user_id}>{nameOf(r)}</SelectItem>
+            ))}
+          </SelectGroup>
+        )}
+      </SelectContent>
+    </Select>
+  );
+}
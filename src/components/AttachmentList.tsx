@@ -0,0 +1,141 @@
+import { useEffect, useState } from "react";
+import { FileText, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+import { ATTACHMENT_BUCKET, formatFileSize, isImageAttachment, removeAttachmentFile } from "@/lib/attachments";
+import { withOwnerToken } from "@/lib/ownership";
+import { cn } from "@/lib/utils";
+
+type Attachment = Tables<'attachments'>;
+
+// Signed URLs are short-lived; the page refetches attachments long before this runs out
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  canDelete?: boolean;
+  ownerToken?: string | null;
+  onDeleted?: () => void;
+  className?: string;
+}
+
+export function AttachmentList({ attachments, canDelete, ownerToken, onDeleted, className }: AttachmentListProps) {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+  const pathsKey = attachments.map(a => a.storage_path).join("|");
+
+  useEffect(() => {
+    if (attachments.length === 0) return;
+
+    const fetchUrls = async () => {
+      const { data, error } = await supabase.storage
+        .from(ATTACHMENT_BUCKET)
+        .createSignedUrls(attachments.map(a => a.storage_path), SIGNED_URL_TTL_SECONDS);
+
+      if (error) {
+        console.error('Error fetching attachment URLs:', error);
+        return;
+      }
+
+      const next: Record<string, string> = {};
+      data.forEach(item => {
+        if (item.path && item.signedUrl) next[item.path] = item.signedUrl;
+      });
+      setUrls(next);
+    };
+
+    fetchUrls();
+  }, [pathsKey]);
+
+  const handleDelete = async (attachment: Attachment) => {
+    const { error } = await withOwnerToken(
+      supabase.from('attachments').delete().eq('id', attachment.id),
+      ownerToken
+    );
+
+    if (error) {
+      toast({ title: "Failed to remove attachment", variant: "destructive" });
+      return;
+    }
+
+    await removeAttachmentFile(attachment.storage_path, ownerToken);
+    toast({ title: "Attachment removed" });
+    onDeleted?.();
+  };
+
+  if (attachments.length === 0) return null;
+
+  const images = attachments.filter(a => isImageAttachment(a.mime_type));
+  const files = attachments.filter(a => !isImageAttachment(a.mime_type));
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      {images.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {images.map(image => (
+            <div key={image.id} className="relative group">
+              <a
+                href={urls[image.storage_path]}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="block w-28 h-28 rounded-md border border-border overflow-hidden bg-muted"
+              >
+                {urls[image.storage_path] && (
+                  <img
+                    src={urls[image.storage_path]}
+                    alt={image.file_name}
+                    className="w-full h-full object-cover"
+                    loading="lazy"
+                  />
+                )}
+              </a>
+              {canDelete && (
+                <Button
+                  variant="secondary"
+                  size="icon"
+                  onClick={() => handleDelete(image)}
+                  className="absolute top-1 right-1 h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
+                  aria-label={`Remove ${image.file_name}`}
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {files.length > 0 && (
+        <ul className="space-y-1.5">
+          {files.map(file => (
+            <li key={file.id} className="flex items-center gap-2 text-sm">
+              <FileText className="w-4 h-4 shrink-0 text-muted-foreground" />
+              <a
+                href={urls[file.storage_path]}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="truncate text-accent hover:underline"
+              >
+                {file.file_name}
+              </a>
+              <span className="text-xs text-muted-foreground shrink-0">{formatFileSize(file.size_bytes)}</span>
+              {canDelete && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDelete(file)}
+                  className="h-6 w-6 shrink-0 text-muted-foreground hover:text-destructive"
+                  aria-label={`Remove ${file.file_name}`}
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
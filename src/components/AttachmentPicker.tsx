@@ -0,0 +1,99 @@
+import { useRef } from "react";
+import { FileText, Image as ImageIcon, Paperclip, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { PendingAttachment } from "@/hooks/use-attachment-uploads";
+import { useToast } from "@/hooks/use-toast";
+import {
+  ATTACHMENT_ALLOWED_TYPES,
+  ATTACHMENT_MAX_BYTES,
+  formatFileSize,
+  isImageAttachment,
+} from "@/lib/attachments";
+
+interface AttachmentPickerProps {
+  pending: PendingAttachment[];
+  onAdd: (files: File[]) => string[];
+  onRemove: (id: string) => void;
+  disabled?: boolean;
+}
+
+export function AttachmentPicker({ pending, onAdd, onRemove, disabled }: AttachmentPickerProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const errors = onAdd(Array.from(e.target.files || []));
+    if (errors.length > 0) {
+      toast({ title: "Some files can't be attached", description: errors.join("\n"), variant: "destructive" });
+    }
+    // Allow picking the same file again after removing it
+    e.target.value = "";
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-3">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled}
+          className="gap-2"
+        >
+          <Paperclip className="w-4 h-4" />
+          Attach files
+        </Button>
+        <span className="text-xs text-muted-foreground">
+          Images, PDF, text or CSV up to {formatFileSize(ATTACHMENT_MAX_BYTES)}. Photo metadata is removed.
+        </span>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={ATTACHMENT_ALLOWED_TYPES.join(",")}
+          onChange={handleChange}
+          className="hidden"
+        />
+      </div>
+
+      {pending.length > 0 && (
+        <ul className="space-y-2">
+          {pending.map(item => (
+            <li key={item.id} className="flex items-center gap-3 rounded-md border border-border px-3 py-2 text-sm">
+              {isImageAttachment(item.file.type) ? (
+                <ImageIcon className="w-4 h-4 shrink-0 text-muted-foreground" />
+              ) : (
+                <FileText className="w-4 h-4 shrink-0 text-muted-foreground" />
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="truncate">{item.file.name}</span>
+                  <span className="text-xs text-muted-foreground shrink-0">{formatFileSize(item.file.size)}</span>
+                </div>
+                {item.progress !== null && !item.error && (
+                  <Progress value={item.progress} className="h-1.5 mt-1.5" />
+                )}
+                {item.error && (
+                  <p className="text-xs text-destructive mt-1">{item.error}</p>
+                )}
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => onRemove(item.id)}
+                disabled={disabled}
+                className="h-6 w-6 shrink-0"
+                aria-label={`Remove ${item.file.name}`}
+              >
+                <X className="w-3.5 h-3.5" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
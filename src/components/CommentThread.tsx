@@ -0,0 +1,351 @@
+import { useState } from "react";
+import { Pencil, Reply, Trash2, User } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Markdown } from "./Markdown";
+import { RevisionHistory } from "./RevisionHistory";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { withOwnerToken } from "@/lib/ownership";
+import { buildCommentTree, CommentNode, isWithinEditWindow } from "@/lib/comments";
+import { formatDistanceToNow } from "date-fns";
+import { cn } from "@/lib/utils";
+
+export interface ThreadComment {
+  id: string;
+  content: string;
+  is_anonymous: boolean;
+  created_at: string;
+  edited_at: string | null;
+  parent_id: string | null;
+  author?: {
+    full_name?: string;
+    avatar_url?: string;
+  };
+}
+
+// Deeper replies are still threaded, just not indented any further
+const MAX_INDENT_DEPTH = 4;
+
+interface CommentComposerProps {
+  questionId?: string;
+  answerId?: string;
+  parentId?: string;
+  ownerToken?: string | null;
+  placeholder: string;
+  onPosted: () => void;
+  onCancel?: () => void;
+}
+
+function CommentComposer({ questionId, answerId, parentId, ownerToken, placeholder, onPosted, onCancel }: CommentComposerProps) {
+  const [content, setContent] = useState("");
+  const [showName, setShowName] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const handleSubmit = async () => {
+    if (!content.trim()) return;
+    setIsSubmitting(true);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        toast({ title: "Please sign in to comment", variant: "destructive" });
+        return;
+      }
+
+      // Anonymous comments are detached from author_id by the database. The
+      // owner token keeps an anonymous asker from being notified of their own comment.
+      const { error } = await withOwnerToken(supabase.from('comments').insert({
+        question_id: questionId ?? null,
+        answer_id: answerId ?? null,
+        parent_id: parentId ?? null,
+        content: content.trim(),
+        author_id: showName ? user.id : null,
+        is_anonymous: !showName,
+      }), ownerToken);
+
+      if (error) throw error;
+
+      setContent("");
+      toast({ title: parentId ? "Reply added" : "Comment added" });
+      onPosted();
+    } catch (error) {
+      toast({ title: "Failed to add comment", variant: "destructive" });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const switchId = `show-name-${parentId ?? questionId ?? answerId}`;
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        placeholder={placeholder}
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        maxLength={2000}
+        className="min-h-[80px]"
+      />
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Switch id={switchId} checked={showName} onCheckedChange={setShowName} />
+          <Label htmlFor={switchId} className="text-xs text-muted-foreground font-normal">
+            {showName ? "Show my name" : "Post anonymously"}
+          </Label>
+        </div>
+        <div className="flex gap-2">
+          {onCancel && (
+            <Button variant="outline" size="sm" onClick={onCancel} disabled={isSubmitting}>
+              Cancel
+            </Button>
+          )}
+          <Button size="sm" onClick={handleSubmit} disabled={isSubmitting || !content.trim()}>
+            {isSubmitting ? "Posting..." : parentId ? "Reply" : "Post Comment"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface CommentThreadProps {
+  questionId?: string;
+  answerId?: string;
+  comments: ThreadComment[];
+  ownCommentIds: Set<string>;
+  canModerate?: boolean;
+  ownerToken?: string | null;
+  onChange?: () => void;
+}
+
+export function CommentThread({
+  questionId,
+  answerId,
+  comments,
+  ownCommentIds,
+  canModerate,
+  ownerToken,
+  onChange,
+}: CommentThreadProps) {
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [commentToDelete, setCommentToDelete] = useState<ThreadComment | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const { toast } = useToast();
+
+  const handleStartEditing = (comment: ThreadComment) => {
+    setDraft(comment.content);
+    setEditingId(comment.id);
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingId || !draft.trim()) return;
+    setIsSaving(true);
+
+    const { data, error } = await supabase
+      .from('comments')
+      .update({ content: draft.trim() })
+      .eq('id', editingId)
+      .select('id');
+
+    // RLS filters the update out silently once the edit window has passed
+    if (error || data.length === 0) {
+      toast({ title: "Failed to save changes", description: "Comments can only be edited shortly after posting", variant: "destructive" });
+    } else {
+      toast({ title: "Comment updated" });
+      setEditingId(null);
+      onChange?.();
+    }
+
+    setIsSaving(false);
+  };
+
+  const handleDelete = async () => {
+    if (!commentToDelete) return;
+    setIsDeleting(true);
+
+    const { data, error } = await supabase
+      .from('comments')
+      .delete()
+      .eq('id', commentToDelete.id)
+      .select('id');
+
+    if (error || data.length === 0) {
+      toast({ title: "Failed to delete comment", variant: "destructive" });
+    } else {
+      toast({ title: "Comment deleted" });
+      onChange?.();
+    }
+
+    setIsDeleting(false);
+    setCommentToDelete(null);
+  };
+
+  const renderNode = ({ comment, replies }: CommentNode<ThreadComment>, depth: number) => {
+    const isOwn = ownCommentIds.has(comment.id);
+    const canEdit = isOwn && isWithinEditWindow(comment.created_at);
+    const canDelete = canEdit || canModerate;
+
+    return (
+      <div key={comment.id} className="animate-fade-in">
+        <div className="flex items-center gap-2 mb-1">
+          <User className="w-3.5 h-3.5 text-muted-foreground" />
+          <span className={cn(
+            "text-xs font-medium",
+            comment.is_anonymous && "text-anonymous"
+          )}>
+            {comment.is_anonymous
+              ? "Anonymous"
+              : comment.author?.full_name || "Unknown"}
+          </span>
+          {isOwn && <span className="text-xs text-muted-foreground">(you)</span>}
+          <span className="text-xs text-muted-foreground">
+            {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+          </span>
+          {comment.edited_at && (
+            <RevisionHistory
+              entityType="comment"
+              entityId={comment.id}
+              editedAt={comment.edited_at}
+              currentContent={comment.content}
+            />
+          )}
+        </div>
+
+        {editingId === comment.id ? (
+          <div className="pl-5 space-y-2">
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              maxLength={2000}
+              className="min-h-[80px]"
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setEditingId(null)} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleSaveEdit} disabled={isSaving || !draft.trim() || draft.trim() === comment.content}>
+                {isSaving ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Markdown content={comment.content} className="text-foreground/80 pl-5" />
+        )}
+
+        <div className="flex items-center gap-1 pl-3 mt-0.5">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setReplyingTo(replyingTo === comment.id ? null : comment.id)}
+            className="h-7 px-2 text-xs text-muted-foreground hover:text-foreground"
+          >
+            <Reply className="w-3.5 h-3.5 mr-1" />
+            Reply
+          </Button>
+          {canEdit && editingId !== comment.id && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleStartEditing(comment)}
+              className="h-7 px-2 text-xs text-muted-foreground hover:text-foreground"
+            >
+              <Pencil className="w-3.5 h-3.5 mr-1" />
+              Edit
+            </Button>
+          )}
+          {canDelete && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setCommentToDelete(comment)}
+              className="h-7 px-2 text-xs text-muted-foreground hover:text-destructive"
+            >
+              <Trash2 className="w-3.5 h-3.5 mr-1" />
+              Delete
+            </Button>
+          )}
+        </div>
+
+        {replyingTo === comment.id && (
+          <div className="pl-5 mt-2">
+            <CommentComposer
+              questionId={questionId}
+              answerId={answerId}
+              parentId={comment.id}
+              ownerToken={ownerToken}
+              placeholder="Write a reply..."
+              onPosted={() => {
+                setReplyingTo(null);
+                onChange?.();
+              }}
+              onCancel={() => setReplyingTo(null)}
+            />
+          </div>
+        )}
+
+        {replies.length > 0 && (
+          <div className={cn(
+            "mt-3 space-y-3",
+            depth < MAX_INDENT_DEPTH && "pl-4 border-l-2 border-border"
+          )}>
+            {replies.map(reply => renderNode(reply, depth + 1))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {buildCommentTree(comments).map(node => renderNode(node, 0))}
+
+      <div className="pt-2">
+        <CommentComposer
+          questionId={questionId}
+          answerId={answerId}
+          ownerToken={ownerToken}
+          placeholder="Add a follow-up question or comment..."
+          onPosted={() => onChange?.()}
+        />
+      </div>
+
+      <AlertDialog open={!!commentToDelete} onOpenChange={() => setCommentToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete comment</AlertDialogTitle>
+            <AlertDialogDescription>
+              This comment and any replies to it will be removed. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={isDeleting}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isDeleting ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,7 +1,12 @@
+import { Link } from "react-router-dom";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { FollowButton } from "./FollowButton";
 import { cn } from "@/lib/utils";
 
 interface DepartmentBadgeProps {
   name: string;
+  // When given, clicking the badge offers the department's questions and a Follow button
+  departmentId?: string;
   className?: string;
 }
 
@@ -15,18 +20,35 @@ const departmentColors: Record<string, string> = {
   Leadership: "bg-amber-100 text-amber-700 border-amber-200",
 };
 
-export function DepartmentBadge({ name, className }: DepartmentBadgeProps) {
+export function DepartmentBadge({ name, departmentId, className }: DepartmentBadgeProps) {
   const colorClass = departmentColors[name] || "bg-secondary text-secondary-foreground border-border";
+  const badgeClass = cn(
+    "inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border",
+    colorClass,
+    className
+  );
+
+  if (!departmentId) {
+    return <span className={badgeClass}>{name}</span>;
+  }
 
   return (
-    <span
-      className={cn(
-        "inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border",
-        colorClass,
-        className
-      )}
-    >
-      {name}
-    </span>
+    <Popover>
+      <PopoverTrigger asChild>
+        <button className={cn(badgeClass, "hover:opacity-80 transition-opacity")} title={`About ${name}`}>
+          {name}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-56 space-y-3">
+        <p className="font-medium text-sm">{name}</p>
+        <Link
+          to={`/questions?department=${departmentId}`}
+          className="block text-sm text-accent hover:underline"
+        >
+          View the department's questions
+        </Link>
+        <FollowButton departmentId={departmentId} className="w-full" />
+      </PopoverContent>
+    </Popover>
   );
 }
@@ -0,0 +1,73 @@
+import { useEffect, useState } from "react";
+import { ArrowRightLeft } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { formatDistanceToNow } from "date-fns";
+import { cn } from "@/lib/utils";
+
+interface DepartmentMove {
+  fromName: string | null;
+  movedByName: string | null;
+  reason: string | null;
+  created_at: string;
+}
+
+interface DepartmentMoveNoteProps {
+  questionId: string;
+  // Refetches when the question moves again
+  departmentId: string | null;
+  className?: string;
+}
+
+// "Moved from X" for questions that were re-routed after they were asked
+export function DepartmentMoveNote({ questionId, departmentId, className }: DepartmentMoveNoteProps) {
+  const [move, setMove] = useState<DepartmentMove | null>(null);
+
+  useEffect(() => {
+    const fetchMove = async () => {
+      const { data, error } = await supabase
+        .from('question_department_moves')
+        .select('moved_by, reason, created_at, from_department:departments!question_department_moves_from_department_id_fkey(name)')
+        .eq('question_id', questionId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching department moves:', error);
+        return;
+      }
+      if (!data) {
+        setMove(null);
+        return;
+      }
+
+      // Use profiles_public view to avoid exposing email addresses
+      const { data: mover } = data.moved_by
+        ? await supabase.from('profiles_public').select('full_name').eq('user_id', data.moved_by).maybeSingle()
+        : { data: null };
+
+      setMove({
+        fromName: data.from_department?.name ?? null,
+        movedByName: mover?.full_name ?? null,
+        reason: data.reason,
+        created_at: data.created_at,
+      });
+    };
+
+    fetchMove();
+  }, [questionId, departmentId]);
+
+  if (!move) return null;
+
+  return (
+    <p className={cn("flex items-start gap-1.5 text-xs text-muted-foreground", className)}>
+      <ArrowRightLeft className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+      <span>
+        {move.fromName ? `Moved from ${move.fromName}` : "Routed to this department"}
+        {move.movedByName && ` by ${move.movedByName}`}
+        {" "}{formatDistanceToNow(new Date(move.created_at), { addSuffix: true })}
+        {move.reason && <>: <span className="italic">{move.reason}</span></>}
+      </span>
+    </p>
+  );
+}
@@ -0,0 +1,65 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Copy } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { cn } from "@/lib/utils";
+
+interface DuplicateNoteProps {
+  // Set on a question marked as a duplicate
+  duplicateOfId: string | null;
+  // Set on the canonical question when a reader was sent on from a duplicate
+  redirectedFromId: string | null;
+  className?: string;
+}
+
+// Links a duplicate and its canonical question to each other
+export function DuplicateNote({ duplicateOfId, redirectedFromId, className }: DuplicateNoteProps) {
+  const [otherTitle, setOtherTitle] = useState<string | null>(null);
+  const otherId = duplicateOfId ?? redirectedFromId;
+
+  useEffect(() => {
+    if (!otherId) {
+      setOtherTitle(null);
+      return;
+    }
+
+    const fetchTitle = async () => {
+      const { data, error } = await supabase
+        .from('questions')
+        .select('title')
+        .eq('id', otherId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching question:', error);
+        return;
+      }
+      setOtherTitle(data?.title ?? null);
+    };
+
+    fetchTitle();
+  }, [otherId]);
+
+  if (!otherId || !otherTitle) return null;
+
+  return (
+    <div className={cn("flex items-start gap-2 rounded-lg bg-secondary/50 p-3 text-sm text-muted-foreground", className)}>
+      <Copy className="w-4 h-4 mt-0.5 shrink-0" />
+      {duplicateOfId ? (
+        <span>
+          This question is a duplicate of{" "}
+          <Link to={`/question/${duplicateOfId}`} className="font-medium text-foreground hover:text-accent transition-colors">
+            {otherTitle}
+          </Link>
+        </span>
+      ) : (
+        <span>
+          You were sent here from “{otherTitle}”, which was asked before as this question.{" "}
+          <Link to={`/question/${redirectedFromId}?redirect=no`} className="text-accent hover:underline">
+            View it anyway
+          </Link>
+        </span>
+      )}
+    </div>
+  );
+}
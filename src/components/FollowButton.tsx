@@ -0,0 +1,105 @@
+import { useEffect, useState } from "react";
+import { Bell, BellRing } from "lucide-react";
+import { Button, ButtonProps } from "@/components/ui/button";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+type FollowTarget = { questionId: string; departmentId?: never } | { departmentId: string; questionId?: never };
+
+type FollowButtonProps = FollowTarget & {
+  // Shown after "Follow", e.g. a department name
+  label?: string;
+  size?: ButtonProps["size"];
+  className?: string;
+  onChange?: (following: boolean) => void;
+};
+
+export function FollowButton({ questionId, departmentId, label, size = "sm", className, onChange }: FollowButtonProps) {
+  const { toast } = useToast();
+  const [subscriptionId, setSubscriptionId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const targetColumn = questionId ? 'question_id' : 'department_id';
+  const targetId = (questionId ?? departmentId) as string;
+
+  useEffect(() => {
+    const fetchSubscription = async () => {
+      setIsLoading(true);
+      const { data, error } = await supabase
+        .from('subscriptions')
+        .select('id')
+        .eq(targetColumn, targetId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching subscription:', error);
+      }
+      setSubscriptionId(data?.id ?? null);
+      setIsLoading(false);
+    };
+
+    fetchSubscription();
+  }, [targetColumn, targetId]);
+
+  const handleToggle = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      toast({ title: "Please sign in to follow", variant: "destructive" });
+      return;
+    }
+
+    setIsSaving(true);
+
+    if (subscriptionId) {
+      const { error } = await supabase.from('subscriptions').delete().eq('id', subscriptionId);
+
+      if (error) {
+        toast({ title: "Failed to unfollow", variant: "destructive" });
+      } else {
+        setSubscriptionId(null);
+        onChange?.(false);
+      }
+    } else {
+      const { data, error } = await supabase
+        .from('subscriptions')
+        .insert(questionId ? { user_id: user.id, question_id: questionId } : { user_id: user.id, department_id: departmentId })
+        .select('id')
+        .single();
+
+      if (error) {
+        toast({ title: "Failed to follow", variant: "destructive" });
+      } else {
+        setSubscriptionId(data.id);
+        onChange?.(true);
+        toast({
+          title: "Following",
+          description: questionId
+            ? "You'll be notified about new answers and status changes."
+            : "You'll be notified about new questions in this department.",
+        });
+      }
+    }
+
+    setIsSaving(false);
+  };
+
+  const isFollowing = !!subscriptionId;
+  const Icon = isFollowing ? BellRing : Bell;
+
+  return (
+    <Button
+      variant={isFollowing ? "secondary" : "outline"}
+      size={size}
+      onClick={handleToggle}
+      disabled={isLoading || isSaving}
+      aria-pressed={isFollowing}
+      className={cn("gap-1.5", className)}
+    >
+      <Icon className="w-4 h-4" />
+      {isFollowing ? "Following" : "Follow"}
+      {label && <span className="font-normal">{label}</span>}
+    </Button>
+  );
+}
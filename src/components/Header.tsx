@@ -1,5 +1,5 @@
 import { Link, useNavigate } from "react-router-dom";
-import { MessageSquarePlus, Settings, LogOut, User } from "lucide-react";
+import { MessageSquarePlus, Settings, LogOut, User, Activity, BellRing, Inbox } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -11,6 +11,8 @@ import {
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { NotificationBell } from "./NotificationBell";
 
 interface HeaderProps {
   user: {
@@ -24,6 +26,7 @@ interface HeaderProps {
 export function Header({ user, isAdmin }: HeaderProps) {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { isResponder, isDepartmentAdmin } = useAuth();
 
   const handleSignOut = async () => {
     const { error } = await supabase.auth.signOut();
@@ -62,6 +65,8 @@ export function Header({ user, isAdmin }: HeaderProps) {
                 </Link>
               </Button>
 
+              <NotificationBell />
+
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
                   <Button variant="ghost" size="icon" className="rounded-full">
@@ -79,11 +84,30 @@ export function Header({ user, isAdmin }: HeaderProps) {
                     <p className="text-xs text-muted-foreground truncate">{user.email}</p>
                   </div>
                   <DropdownMenuSeparator />
-                  {isAdmin && (
+                  {isResponder && (
+                    <DropdownMenuItem onClick={() => navigate("/inbox")}>
+                      <Inbox className="w-4 h-4 mr-2" />
+                      Inbox
+                    </DropdownMenuItem>
+                  )}
+                  <DropdownMenuItem onClick={() => navigate("/me")}>
+                    <Activity className="w-4 h-4 mr-2" />
+                    My activity
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => navigate("/settings/notifications")}>
+                    <BellRing className="w-4 h-4 mr-2" />
+                    Notification settings
+                  </DropdownMenuItem>
+                  {isAdmin ? (
                     <DropdownMenuItem onClick={() => navigate("/admin")}>
                       <Settings className="w-4 h-4 mr-2" />
                       Admin Panel
                     </DropdownMenuItem>
+                  ) : isDepartmentAdmin && (
+                    <DropdownMenuItem onClick={() => navigate("/admin")}>
+                      <Settings className="w-4 h-4 mr-2" />
+                      My departments
+                    </DropdownMenuItem>
                   )}
                   <DropdownMenuSeparator />
                   <DropdownMenuItem onClick={handleSignOut} className="text-destructive">
@@ -0,0 +1,29 @@
+import { Fragment } from "react";
+
+interface HighlightedTextProps {
+  text: string;
+  className?: string;
+}
+
+// Matches the StartSel/StopSel markers emitted by the search_questions RPC
+const HIGHLIGHT_SPLIT = /(\[\[hl\]\][\s\S]*?\[\[\/hl\]\])/g;
+const HIGHLIGHT_MATCH = /^\[\[hl\]\]([\s\S]*)\[\[\/hl\]\]$/;
+
+export function HighlightedText({ text, className }: HighlightedTextProps) {
+  const parts = text.split(HIGHLIGHT_SPLIT);
+
+  return (
+    <span className={className}>
+      {parts.map((part, index) => {
+        const match = part.match(HIGHLIGHT_MATCH);
+        return match ? (
+          <mark key={index} className="rounded px-0.5 bg-accent/20 text-foreground">
+            {match[1]}
+          </mark>
+        ) : (
+          <Fragment key={index}>{part}</Fragment>
+        );
+      })}
+    </span>
+  );
+}
@@ -0,0 +1,53 @@
+import ReactMarkdown, { Components, Options } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import rehypeSanitize from "rehype-sanitize";
+import rehypeHighlight from "rehype-highlight";
+import { cn } from "@/lib/utils";
+
+interface MarkdownProps {
+  content: string;
+  className?: string;
+}
+
+// Sanitize the user's markup first, then add highlight.js classes to the
+// already-clean tree so the sanitizer doesn't strip them.
+const rehypePlugins: Options["rehypePlugins"] = [rehypeSanitize, [rehypeHighlight, { detect: true }]];
+
+const components: Components = {
+  a: ({ node, ...props }) => (
+    <a {...props} target="_blank" rel="noopener noreferrer nofollow" />
+  ),
+};
+
+export function Markdown({ content, className }: MarkdownProps) {
+  return (
+    <div className={cn("prose prose-sm max-w-none text-foreground/90 break-words", className)}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={rehypePlugins}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
+
+/**
+ * Renders Markdown as plain text (formatting stripped) for excerpts such as
+ * the question list, using the same parser as the full renderer.
+ */
+export function MarkdownExcerpt({ content, className }: MarkdownProps) {
+  return (
+    <p className={className}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={[rehypeSanitize]}
+        allowedElements={[]}
+        unwrapDisallowed
+      >
+        {content}
+      </ReactMarkdown>
+    </p>
+  );
+}
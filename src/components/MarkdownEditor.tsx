@@ -0,0 +1,48 @@
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { Markdown } from "./Markdown";
+import { cn } from "@/lib/utils";
+
+interface MarkdownEditorProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  className?: string;
+  required?: boolean;
+}
+
+export function MarkdownEditor({ id, value, onChange, placeholder, className, required }: MarkdownEditorProps) {
+  return (
+    <Tabs defaultValue="write" className="w-full">
+      <div className="flex items-center justify-between mb-2">
+        <TabsList className="h-8">
+          <TabsTrigger value="write" className="text-xs h-6">Write</TabsTrigger>
+          <TabsTrigger value="preview" className="text-xs h-6">Preview</TabsTrigger>
+        </TabsList>
+        <span className="text-xs text-muted-foreground">Markdown supported</span>
+      </div>
+
+      <TabsContent value="write" className="mt-0">
+        <Textarea
+          id={id}
+          placeholder={placeholder}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className={className}
+          required={required}
+        />
+      </TabsContent>
+
+      <TabsContent value="preview" className="mt-0">
+        <div className={cn("rounded-md border border-input bg-background px-3 py-2 overflow-auto", className)}>
+          {value.trim() ? (
+            <Markdown content={value} />
+          ) : (
+            <p className="text-sm text-muted-foreground">Nothing to preview</p>
+          )}
+        </div>
+      </TabsContent>
+    </Tabs>
+  );
+}
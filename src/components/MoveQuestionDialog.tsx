@@ -0,0 +1,120 @@
+import { ReactNode, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+interface MoveQuestionDialogProps {
+  questionId: string;
+  departmentId: string | null;
+  onMoved?: (departmentId: string) => void;
+  children: ReactNode;
+}
+
+const MAX_REASON_LENGTH = 500;
+
+export function MoveQuestionDialog({ questionId, departmentId, onMoved, children }: MoveQuestionDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [departments, setDepartments] = useState<{ id: string; name: string }[]>([]);
+  const [target, setTarget] = useState("");
+  const [reason, setReason] = useState("");
+  const [isMoving, setIsMoving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchDepartments = async () => {
+      const { data, error } = await supabase.from('departments').select('id, name').order('name');
+
+      if (error) {
+        console.error('Error fetching departments:', error);
+        return;
+      }
+      setDepartments(data.filter(d => d.id !== departmentId));
+    };
+
+    setTarget("");
+    setReason("");
+    fetchDepartments();
+  }, [open, departmentId]);
+
+  const handleMove = async () => {
+    if (!target) return;
+    setIsMoving(true);
+
+    const { error } = await supabase.rpc('move_question', {
+      _question_id: questionId,
+      _department_id: target,
+      _reason: reason.trim() || undefined,
+    });
+
+    if (error) {
+      toast({ title: "Failed to move question", description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: `Moved to ${departments.find(d => d.id === target)?.name ?? "department"}` });
+      setOpen(false);
+      onMoved?.(target);
+    }
+    setIsMoving(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Move to another department</DialogTitle>
+          <DialogDescription>
+            The new department's admins are notified, and it is assigned the way their new questions are.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="move-department">Department</Label>
+            <Select value={target} onValueChange={setTarget}>
+              <SelectTrigger id="move-department">
+                <SelectValue placeholder="Select department..." />
+              </SelectTrigger>
+              <SelectContent>
+                {departments.map(d => (
+                  <SelectItem key={d.id} value={d.id}>{d.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="move-reason">Reason (optional)</Label>
+            <Textarea
+              id="move-reason"
+              placeholder="e.g. Payroll questions are handled by Finance"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={MAX_REASON_LENGTH}
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={handleMove} disabled={!target || isMoving}>
+            {isMoving ? "Moving..." : "Move"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { NotificationItem } from "./NotificationItem";
+import { useNotifications } from "@/hooks/use-notifications";
+import { AppNotification } from "@/lib/notifications";
+
+const PREVIEW_COUNT = 8;
+
+export function NotificationBell() {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const { notifications, unreadCount, markRead, markAllRead } = useNotifications(20);
+
+  const handleSelect = (notification: AppNotification) => {
+    markRead([notification.id]);
+    setOpen(false);
+    navigate(`/question/${notification.question_id}`);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative rounded-full"
+          aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"}
+        >
+          <Bell className="w-5 h-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-semibold flex items-center justify-center">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+          <p className="font-semibold text-sm">Notifications</p>
+          {unreadCount > 0 && (
+            <Button variant="ghost" size="sm" onClick={markAllRead} className="h-7 px-2 text-xs">
+              Mark all read
+            </Button>
+          )}
+        </div>
+
+        {notifications.length === 0 ? (
+          <p className="px-4 py-8 text-center text-sm text-muted-foreground">You're all caught up</p>
+        ) : (
+          <ScrollArea className="max-h-96">
+            <div className="p-1">
+              {notifications.slice(0, PREVIEW_COUNT).map(notification => (
+                <NotificationItem key={notification.id} notification={notification} onSelect={handleSelect} />
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <div className="border-t border-border p-1">
+          <Button asChild variant="ghost" size="sm" className="w-full text-xs">
+            <Link to="/notifications" onClick={() => setOpen(false)}>View all notifications</Link>
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
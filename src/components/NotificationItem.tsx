@@ -0,0 +1,59 @@
+import { AlarmClock, AtSign, CheckCircle2, CircleDot, CornerDownRight, EyeOff, Inbox, MessageCircle, MessageSquare, UserCheck } from "lucide-react";
+import { AppNotification, describeNotification, NotificationType } from "@/lib/notifications";
+import { formatDistanceToNow } from "date-fns";
+import { cn } from "@/lib/utils";
+
+const icons: Record<NotificationType, typeof MessageSquare> = {
+  new_answer: MessageSquare,
+  new_comment: MessageCircle,
+  comment_reply: CornerDownRight,
+  status_changed: CircleDot,
+  answer_accepted: CheckCircle2,
+  department_question: Inbox,
+  mention: AtSign,
+  following_new_answer: MessageSquare,
+  following_status_changed: CircleDot,
+  following_new_question: Inbox,
+  question_assigned: UserCheck,
+  sla_overdue: AlarmClock,
+};
+
+interface NotificationItemProps {
+  notification: AppNotification;
+  onSelect: (notification: AppNotification) => void;
+  className?: string;
+}
+
+export function NotificationItem({ notification, onSelect, className }: NotificationItemProps) {
+  const Icon = icons[notification.type] || MessageSquare;
+  const isUnread = !notification.read_at;
+
+  return (
+    <button
+      onClick={() => onSelect(notification)}
+      className={cn(
+        "w-full flex items-start gap-3 px-3 py-2.5 text-left rounded-md hover:bg-muted/60 transition-colors",
+        isUnread && "bg-accent/5",
+        className
+      )}
+    >
+      <Icon className={cn("w-4 h-4 mt-0.5 shrink-0", isUnread ? "text-accent" : "text-muted-foreground")} />
+      <div className="flex-1 min-w-0">
+        <p className={cn("text-sm line-clamp-2", isUnread ? "text-foreground font-medium" : "text-muted-foreground")}>
+          {describeNotification(notification)}
+        </p>
+        <p className="flex items-center gap-1.5 text-xs text-muted-foreground mt-0.5">
+          {notification.anonymous && (
+            <span className="inline-flex items-center gap-1 text-anonymous">
+              <EyeOff className="w-3 h-3" />
+              Your anonymous question
+              <span aria-hidden>·</span>
+            </span>
+          )}
+          {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+        </p>
+      </div>
+      {isUnread && <span className="w-2 h-2 mt-1.5 rounded-full bg-accent shrink-0" aria-label="Unread" />}
+    </button>
+  );
+}
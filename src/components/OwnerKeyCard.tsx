@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { Copy, Eye, EyeOff, KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { getOwnerKey, isValidOwnerKey, setOwnerKey } from "@/lib/ownership";
+
+interface OwnerKeyCardProps {
+  userId: string;
+  onKeyChanged?: () => void;
+}
+
+export function OwnerKeyCard({ userId, onKeyChanged }: OwnerKeyCardProps) {
+  const { toast } = useToast();
+  const [ownerKey, setOwnerKeyState] = useState(() => getOwnerKey(userId));
+  const [showKey, setShowKey] = useState(false);
+  const [importKey, setImportKey] = useState("");
+
+  const handleCopyKey = async () => {
+    if (!ownerKey) return;
+    await navigator.clipboard.writeText(ownerKey);
+    toast({ title: "Recovery key copied" });
+  };
+
+  const handleImportKey = () => {
+    const key = importKey.trim();
+
+    if (!isValidOwnerKey(key)) {
+      toast({ title: "That recovery key is not valid", variant: "destructive" });
+      return;
+    }
+
+    setOwnerKey(userId, key);
+    setOwnerKeyState(key);
+    setImportKey("");
+    toast({ title: "Recovery key saved on this browser" });
+    onKeyChanged?.();
+  };
+
+  return (
+    <Card className="border-border/50">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <KeyRound className="w-5 h-5" />
+          Recovery key
+        </CardTitle>
+        <CardDescription>
+          Your anonymous questions are tied to a secret key stored in this browser, not to your account,
+          so nobody else (admins included) can tell they're yours. Copy the key to another browser to
+          manage them there. If you lose it, those questions can't be recovered.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {ownerKey ? (
+          <div className="flex gap-2">
+            <Input
+              readOnly
+              value={showKey ? ownerKey : "•".repeat(ownerKey.length)}
+              className="font-mono text-xs"
+            />
+            <Button variant="outline" size="icon" onClick={() => setShowKey(!showKey)} aria-label={showKey ? "Hide key" : "Show key"}>
+              {showKey ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+            </Button>
+            <Button variant="outline" size="icon" onClick={handleCopyKey} aria-label="Copy key">
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            You haven't asked anonymously from this browser yet.
+          </p>
+        )}
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Use a key from another browser</p>
+          <div className="flex gap-2">
+            <Input
+              placeholder="Paste recovery key"
+              value={importKey}
+              onChange={(e) => setImportKey(e.target.value)}
+              className="font-mono text-xs"
+            />
+            <Button onClick={handleImportKey} disabled={!importKey.trim()}>
+              Save
+            </Button>
+          </div>
+          {ownerKey && (
+            <p className="text-xs text-muted-foreground">
+              Saving a different key replaces this browser's current one. Copy it first if you still need it.
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,6 +3,8 @@ import { MessageSquare, Clock, User } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { VoteButtons } from "./VoteButtons";
 import { DepartmentBadge } from "./DepartmentBadge";
+import { StatusBadge } from "./StatusBadge";
+import { MarkdownExcerpt } from "./Markdown";
 import { formatDistanceToNow } from "date-fns";
 import { cn } from "@/lib/utils";
 
@@ -11,6 +13,7 @@ interface QuestionCardProps {
   title: string;
   content: string;
   departmentName?: string;
+  departmentId?: string;
   isAnonymous: boolean;
   authorName?: string;
   status: string;
@@ -27,6 +30,7 @@ export function QuestionCard({
   title,
   content,
   departmentName,
+  departmentId,
   isAnonymous,
   authorName,
   status,
@@ -41,7 +45,7 @@ export function QuestionCard({
     <Card className="p-4 hover:shadow-elegant transition-all duration-300 animate-fade-in border-border/50">
       <div className="flex gap-4">
         <VoteButtons
-          questionId={id}
+          targetId={id}
           upvotes={upvotes}
           downvotes={downvotes}
           userVote={userVote}
@@ -55,12 +59,10 @@ export function QuestionCard({
                 {title}
               </h3>
             </Link>
-            {departmentName && <DepartmentBadge name={departmentName} />}
+            {departmentName && <DepartmentBadge name={departmentName} departmentId={departmentId} />}
           </div>
 
-          <p className="text-muted-foreground text-sm line-clamp-2 mb-3">
-            {content}
-          </p>
+          <MarkdownExcerpt content={content} className="text-muted-foreground text-sm line-clamp-2 mb-3" />
 
           <div className="flex items-center gap-4 text-xs text-muted-foreground">
             <div className="flex items-center gap-1">
@@ -80,14 +82,7 @@ export function QuestionCard({
               <span>{formatDistanceToNow(new Date(createdAt), { addSuffix: true })}</span>
             </div>
 
-            <span className={cn(
-              "px-2 py-0.5 rounded-full text-xs font-medium capitalize",
-              status === 'open' && "bg-accent/10 text-accent",
-              status === 'answered' && "bg-success/10 text-success",
-              status === 'closed' && "bg-muted text-muted-foreground"
-            )}>
-              {status}
-            </span>
+            <StatusBadge status={status} questionId={id} />
           </div>
         </div>
       </div>
@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { History } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { supabase } from "@/integrations/supabase/client";
+import { diffWords } from "@/lib/diff";
+import { formatDistanceToNow } from "date-fns";
+import { cn } from "@/lib/utils";
+
+type RevisionEntity = 'question' | 'answer' | 'comment';
+
+interface Revision {
+  id: string;
+  previous_title: string | null;
+  previous_content: string;
+  editor_name: string | null;
+  created_at: string;
+}
+
+interface RevisionHistoryProps {
+  entityType: RevisionEntity;
+  entityId: string;
+  editedAt: string;
+  currentTitle?: string;
+  currentContent: string;
+  className?: string;
+}
+
+function DiffView({ before, after }: { before: string; after: string }) {
+  return (
+    <p className="whitespace-pre-wrap text-sm leading-relaxed">
+      {diffWords(before, after).map((part, index) => (
+        <span
+          key={index}
+          className={cn(
+            part.type === 'added' && "bg-success/15 text-success",
+            part.type === 'removed' && "bg-destructive/10 text-destructive line-through"
+          )}
+        >
+          {part.value}
+        </span>
+      ))}
+    </p>
+  );
+}
+
+export function RevisionHistory({
+  entityType,
+  entityId,
+  editedAt,
+  currentTitle,
+  currentContent,
+  className,
+}: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchRevisions = async () => {
+    setIsLoading(true);
+
+    const { data, error } = await supabase.rpc('get_content_revisions', {
+      _entity_type: entityType,
+      _entity_id: entityId,
+    });
+
+    if (error) {
+      console.error('Error fetching revisions:', error);
+    } else {
+      setRevisions(data);
+    }
+
+    setIsLoading(false);
+  };
+
+  // Each revision holds the text *before* an edit; the version after it is
+  // the next newer revision, or the current content for the newest one.
+  const versions = revisions.map((revision, index) => {
+    const newer = revisions[index - 1];
+    return {
+      ...revision,
+      nextTitle: newer ? newer.previous_title : currentTitle,
+      nextContent: newer ? newer.previous_content : currentContent,
+    };
+  });
+
+  return (
+    <Dialog onOpenChange={(open) => open && fetchRevisions()}>
+      <DialogTrigger asChild>
+        <button
+          className={cn("text-xs text-muted-foreground hover:text-foreground underline-offset-2 hover:underline", className)}
+          title={`Edited ${formatDistanceToNow(new Date(editedAt), { addSuffix: true })}`}
+        >
+          (edited)
+        </button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Edit history
+          </DialogTitle>
+          <DialogDescription>
+            Changes made to this {entityType}, newest first
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh] pr-4">
+          {isLoading ? (
+            <div className="py-8 text-center text-muted-foreground animate-pulse">Loading...</div>
+          ) : versions.length === 0 ? (
+            <div className="py-8 text-center text-muted-foreground">No earlier versions</div>
+          ) : (
+            <div className="space-y-6">
+              {versions.map(version => (
+                <div key={version.id} className="space-y-2 border-b border-border pb-4 last:border-0">
+                  <p className="text-xs text-muted-foreground">
+                    Edited by {version.editor_name || "the author"}{" "}
+                    {formatDistanceToNow(new Date(version.created_at), { addSuffix: true })}
+                  </p>
+                  {version.previous_title !== null && version.nextTitle !== undefined && version.previous_title !== version.nextTitle && (
+                    <div className="font-semibold">
+                      <DiffView before={version.previous_title} after={version.nextTitle} />
+                    </div>
+                  )}
+                  <DiffView before={version.previous_content} after={version.nextContent} />
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
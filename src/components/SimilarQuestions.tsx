@@ -0,0 +1,99 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { CheckCircle2, ChevronUp, Lightbulb } from "lucide-react";
+import { StatusBadge } from "@/components/StatusBadge";
+import { supabase } from "@/integrations/supabase/client";
+
+interface SimilarQuestion {
+  id: string;
+  title: string;
+  status: string;
+  upvotes: number;
+  is_answered: boolean;
+}
+
+interface SimilarQuestionsProps {
+  title: string;
+  content: string;
+}
+
+// Shorter titles match too much to be useful
+const MIN_TITLE_LENGTH = 10;
+
+/** Existing questions that look like the one being written. */
+export function SimilarQuestions({ title, content }: SimilarQuestionsProps) {
+  const [questions, setQuestions] = useState<SimilarQuestion[]>([]);
+
+  useEffect(() => {
+    if (title.trim().length < MIN_TITLE_LENGTH) {
+      setQuestions([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    const fetchSimilar = async () => {
+      const { data, error } = await supabase.rpc('find_similar_questions', {
+        _title: title.trim(),
+        _content: content.trim() || undefined,
+        _limit: 5,
+      });
+
+      // A slower response for an earlier draft mustn't replace newer results
+      if (cancelled) return;
+
+      if (error) {
+        console.error('Error fetching similar questions:', error);
+        return;
+      }
+      setQuestions(data);
+    };
+
+    // Debounce so typing doesn't fire a query per keystroke
+    const timeout = setTimeout(fetchSimilar, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [title, content]);
+
+  if (questions.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border border-border/50 bg-secondary/30 p-4 space-y-3">
+      <p className="flex items-center gap-2 text-sm font-medium">
+        <Lightbulb className="w-4 h-4 text-accent" />
+        Has this been asked already?
+      </p>
+      <ul className="space-y-2">
+        {questions.map(question => (
+          <li key={question.id} className="flex items-center justify-between gap-3 text-sm">
+            {/* Opens in a new tab so the draft isn't lost */}
+            <Link
+              to={`/question/${question.id}`}
+              target="_blank"
+              rel="noreferrer"
+              className="hover:text-accent transition-colors line-clamp-1"
+            >
+              {question.title}
+            </Link>
+            <div className="flex items-center gap-2 shrink-0 text-xs text-muted-foreground">
+              {question.is_answered ? (
+                <span className="flex items-center gap-1 text-success">
+                  <CheckCircle2 className="w-3.5 h-3.5" />
+                  Answered
+                </span>
+              ) : (
+                <StatusBadge status={question.status} />
+              )}
+              <span className="flex items-center">
+                <ChevronUp className="w-3.5 h-3.5" />
+                {question.upvotes}
+              </span>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { formatDistanceStrict, formatDistanceToNow } from "date-fns";
+import { SLA_LABELS, SLA_STYLES, SlaQuestion, slaState } from "@/lib/sla";
+import { cn } from "@/lib/utils";
+
+interface SlaBadgeProps {
+  question: SlaQuestion;
+  className?: string;
+}
+
+export function SlaBadge({ question, className }: SlaBadgeProps) {
+  const state = slaState(question);
+  if (!state || !question.sla_due_at) return null;
+
+  const due = new Date(question.sla_due_at);
+  const detail = question.first_answered_at
+    ? `First official answer after ${formatDistanceStrict(new Date(question.first_answered_at), new Date(question.created_at))}`
+    : state === 'overdue'
+      ? `Was due ${formatDistanceToNow(due, { addSuffix: true })}`
+      : `Due ${formatDistanceToNow(due, { addSuffix: true })}`;
+
+  return (
+    <span
+      className={cn("px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap", SLA_STYLES[state], className)}
+      title={detail}
+    >
+      {SLA_LABELS[state]}
+    </span>
+  );
+}
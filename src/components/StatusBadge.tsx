@@ -0,0 +1,37 @@
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { StatusTimeline } from "./StatusTimeline";
+import { STATUS_STYLES, isQuestionStatus, statusLabel } from "@/lib/question-status";
+import { cn } from "@/lib/utils";
+
+interface StatusBadgeProps {
+  status: string;
+  // When given, clicking the badge shows the question's status timeline
+  questionId?: string;
+  className?: string;
+}
+
+export function StatusBadge({ status, questionId, className }: StatusBadgeProps) {
+  const badgeClass = cn(
+    "px-2 py-0.5 rounded-full text-xs font-medium",
+    isQuestionStatus(status) ? STATUS_STYLES[status] : "bg-muted text-muted-foreground",
+    className
+  );
+
+  if (!questionId) {
+    return <span className={badgeClass}>{statusLabel(status)}</span>;
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button className={cn(badgeClass, "hover:opacity-80 transition-opacity")} title="Show status history">
+          {statusLabel(status)}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72" align="start">
+        <p className="text-sm font-medium mb-3">Status history</p>
+        <StatusTimeline questionId={questionId} />
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,107 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { STATUS_STYLES, isQuestionStatus, statusLabel } from "@/lib/question-status";
+import { formatDistanceToNow } from "date-fns";
+import { cn } from "@/lib/utils";
+
+interface StatusChange {
+  id: string;
+  from_status: string | null;
+  to_status: string;
+  by_asker: boolean;
+  created_at: string;
+  changedByName: string | null;
+}
+
+interface StatusTimelineProps {
+  questionId: string;
+}
+
+export function StatusTimeline({ questionId }: StatusTimelineProps) {
+  const [changes, setChanges] = useState<StatusChange[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      setIsLoading(true);
+
+      const { data, error } = await supabase
+        .from('question_status_history')
+        .select('id, from_status, to_status, changed_by, by_asker, created_at')
+        .eq('question_id', questionId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching status history:', error);
+        setIsLoading(false);
+        return;
+      }
+
+      const userIds = [...new Set(data.flatMap(c => c.changed_by ? [c.changed_by] : []))];
+      // Use profiles_public view to avoid exposing email addresses
+      const { data: profiles } = await supabase
+        .from('profiles_public')
+        .select('user_id, full_name')
+        .in('user_id', userIds);
+
+      const namesMap = new Map(profiles?.map(p => [p.user_id, p.full_name]) || []);
+
+      setChanges(data.map(c => ({
+        id: c.id,
+        from_status: c.from_status,
+        to_status: c.to_status,
+        by_asker: c.by_asker,
+        created_at: c.created_at,
+        changedByName: c.changed_by ? namesMap.get(c.changed_by) || null : null,
+      })));
+      setIsLoading(false);
+    };
+
+    fetchHistory();
+  }, [questionId]);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {[1, 2].map(i => (
+          <div key={i} className="h-8 bg-muted rounded animate-pulse" />
+        ))}
+      </div>
+    );
+  }
+
+  if (changes.length === 0) {
+    return <p className="text-sm text-muted-foreground">No status changes recorded</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-1.5 space-y-4">
+      {changes.map(change => {
+        // Anonymous askers are never named
+        const actor = change.changedByName || (change.by_asker ? "the asker" : null);
+
+        return (
+          <li key={change.id} className="ml-4">
+            <span className={cn(
+              "absolute -left-1.5 mt-1 w-3 h-3 rounded-full border-2 border-background",
+              // Takes the text colour of the status and fills the dot with it
+              isQuestionStatus(change.to_status) ? STATUS_STYLES[change.to_status] : "text-muted-foreground",
+              "bg-current"
+            )} />
+            <p className="text-sm text-foreground">
+              {change.from_status ? (
+                <>Moved to <span className="font-medium">{statusLabel(change.to_status)}</span></>
+              ) : (
+                <>Asked</>
+              )}
+              {actor && <span className="text-muted-foreground"> by {actor}</span>}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {formatDistanceToNow(new Date(change.created_at), { addSuffix: true })}
+            </p>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
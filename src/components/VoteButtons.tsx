@@ -4,15 +4,34 @@ import { cn } from "@/lib/utils";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 
+type VoteTarget = 'question' | 'answer';
+
 interface VoteButtonsProps {
-  questionId: string;
+  targetId: string;
+  target?: VoteTarget;
   upvotes: number;
   downvotes: number;
   userVote: 'up' | 'down' | null;
   onVoteChange?: () => void;
 }
 
-export function VoteButtons({ questionId, upvotes, downvotes, userVote, onVoteChange }: VoteButtonsProps) {
+// Question votes live in `votes`, answer votes in `answer_votes`
+const removeVote = (target: VoteTarget, targetId: string, userId: string) =>
+  target === 'answer'
+    ? supabase.from('answer_votes').delete().eq('answer_id', targetId).eq('user_id', userId)
+    : supabase.from('votes').delete().eq('question_id', targetId).eq('user_id', userId);
+
+const changeVote = (target: VoteTarget, targetId: string, userId: string, voteType: 'up' | 'down') =>
+  target === 'answer'
+    ? supabase.from('answer_votes').update({ vote_type: voteType }).eq('answer_id', targetId).eq('user_id', userId)
+    : supabase.from('votes').update({ vote_type: voteType }).eq('question_id', targetId).eq('user_id', userId);
+
+const addVote = (target: VoteTarget, targetId: string, userId: string, voteType: 'up' | 'down') =>
+  target === 'answer'
+    ? supabase.from('answer_votes').insert({ answer_id: targetId, user_id: userId, vote_type: voteType })
+    : supabase.from('votes').insert({ question_id: targetId, user_id: userId, vote_type: voteType });
+
+export function VoteButtons({ targetId, target = 'question', upvotes, downvotes, userVote, onVoteChange }: VoteButtonsProps) {
   const [isVoting, setIsVoting] = useState(false);
   const { toast } = useToast();
 
@@ -28,24 +47,11 @@ export function VoteButtons({ questionId, upvotes, downvotes, userVote, onVoteCh
       }
 
       if (userVote === voteType) {
-        // Remove vote
-        await supabase
-          .from('votes')
-          .delete()
-          .eq('question_id', questionId)
-          .eq('user_id', user.id);
+        await removeVote(target, targetId, user.id);
       } else if (userVote) {
-        // Change vote
-        await supabase
-          .from('votes')
-          .update({ vote_type: voteType })
-          .eq('question_id', questionId)
-          .eq('user_id', user.id);
+        await changeVote(target, targetId, user.id, voteType);
       } else {
-        // New vote
-        await supabase
-          .from('votes')
-          .insert({ question_id: questionId, user_id: user.id, vote_type: voteType });
+        await addVote(target, targetId, user.id, voteType);
       }
 
       onVoteChange?.();
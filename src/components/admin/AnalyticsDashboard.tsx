@@ -0,0 +1,287 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from "recharts";
+import { BarChart3, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { supabase } from "@/integrations/supabase/client";
+import { formatHours, formatPercent, pivotWeeklyQuestions, WeeklyQuestionsRow } from "@/lib/analytics";
+import { format, formatDistanceToNow, parseISO } from "date-fns";
+
+interface Summary {
+  questions: number;
+  answered: number;
+  anonymous: number;
+  median_first_answer_hours: number | null;
+}
+
+interface BacklogBucket {
+  bucket: string;
+  questions: number;
+}
+
+interface UnansweredQuestion {
+  id: string;
+  title: string;
+  upvotes: number;
+  department: string | null;
+  created_at: string;
+}
+
+const PERIODS = [
+  { weeks: 4, label: "Last 4 weeks" },
+  { weeks: 12, label: "Last 12 weeks" },
+  { weeks: 26, label: "Last 6 months" },
+  { weeks: 52, label: "Last year" },
+];
+
+const CHART_COLORS = [1, 2, 3, 4, 5, 6].map(n => `hsl(var(--chart-${n}))`);
+
+const backlogConfig = {
+  questions: { label: "Questions", color: "hsl(var(--chart-3))" },
+} satisfies ChartConfig;
+
+const askerConfig = {
+  named: { label: "Named", color: "hsl(var(--chart-1))" },
+  anonymous: { label: "Anonymous", color: "hsl(var(--anonymous))" },
+} satisfies ChartConfig;
+
+export function AnalyticsDashboard() {
+  const [weeks, setWeeks] = useState(12);
+  const [weekly, setWeekly] = useState<WeeklyQuestionsRow[]>([]);
+  const [summary, setSummary] = useState<Summary | null>(null);
+  const [backlog, setBacklog] = useState<BacklogBucket[]>([]);
+  const [unanswered, setUnanswered] = useState<UnansweredQuestion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchAnalytics = async () => {
+    setIsLoading(true);
+
+    const [weeklyResult, summaryResult, backlogResult, unansweredResult] = await Promise.all([
+      supabase.rpc('analytics_weekly_questions', { _weeks: weeks }),
+      supabase.rpc('analytics_summary', { _weeks: weeks }),
+      supabase.rpc('analytics_backlog_by_age'),
+      supabase.rpc('analytics_top_unanswered', { _limit: 10 }),
+    ]);
+
+    if (weeklyResult.error) console.error('Error fetching weekly questions:', weeklyResult.error);
+    else setWeekly(weeklyResult.data);
+
+    if (summaryResult.error) console.error('Error fetching summary:', summaryResult.error);
+    else setSummary(summaryResult.data[0] ?? null);
+
+    if (backlogResult.error) console.error('Error fetching backlog:', backlogResult.error);
+    else setBacklog(backlogResult.data);
+
+    if (unansweredResult.error) console.error('Error fetching unanswered questions:', unansweredResult.error);
+    else setUnanswered(unansweredResult.data);
+
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [weeks]);
+
+  const { data: weeklyData, departments } = pivotWeeklyQuestions(weekly);
+  const weeklyConfig: ChartConfig = Object.fromEntries(
+    departments.map((department, i) => [department, { label: department, color: CHART_COLORS[i % CHART_COLORS.length] }])
+  );
+
+  const askers = summary
+    ? [
+        { kind: "named", questions: summary.questions - summary.anonymous },
+        { kind: "anonymous", questions: summary.anonymous },
+      ]
+    : [];
+
+  const stats = [
+    { label: "Questions asked", value: summary ? summary.questions.toString() : "—" },
+    { label: "Answer rate", value: summary ? formatPercent(summary.answered, summary.questions) : "—" },
+    { label: "Median time to first official answer", value: formatHours(summary?.median_first_answer_hours ?? null) },
+    { label: "Asked anonymously", value: summary ? formatPercent(summary.anonymous, summary.questions) : "—" },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            <BarChart3 className="w-5 h-5" />
+            Analytics
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Question volume and how quickly departments answer. Duplicates are not counted.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={weeks.toString()} onValueChange={(value) => setWeeks(Number(value))}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERIODS.map(period => (
+                <SelectItem key={period.weeks} value={period.weeks.toString()}>{period.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" onClick={fetchAnalytics} disabled={isLoading} title="Refresh">
+            <RefreshCw className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {stats.map(stat => (
+          <Card key={stat.label}>
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground">{stat.label}</p>
+              <p className="text-2xl font-bold mt-1">{isLoading ? "…" : stat.value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Questions per week</CardTitle>
+          <CardDescription>By department, for the selected period</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {departments.length === 0 ? (
+            <p className="text-center py-12 text-muted-foreground">
+              {isLoading ? "Loading..." : "No questions in this period"}
+            </p>
+          ) : (
+            <ChartContainer config={weeklyConfig} className="h-[280px] w-full">
+              <BarChart data={weeklyData}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="week_start"
+                  tickLine={false}
+                  axisLine={false}
+                  tickFormatter={(value: string) => format(parseISO(value), "MMM d")}
+                />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent labelFormatter={(value: string) => `Week of ${format(parseISO(value), "MMM d")}`} />
+                  }
+                />
+                <ChartLegend content={<ChartLegendContent />} />
+                {departments.map((department, i) => (
+                  <Bar
+                    key={department}
+                    dataKey={department}
+                    stackId="questions"
+                    fill={CHART_COLORS[i % CHART_COLORS.length]}
+                  />
+                ))}
+              </BarChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Open backlog by age</CardTitle>
+            <CardDescription>Questions still waiting for an official answer</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={backlogConfig} className="h-[220px] w-full">
+              <BarChart data={backlog}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="bucket" tickLine={false} axisLine={false} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="questions" fill="var(--color-questions)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Anonymous and named questions</CardTitle>
+            <CardDescription>For the selected period</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!summary || summary.questions === 0 ? (
+              <p className="text-center py-12 text-muted-foreground">
+                {isLoading ? "Loading..." : "No questions in this period"}
+              </p>
+            ) : (
+              <ChartContainer config={askerConfig} className="h-[220px] w-full">
+                <PieChart>
+                  <ChartTooltip content={<ChartTooltipContent nameKey="kind" hideLabel />} />
+                  <Pie data={askers} dataKey="questions" nameKey="kind" innerRadius={50} strokeWidth={2}>
+                    {askers.map(slice => (
+                      <Cell key={slice.kind} fill={`var(--color-${slice.kind})`} />
+                    ))}
+                  </Pie>
+                  <ChartLegend content={<ChartLegendContent nameKey="kind" />} />
+                </PieChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Top-voted unanswered questions</CardTitle>
+          <CardDescription>The most wanted questions without an official answer yet</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {unanswered.length === 0 ? (
+            <p className="text-center py-4 text-muted-foreground">
+              {isLoading ? "Loading..." : "Every question has an official answer"}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Question</TableHead>
+                  <TableHead>Department</TableHead>
+                  <TableHead>Votes</TableHead>
+                  <TableHead>Asked</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {unanswered.map(question => (
+                  <TableRow key={question.id}>
+                    <TableCell className="max-w-[360px]">
+                      <Link
+                        to={`/question/${question.id}`}
+                        className="font-medium hover:text-accent transition-colors line-clamp-1"
+                      >
+                        {question.title}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{question.department || "—"}</TableCell>
+                    <TableCell>{question.upvotes}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {formatDistanceToNow(new Date(question.created_at), { addSuffix: true })}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
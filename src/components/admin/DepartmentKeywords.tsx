@@ -0,0 +1,186 @@
+import { useState } from "react";
+import { Plus, Sparkles, Tags, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { useDepartmentClassifier } from "@/hooks/use-department-classifier";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { KEYWORD_WEIGHTS, suggestDepartment } from "@/lib/department-classifier";
+
+interface DepartmentKeywordsProps {
+  departments: { id: string; name: string }[];
+}
+
+export function DepartmentKeywords({ departments }: DepartmentKeywordsProps) {
+  const { classifier, keywords, refreshKeywords } = useDepartmentClassifier();
+  const [newDepartment, setNewDepartment] = useState("");
+  const [newKeyword, setNewKeyword] = useState("");
+  const [newWeight, setNewWeight] = useState("1");
+  const [sample, setSample] = useState("");
+  const { toast } = useToast();
+
+  const handleAdd = async () => {
+    const keyword = newKeyword.trim().toLowerCase().replace(/\s+/g, ' ');
+    if (!newDepartment || !keyword) return;
+
+    if (keyword.length < 2) {
+      toast({ title: "Keywords need at least 2 characters", variant: "destructive" });
+      return;
+    }
+
+    // Adding a keyword again changes its weight
+    const { error } = await supabase
+      .from('department_keywords')
+      .upsert(
+        { department_id: newDepartment, keyword, weight: Number(newWeight) },
+        { onConflict: 'department_id,keyword' }
+      );
+
+    if (error) {
+      toast({ title: "Failed to add keyword", variant: "destructive" });
+    } else {
+      toast({ title: "Keyword added" });
+      setNewKeyword("");
+      refreshKeywords();
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.from('department_keywords').delete().eq('id', id);
+
+    if (error) {
+      toast({ title: "Failed to remove keyword", variant: "destructive" });
+    } else {
+      refreshKeywords();
+    }
+  };
+
+  const departmentName = (id: string) => departments.find(d => d.id === id)?.name || "Unknown";
+
+  const withKeywords = departments.filter(d => keywords.some(k => k.department_id === d.id));
+  const suggestion = sample.trim() ? suggestDepartment(classifier, sample) : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tags className="w-5 h-5" />
+          Department Suggestions
+        </CardTitle>
+        <CardDescription>
+          While someone writes a question, a department is suggested based on where similar questions went.
+          Keywords steer the suggestion towards a department; phrases match in order.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex gap-3">
+          <Select value={newDepartment} onValueChange={setNewDepartment}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue placeholder="Department" />
+            </SelectTrigger>
+            <SelectContent>
+              {departments.map((d) => (
+                <SelectItem key={d.id} value={d.id}>{d.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex-1">
+            <Label htmlFor="department-keyword" className="sr-only">Keyword or phrase</Label>
+            <Input
+              id="department-keyword"
+              placeholder="Keyword or phrase, e.g. payslip"
+              value={newKeyword}
+              onChange={(e) => setNewKeyword(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+              maxLength={60}
+            />
+          </div>
+          <Select value={newWeight} onValueChange={setNewWeight}>
+            <SelectTrigger className="w-[130px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(KEYWORD_WEIGHTS).map(([weight, label]) => (
+                <SelectItem key={weight} value={weight}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleAdd} disabled={!newDepartment || !newKeyword.trim()}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add
+          </Button>
+        </div>
+
+        {withKeywords.length === 0 ? (
+          <p className="text-center py-4 text-muted-foreground">
+            No keywords yet; suggestions come from past questions only
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[200px]">Department</TableHead>
+                <TableHead>Keywords</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {withKeywords.map((d) => (
+                <TableRow key={d.id}>
+                  <TableCell className="font-medium">{d.name}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-2">
+                      {keywords.filter(k => k.department_id === d.id).map(k => (
+                        <Badge key={k.id} variant="outline" className="gap-1 pr-1">
+                          {k.keyword}
+                          {k.weight > 1 && (
+                            <span className="text-muted-foreground">· {KEYWORD_WEIGHTS[k.weight]}</span>
+                          )}
+                          <button
+                            type="button"
+                            onClick={() => handleDelete(k.id)}
+                            className="rounded-full p-0.5 hover:bg-muted"
+                            aria-label={`Remove ${k.keyword}`}
+                          >
+                            <X className="w-3 h-3" />
+                          </button>
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="suggestion-sample">Try it</Label>
+          <Input
+            id="suggestion-sample"
+            placeholder="Type a question to see which department would be suggested"
+            value={sample}
+            onChange={(e) => setSample(e.target.value)}
+          />
+          {sample.trim() && (
+            <p className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Sparkles className="w-4 h-4 text-accent" />
+              {suggestion ? (
+                <span>
+                  Suggests <span className="font-medium text-foreground">{departmentName(suggestion.departmentId)}</span>
+                  {suggestion.keywords.length > 0 && ` (matched ${suggestion.keywords.join(", ")})`}
+                </span>
+              ) : (
+                <span>No suggestion</span>
+              )}
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,290 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { ArrowRightLeft, Building, Filter, Search, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AssignableResponder, AssigneeSelect } from "@/components/AssigneeSelect";
+import { SlaBadge } from "@/components/SlaBadge";
+import { MoveQuestionDialog } from "@/components/MoveQuestionDialog";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { QUESTION_STATUSES, QuestionStatus, STATUS_LABELS, nextStatuses, statusLabel } from "@/lib/question-status";
+import { containsPattern } from "@/lib/pagination";
+import { formatDistanceToNow } from "date-fns";
+
+interface DepartmentOption {
+  id: string;
+  name: string;
+}
+
+interface ModeratedQuestion {
+  id: string;
+  title: string;
+  status: string;
+  created_at: string;
+  sla_due_at: string | null;
+  first_answered_at: string | null;
+  department_id: string | null;
+  assignee_id: string | null;
+}
+
+// Statuses that still need someone to act
+const ACTIVE_STATUSES: QuestionStatus[] = ['open', 'assigned', 'in_progress', 'needs_info'];
+
+const LIMIT = 100;
+
+/**
+ * The admin panel of a department admin: the questions of the departments
+ * they administer, which they can move along, assign, re-route or delete.
+ */
+export function DepartmentModeration() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [myDepartments, setMyDepartments] = useState<DepartmentOption[]>([]);
+  const [allDepartments, setAllDepartments] = useState<DepartmentOption[]>([]);
+  const [questions, setQuestions] = useState<ModeratedQuestion[]>([]);
+  const [responders, setResponders] = useState<AssignableResponder[]>([]);
+  const [departmentFilter, setDepartmentFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState("active");
+  const [search, setSearch] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchDepartments = async () => {
+    if (!user) return;
+
+    const [{ data: memberships, error: membershipsError }, { data: departments }, { data: assignable }] = await Promise.all([
+      supabase.from('department_admins').select('department_id').eq('user_id', user.id),
+      supabase.from('departments').select('id, name').order('name'),
+      supabase.rpc('get_assignable_responders', {}),
+    ]);
+
+    if (membershipsError) {
+      console.error('Error fetching departments:', membershipsError);
+    }
+
+    const mine = new Set(memberships?.map(m => m.department_id));
+    setAllDepartments(departments ?? []);
+    setMyDepartments((departments ?? []).filter(d => mine.has(d.id)));
+    setResponders(assignable ?? []);
+    if (mine.size === 0) setIsLoading(false);
+  };
+
+  const fetchQuestions = async () => {
+    const departmentIds = departmentFilter === "all" ? myDepartments.map(d => d.id) : [departmentFilter];
+    if (departmentIds.length === 0) {
+      setQuestions([]);
+      setIsLoading(false);
+      return;
+    }
+
+    let query = supabase
+      .from('questions')
+      .select('id, title, status, created_at, sla_due_at, first_answered_at, department_id, assignee_id')
+      .in('department_id', departmentIds);
+
+    if (statusFilter === 'active') query = query.in('status', ACTIVE_STATUSES);
+    else if (statusFilter !== 'all') query = query.eq('status', statusFilter);
+
+    if (search.trim()) {
+      query = query.ilike('title', containsPattern(search.trim()));
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false }).limit(LIMIT);
+
+    if (error) {
+      console.error('Error fetching questions:', error);
+    } else {
+      setQuestions(data);
+    }
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    fetchDepartments();
+  }, [user]);
+
+  useEffect(() => {
+    if (myDepartments.length === 0) return;
+
+    // Debounce so typing in the search box doesn't fire a query per keystroke
+    const timeout = setTimeout(fetchQuestions, search ? 300 : 0);
+    return () => clearTimeout(timeout);
+  }, [myDepartments, departmentFilter, statusFilter, search]);
+
+  const departmentName = (id: string | null) => allDepartments.find(d => d.id === id)?.name ?? "—";
+
+  const handleUpdateStatus = async (id: string, status: string) => {
+    const { error } = await supabase.rpc('set_question_status', { _question_id: id, _status: status });
+
+    if (error) {
+      toast({ title: "Failed to update status", description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: "Status updated" });
+      fetchQuestions();
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.from('questions').delete().eq('id', id);
+
+    if (error) {
+      toast({ title: "Failed to delete question", variant: "destructive" });
+    } else {
+      toast({ title: "Question deleted" });
+      setQuestions(prev => prev.filter(q => q.id !== id));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Building className="w-5 h-5" />
+          My departments
+        </CardTitle>
+        <CardDescription>
+          Questions in {myDepartments.map(d => d.name).join(", ") || "your departments"}.
+          Moving a question to another department hands it over to that department's admins.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              placeholder="Search questions..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+
+          {myDepartments.length > 1 && (
+            <Select value={departmentFilter} onValueChange={setDepartmentFilter}>
+              <SelectTrigger className="w-full sm:w-[180px]">
+                <Building className="w-4 h-4 mr-2" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All my departments</SelectItem>
+                {myDepartments.map(d => (
+                  <SelectItem key={d.id} value={d.id}>{d.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-full sm:w-[180px]">
+              <Filter className="w-4 h-4 mr-2" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="active">Needs attention</SelectItem>
+              <SelectItem value="all">Any status</SelectItem>
+              {QUESTION_STATUSES.map(status => (
+                <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Question</TableHead>
+              <TableHead>Department</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>SLA</TableHead>
+              <TableHead>Assignee</TableHead>
+              <TableHead>Posted</TableHead>
+              <TableHead className="w-[100px]"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                  Loading...
+                </TableCell>
+              </TableRow>
+            ) : questions.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                  No questions found
+                </TableCell>
+              </TableRow>
+            ) : (
+              questions.map(q => (
+                <TableRow key={q.id}>
+                  <TableCell className="max-w-[280px]">
+                    <Link
+                      to={`/question/${q.id}`}
+                      className="font-medium hover:text-accent transition-colors line-clamp-1"
+                    >
+                      {q.title}
+                    </Link>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {departmentName(q.department_id)}
+                  </TableCell>
+                  <TableCell>
+                    <Select value={q.status} onValueChange={(status) => handleUpdateStatus(q.id, status)}>
+                      <SelectTrigger className="w-[130px] h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={q.status} disabled>{statusLabel(q.status)}</SelectItem>
+                        {nextStatuses(q.status).map(status => (
+                          <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <SlaBadge question={q} />
+                  </TableCell>
+                  <TableCell>
+                    <AssigneeSelect
+                      questionId={q.id}
+                      departmentId={q.department_id}
+                      assigneeId={q.assignee_id}
+                      onChange={fetchQuestions}
+                      responders={responders}
+                      className="w-[170px]"
+                    />
+                  </TableCell>
+                  <TableCell className="text-muted-foreground whitespace-nowrap">
+                    {formatDistanceToNow(new Date(q.created_at), { addSuffix: true })}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center">
+                      <MoveQuestionDialog questionId={q.id} departmentId={q.department_id} onMoved={fetchQuestions}>
+                        <Button variant="ghost" size="icon" title="Move to another department">
+                          <ArrowRightLeft className="w-4 h-4" />
+                        </Button>
+                      </MoveQuestionDialog>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Delete"
+                        onClick={() => handleDelete(q.id)}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,210 @@
+import { useState, useEffect } from "react";
+import { Plus, Trash2, Webhook } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+type ChatPlatform = 'slack' | 'teams';
+
+const PLATFORM_LABELS: Record<ChatPlatform, string> = {
+  slack: "Slack",
+  teams: "Microsoft Teams",
+};
+
+interface DepartmentWebhook {
+  id: string;
+  department_id: string;
+  platform: ChatPlatform;
+  url: string;
+  enabled: boolean;
+}
+
+interface DepartmentWebhooksProps {
+  departments: { id: string; name: string }[];
+}
+
+// Hide most of the URL; the path is the secret part of an incoming webhook
+const maskUrl = (url: string) => {
+  try {
+    const { host, pathname } = new URL(url);
+    return `${host}${pathname.slice(0, 8)}…`;
+  } catch {
+    return url;
+  }
+};
+
+export function DepartmentWebhooks({ departments }: DepartmentWebhooksProps) {
+  const [webhooks, setWebhooks] = useState<DepartmentWebhook[]>([]);
+  const [newDepartment, setNewDepartment] = useState("");
+  const [newPlatform, setNewPlatform] = useState<ChatPlatform>("slack");
+  const [newUrl, setNewUrl] = useState("");
+  const { toast } = useToast();
+
+  const fetchWebhooks = async () => {
+    const { data, error } = await supabase
+      .from('department_webhooks')
+      .select('id, department_id, platform, url, enabled')
+      .order('created_at');
+
+    if (error) {
+      console.error('Error fetching webhooks:', error);
+      return;
+    }
+    setWebhooks(data as DepartmentWebhook[]);
+  };
+
+  useEffect(() => {
+    fetchWebhooks();
+  }, []);
+
+  const handleAdd = async () => {
+    const url = newUrl.trim();
+    if (!newDepartment || !url) return;
+
+    if (!url.startsWith('https://')) {
+      toast({ title: "Webhook URL must start with https://", variant: "destructive" });
+      return;
+    }
+
+    const { error } = await supabase
+      .from('department_webhooks')
+      .insert({ department_id: newDepartment, platform: newPlatform, url });
+
+    if (error) {
+      toast({ title: "Failed to add webhook", variant: "destructive" });
+    } else {
+      toast({ title: "Webhook added" });
+      setNewUrl("");
+      fetchWebhooks();
+    }
+  };
+
+  const handleToggle = async (webhook: DepartmentWebhook, enabled: boolean) => {
+    setWebhooks(prev => prev.map(w => w.id === webhook.id ? { ...w, enabled } : w));
+
+    const { error } = await supabase
+      .from('department_webhooks')
+      .update({ enabled })
+      .eq('id', webhook.id);
+
+    if (error) {
+      toast({ title: "Failed to update webhook", variant: "destructive" });
+      setWebhooks(prev => prev.map(w => w.id === webhook.id ? { ...w, enabled: webhook.enabled } : w));
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.from('department_webhooks').delete().eq('id', id);
+
+    if (error) {
+      toast({ title: "Failed to remove webhook", variant: "destructive" });
+    } else {
+      toast({ title: "Webhook removed" });
+      setWebhooks(prev => prev.filter(w => w.id !== id));
+    }
+  };
+
+  const departmentName = (id: string) => departments.find(d => d.id === id)?.name || "Unknown";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Webhook className="w-5 h-5" />
+          Chat Integrations
+        </CardTitle>
+        <CardDescription>
+          Post new questions, official answers and status changes to Slack or Microsoft Teams channels
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex gap-3">
+          <Select value={newDepartment} onValueChange={setNewDepartment}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue placeholder="Department" />
+            </SelectTrigger>
+            <SelectContent>
+              {departments.map((d) => (
+                <SelectItem key={d.id} value={d.id}>{d.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={newPlatform} onValueChange={(value) => setNewPlatform(value as ChatPlatform)}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(PLATFORM_LABELS) as ChatPlatform[]).map((platform) => (
+                <SelectItem key={platform} value={platform}>{PLATFORM_LABELS[platform]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex-1">
+            <Label htmlFor="webhook-url" className="sr-only">Incoming webhook URL</Label>
+            <Input
+              id="webhook-url"
+              placeholder="Incoming webhook URL"
+              value={newUrl}
+              onChange={(e) => setNewUrl(e.target.value)}
+            />
+          </div>
+          <Button onClick={handleAdd} disabled={!newDepartment || !newUrl.trim()}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add
+          </Button>
+        </div>
+
+        {webhooks.length === 0 ? (
+          <p className="text-center py-4 text-muted-foreground">No chat integrations yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Department</TableHead>
+                <TableHead>Platform</TableHead>
+                <TableHead>Webhook</TableHead>
+                <TableHead>Enabled</TableHead>
+                <TableHead className="w-[100px]">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {webhooks.map((webhook) => (
+                <TableRow key={webhook.id}>
+                  <TableCell className="font-medium">{departmentName(webhook.department_id)}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{PLATFORM_LABELS[webhook.platform]}</Badge>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground font-mono text-xs">{maskUrl(webhook.url)}</TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={webhook.enabled}
+                      onCheckedChange={(enabled) => handleToggle(webhook, enabled)}
+                      aria-label="Enabled"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDelete(webhook.id)}
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
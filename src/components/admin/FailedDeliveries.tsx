@@ -0,0 +1,189 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { MailWarning, RefreshCw, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { formatDistanceToNow } from "date-fns";
+
+interface FailedDelivery {
+  id: string;
+  status: string;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: string;
+  updated_at: string;
+  question_id: string;
+  question: { title: string } | null;
+  recipient: { full_name: string | null; email: string } | null;
+  // Set instead of recipient for Slack and Teams posts
+  webhook: { platform: string; department: { name: string } | null } | null;
+}
+
+const CHANNEL_LABELS: Record<string, string> = {
+  slack: "Slack",
+  teams: "Microsoft Teams",
+};
+
+export function FailedDeliveries() {
+  const [deliveries, setDeliveries] = useState<FailedDelivery[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchDeliveries = async () => {
+    setIsLoading(true);
+
+    const { data, error } = await supabase
+      .from('notification_deliveries')
+      .select('id, status, attempts, last_error, next_attempt_at, updated_at, question_id, recipient_id, question:questions(title), webhook:department_webhooks(platform, department:departments(name))')
+      .in('status', ['failed', 'dead'])
+      .order('updated_at', { ascending: false })
+      .limit(100);
+
+    if (error) {
+      console.error('Error fetching deliveries:', error);
+      setIsLoading(false);
+      return;
+    }
+
+    const recipientIds = [...new Set(data.flatMap(d => d.recipient_id ? [d.recipient_id] : []))];
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('user_id, full_name, email')
+      .in('user_id', recipientIds);
+
+    const profilesMap = new Map(profiles?.map(p => [p.user_id, { full_name: p.full_name, email: p.email }]));
+
+    setDeliveries(data.map(d => ({
+      id: d.id,
+      status: d.status,
+      attempts: d.attempts,
+      last_error: d.last_error,
+      next_attempt_at: d.next_attempt_at,
+      updated_at: d.updated_at,
+      question_id: d.question_id,
+      question: d.question,
+      recipient: d.recipient_id ? profilesMap.get(d.recipient_id) || null : null,
+      webhook: d.webhook,
+    })));
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    fetchDeliveries();
+  }, []);
+
+  const handleResend = async (delivery: FailedDelivery) => {
+    setRetryingId(delivery.id);
+
+    const { error } = await supabase.rpc('retry_notification_delivery', { _delivery_id: delivery.id });
+
+    if (error) {
+      toast({ title: "Failed to queue resend", variant: "destructive" });
+    } else {
+      toast({ title: "Queued for resend", description: "It will be sent within a minute." });
+      setDeliveries(prev => prev.filter(d => d.id !== delivery.id));
+    }
+    setRetryingId(null);
+  };
+
+  return (
+    <Card className="border-border/50">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <MailWarning className="w-5 h-5" />
+            Failed Deliveries
+          </CardTitle>
+          <CardDescription>
+            Emails and chat posts still being retried, and those that gave up after repeated failures
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={fetchDeliveries} disabled={isLoading} className="gap-2">
+          <RefreshCw className="w-4 h-4" />
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map(i => (
+              <div key={i} className="h-12 bg-muted rounded animate-pulse" />
+            ))}
+          </div>
+        ) : deliveries.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">All notifications were delivered</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Question</TableHead>
+                <TableHead>Recipient</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Last error</TableHead>
+                <TableHead className="w-[100px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.map(delivery => (
+                <TableRow key={delivery.id}>
+                  <TableCell className="max-w-[220px]">
+                    <Link to={`/question/${delivery.question_id}`} className="font-medium hover:text-primary line-clamp-2">
+                      {delivery.question?.title || "Deleted question"}
+                    </Link>
+                  </TableCell>
+                  <TableCell>
+                    {delivery.webhook ? (
+                      <>
+                        <p className="text-sm">{CHANNEL_LABELS[delivery.webhook.platform] || delivery.webhook.platform}</p>
+                        <p className="text-xs text-muted-foreground">{delivery.webhook.department?.name || "Unknown"} channel</p>
+                      </>
+                    ) : (
+                      <>
+                        <p className="text-sm">{delivery.recipient?.full_name || "Unknown"}</p>
+                        <p className="text-xs text-muted-foreground">{delivery.recipient?.email}</p>
+                      </>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {delivery.status === 'dead' ? (
+                      <Badge variant="destructive">Gave up</Badge>
+                    ) : (
+                      <Badge variant="secondary">Retrying</Badge>
+                    )}
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {delivery.attempts} {delivery.attempts === 1 ? "attempt" : "attempts"}
+                      {delivery.status === 'failed' &&
+                        `, next ${formatDistanceToNow(new Date(delivery.next_attempt_at), { addSuffix: true })}`}
+                    </p>
+                  </TableCell>
+                  <TableCell className="max-w-[260px]">
+                    <p className="text-xs text-muted-foreground line-clamp-3 break-words">
+                      {delivery.last_error || "—"}
+                    </p>
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleResend(delivery)}
+                      disabled={retryingId === delivery.id}
+                      className="gap-1.5"
+                    >
+                      <RotateCcw className="w-3.5 h-3.5" />
+                      Resend
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,150 @@
+import { ReactNode, useEffect, useState } from "react";
+import { Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { StatusBadge } from "@/components/StatusBadge";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+interface Candidate {
+  id: string;
+  title: string;
+  status: string;
+  upvotes: number;
+}
+
+interface MarkDuplicateDialogProps {
+  questionId: string;
+  title: string;
+  onMarked?: () => void;
+  children: ReactNode;
+}
+
+export function MarkDuplicateDialog({ questionId, title, onMarked, children }: MarkDuplicateDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [target, setTarget] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) {
+      setSearch(title);
+      setTarget(null);
+    }
+  }, [open, title]);
+
+  useEffect(() => {
+    if (!open || !search.trim()) {
+      setCandidates([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    const fetchCandidates = async () => {
+      const { data, error } = await supabase.rpc('find_similar_questions', { _title: search.trim(), _limit: 10 });
+
+      // A slower response for an earlier search mustn't replace newer results
+      if (cancelled) return;
+
+      if (error) {
+        console.error('Error fetching similar questions:', error);
+        return;
+      }
+      setCandidates(data.filter(q => q.id !== questionId));
+    };
+
+    // Debounce so typing in the search box doesn't fire a query per keystroke
+    const timeout = setTimeout(fetchCandidates, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [open, search, questionId]);
+
+  const handleMark = async () => {
+    if (!target) return;
+    setIsSaving(true);
+
+    const { error } = await supabase.rpc('mark_question_duplicate', {
+      _question_id: questionId,
+      _duplicate_of_id: target,
+    });
+
+    if (error) {
+      toast({ title: "Failed to mark as duplicate", description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: "Marked as duplicate", description: "Its votes were added to the original question." });
+      setOpen(false);
+      onMarked?.();
+    }
+    setIsSaving(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Mark as duplicate</DialogTitle>
+          <DialogDescription>
+            Readers of “{title}” will be sent to the question you pick, and its votes move over to it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              placeholder="Search for the original question..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+
+          {candidates.length === 0 ? (
+            <p className="text-center py-4 text-sm text-muted-foreground">No similar questions found</p>
+          ) : (
+            <ul className="max-h-[300px] overflow-y-auto space-y-1">
+              {candidates.map(candidate => (
+                <li key={candidate.id}>
+                  <button
+                    type="button"
+                    onClick={() => setTarget(candidate.id)}
+                    className={cn(
+                      "w-full flex items-center justify-between gap-3 rounded-md px-3 py-2 text-left text-sm hover:bg-muted transition-colors",
+                      target === candidate.id && "bg-muted ring-1 ring-accent"
+                    )}
+                  >
+                    <span className="line-clamp-2">{candidate.title}</span>
+                    <StatusBadge status={candidate.status} className="shrink-0" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={handleMark} disabled={!target || isSaving}>
+            {isSaving ? "Saving..." : "Mark as duplicate"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
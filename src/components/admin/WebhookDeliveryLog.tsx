@@ -0,0 +1,195 @@
+import { Fragment, useState } from "react";
+import { History, RefreshCw, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+import { formatDistanceToNow } from "date-fns";
+
+interface WebhookDelivery {
+  id: string;
+  event: string;
+  status: string;
+  attempts: number;
+  payload: Json;
+  response_status: number | null;
+  response_body: string | null;
+  last_error: string | null;
+  next_attempt_at: string;
+  created_at: string;
+}
+
+const STATUS_BADGES: Record<string, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  pending: { label: "Pending", variant: "outline" },
+  sending: { label: "Sending", variant: "outline" },
+  sent: { label: "Delivered", variant: "default" },
+  failed: { label: "Retrying", variant: "secondary" },
+  dead: { label: "Gave up", variant: "destructive" },
+};
+
+interface WebhookDeliveryLogProps {
+  webhookId: string;
+  webhookName: string;
+}
+
+export function WebhookDeliveryLog({ webhookId, webhookName }: WebhookDeliveryLogProps) {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchDeliveries = async () => {
+    setIsLoading(true);
+
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .select('id, event, status, attempts, payload, response_status, response_body, last_error, next_attempt_at, created_at')
+      .eq('webhook_id', webhookId)
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (error) {
+      console.error('Error fetching webhook deliveries:', error);
+    } else {
+      setDeliveries(data);
+    }
+    setIsLoading(false);
+  };
+
+  const handleResend = async (delivery: WebhookDelivery) => {
+    const { error } = await supabase.rpc('retry_webhook_delivery', { _delivery_id: delivery.id });
+
+    if (error) {
+      toast({ title: "Failed to queue resend", variant: "destructive" });
+    } else {
+      toast({ title: "Queued for resend", description: "It will be sent within a minute." });
+      setDeliveries(prev => prev.map(d => d.id === delivery.id ? { ...d, status: 'pending', attempts: 0 } : d));
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={(open) => open && fetchDeliveries()}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" title="Delivery log">
+          <History className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Delivery log</DialogTitle>
+          <DialogDescription>The 50 most recent deliveries to {webhookName}</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-end">
+          <Button variant="outline" size="sm" onClick={fetchDeliveries} disabled={isLoading} className="gap-2">
+            <RefreshCw className="w-4 h-4" />
+            Refresh
+          </Button>
+        </div>
+
+        <ScrollArea className="max-h-[60vh]">
+          {isLoading && deliveries.length === 0 ? (
+            <div className="space-y-2">
+              {[1, 2, 3].map(i => (
+                <div key={i} className="h-10 bg-muted rounded animate-pulse" />
+              ))}
+            </div>
+          ) : deliveries.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">Nothing has been sent to this webhook yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Response</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead className="w-[60px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.map(delivery => {
+                  const badge = STATUS_BADGES[delivery.status] ?? STATUS_BADGES.pending;
+
+                  return (
+                    <Fragment key={delivery.id}>
+                      <TableRow
+                        className="cursor-pointer"
+                        onClick={() => setExpandedId(expandedId === delivery.id ? null : delivery.id)}
+                      >
+                        <TableCell className="font-mono text-xs">{delivery.event}</TableCell>
+                        <TableCell>
+                          <Badge variant={badge.variant}>{badge.label}</Badge>
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {delivery.attempts} {delivery.attempts === 1 ? "attempt" : "attempts"}
+                            {delivery.status === 'failed' &&
+                              `, next ${formatDistanceToNow(new Date(delivery.next_attempt_at), { addSuffix: true })}`}
+                          </p>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {delivery.response_status ?? "—"}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {formatDistanceToNow(new Date(delivery.created_at), { addSuffix: true })}
+                        </TableCell>
+                        <TableCell>
+                          {(delivery.status === 'failed' || delivery.status === 'dead') && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Resend"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleResend(delivery);
+                              }}
+                            >
+                              <RotateCcw className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                      {expandedId === delivery.id && (
+                        <TableRow className="hover:bg-transparent">
+                          <TableCell colSpan={5} className="space-y-3">
+                            {delivery.last_error && (
+                              <p className="text-sm text-destructive">{delivery.last_error}</p>
+                            )}
+                            <div>
+                              <p className="text-xs font-medium text-muted-foreground mb-1">Payload</p>
+                              <pre className="text-xs bg-muted rounded p-3 overflow-x-auto whitespace-pre-wrap break-all">
+                                {JSON.stringify(delivery.payload, null, 2)}
+                              </pre>
+                            </div>
+                            {delivery.response_body && (
+                              <div>
+                                <p className="text-xs font-medium text-muted-foreground mb-1">Response body</p>
+                                <pre className="text-xs bg-muted rounded p-3 overflow-x-auto whitespace-pre-wrap break-all">
+                                  {delivery.response_body}
+                                </pre>
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,256 @@
+import { useState, useEffect } from "react";
+import { Copy, Plus, Send, Trash2, Webhook } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { WebhookDeliveryLog } from "@/components/admin/WebhookDeliveryLog";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+const WEBHOOK_EVENTS = [
+  { value: 'question.created', label: "Question created" },
+  { value: 'answer.created', label: "Answer created" },
+  { value: 'question.status_changed', label: "Status changed" },
+  { value: 'question.deleted', label: "Question deleted" },
+];
+
+interface WebhookRow {
+  id: string;
+  name: string;
+  url: string;
+  events: string[];
+  secret: string;
+  enabled: boolean;
+}
+
+export function WebhookManagement() {
+  const [webhooks, setWebhooks] = useState<WebhookRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [newName, setNewName] = useState("");
+  const [newUrl, setNewUrl] = useState("");
+  const [newEvents, setNewEvents] = useState<string[]>(WEBHOOK_EVENTS.map(e => e.value));
+  const [testingId, setTestingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchWebhooks = async () => {
+    const { data, error } = await supabase
+      .from('webhooks')
+      .select('id, name, url, events, secret, enabled')
+      .order('created_at');
+
+    if (error) {
+      console.error('Error fetching webhooks:', error);
+    } else {
+      setWebhooks(data);
+    }
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    fetchWebhooks();
+  }, []);
+
+  const toggleNewEvent = (event: string, checked: boolean) => {
+    setNewEvents(prev => checked ? [...prev, event] : prev.filter(e => e !== event));
+  };
+
+  const handleAdd = async () => {
+    const url = newUrl.trim();
+    if (!newName.trim() || !url || newEvents.length === 0) return;
+
+    if (!url.startsWith('https://')) {
+      toast({ title: "Webhook URL must start with https://", variant: "destructive" });
+      return;
+    }
+
+    const { error } = await supabase
+      .from('webhooks')
+      .insert({ name: newName.trim(), url, events: newEvents });
+
+    if (error) {
+      toast({ title: "Failed to add webhook", variant: "destructive" });
+    } else {
+      toast({ title: "Webhook added" });
+      setNewName("");
+      setNewUrl("");
+      setNewEvents(WEBHOOK_EVENTS.map(e => e.value));
+      fetchWebhooks();
+    }
+  };
+
+  const handleToggle = async (webhook: WebhookRow, enabled: boolean) => {
+    setWebhooks(prev => prev.map(w => w.id === webhook.id ? { ...w, enabled } : w));
+
+    const { error } = await supabase.from('webhooks').update({ enabled }).eq('id', webhook.id);
+
+    if (error) {
+      toast({ title: "Failed to update webhook", variant: "destructive" });
+      setWebhooks(prev => prev.map(w => w.id === webhook.id ? { ...w, enabled: webhook.enabled } : w));
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.from('webhooks').delete().eq('id', id);
+
+    if (error) {
+      toast({ title: "Failed to remove webhook", variant: "destructive" });
+    } else {
+      toast({ title: "Webhook removed" });
+      setWebhooks(prev => prev.filter(w => w.id !== id));
+    }
+  };
+
+  const handleTest = async (webhook: WebhookRow) => {
+    setTestingId(webhook.id);
+
+    const { error } = await supabase.rpc('send_test_webhook', { _webhook_id: webhook.id });
+
+    if (error) {
+      toast({ title: "Failed to send test delivery", variant: "destructive" });
+    } else {
+      toast({ title: "Test delivery queued", description: "It will be sent within a minute. Check the delivery log for the result." });
+    }
+    setTestingId(null);
+  };
+
+  const handleCopySecret = async (secret: string) => {
+    await navigator.clipboard.writeText(secret);
+    toast({ title: "Signing secret copied" });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Webhook className="w-5 h-5" />
+          Webhooks
+        </CardTitle>
+        <CardDescription>
+          Send signed question and answer events to other systems. Each request carries an
+          X-Webhook-Signature header: the HMAC-SHA256 of "timestamp.body" using the webhook's signing secret.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <div className="flex gap-3">
+            <div className="w-[220px]">
+              <Label htmlFor="webhook-name" className="sr-only">Name</Label>
+              <Input
+                id="webhook-name"
+                placeholder="Name, e.g. HRIS"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+              />
+            </div>
+            <div className="flex-1">
+              <Label htmlFor="webhook-endpoint" className="sr-only">Endpoint URL</Label>
+              <Input
+                id="webhook-endpoint"
+                placeholder="https://example.com/webhooks/qa"
+                value={newUrl}
+                onChange={(e) => setNewUrl(e.target.value)}
+              />
+            </div>
+            <Button onClick={handleAdd} disabled={!newName.trim() || !newUrl.trim() || newEvents.length === 0}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-4">
+            {WEBHOOK_EVENTS.map(event => (
+              <div key={event.value} className="flex items-center gap-2">
+                <Checkbox
+                  id={`webhook-event-${event.value}`}
+                  checked={newEvents.includes(event.value)}
+                  onCheckedChange={(checked) => toggleNewEvent(event.value, checked === true)}
+                />
+                <Label htmlFor={`webhook-event-${event.value}`} className="font-normal">{event.label}</Label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2].map(i => (
+              <div key={i} className="h-12 bg-muted rounded animate-pulse" />
+            ))}
+          </div>
+        ) : webhooks.length === 0 ? (
+          <p className="text-center py-4 text-muted-foreground">No webhooks yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Webhook</TableHead>
+                <TableHead>Events</TableHead>
+                <TableHead>Enabled</TableHead>
+                <TableHead className="w-[180px]">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {webhooks.map(webhook => (
+                <TableRow key={webhook.id}>
+                  <TableCell className="max-w-[280px]">
+                    <p className="font-medium">{webhook.name}</p>
+                    <p className="text-xs text-muted-foreground font-mono truncate">{webhook.url}</p>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {webhook.events.map(event => (
+                        <Badge key={event} variant="outline" className="font-mono text-xs">{event}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={webhook.enabled}
+                      onCheckedChange={(enabled) => handleToggle(webhook, enabled)}
+                      aria-label="Enabled"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Send test delivery"
+                        onClick={() => handleTest(webhook)}
+                        disabled={testingId === webhook.id}
+                      >
+                        <Send className="w-4 h-4" />
+                      </Button>
+                      <WebhookDeliveryLog webhookId={webhook.id} webhookName={webhook.name} />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Copy signing secret"
+                        onClick={() => handleCopySecret(webhook.secret)}
+                      >
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Remove"
+                        onClick={() => handleDelete(webhook.id)}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
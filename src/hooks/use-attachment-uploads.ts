@@ -0,0 +1,90 @@
+import { useState } from "react";
+import {
+  ATTACHMENT_MAX_FILES,
+  AttachmentParent,
+  uploadAttachment,
+  validateAttachment,
+} from "@/lib/attachments";
+
+export interface PendingAttachment {
+  id: string;
+  file: File;
+  // null until the upload starts
+  progress: number | null;
+  error?: string;
+}
+
+/**
+ * Holds files picked in a composer until the post they belong to exists,
+ * then uploads them one by one while tracking progress.
+ */
+export function useAttachmentUploads() {
+  const [pending, setPending] = useState<PendingAttachment[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+
+  // Returns validation errors for files that were rejected
+  const addFiles = (files: File[]) => {
+    const errors: string[] = [];
+    const accepted: PendingAttachment[] = [];
+
+    for (const file of files) {
+      const error = validateAttachment(file);
+      if (error) {
+        errors.push(error);
+      } else if (pending.length + accepted.length >= ATTACHMENT_MAX_FILES) {
+        errors.push(`You can attach up to ${ATTACHMENT_MAX_FILES} files`);
+        break;
+      } else {
+        accepted.push({ id: crypto.randomUUID(), file, progress: null });
+      }
+    }
+
+    setPending(prev => [...prev, ...accepted]);
+    return errors;
+  };
+
+  const removeFile = (id: string) => {
+    setPending(prev => prev.filter(p => p.id !== id));
+  };
+
+  const updateFile = (id: string, changes: Partial<PendingAttachment>) => {
+    setPending(prev => prev.map(p => p.id === id ? { ...p, ...changes } : p));
+  };
+
+  // Resolves with the number of files that failed to upload
+  const uploadAll = async (
+    parentType: AttachmentParent,
+    parentId: string,
+    uploaderId: string | null,
+    ownerToken?: string | null
+  ) => {
+    setIsUploading(true);
+    let failed = 0;
+
+    for (const item of pending) {
+      updateFile(item.id, { progress: 0, error: undefined });
+      try {
+        await uploadAttachment({
+          file: item.file,
+          parentType,
+          parentId,
+          uploaderId,
+          ownerToken,
+          onProgress: (progress) => updateFile(item.id, { progress }),
+        });
+        updateFile(item.id, { progress: 100 });
+      } catch (error) {
+        console.error('Error uploading attachment:', error);
+        updateFile(item.id, { error: error instanceof Error ? error.message : 'Upload failed' });
+        failed++;
+      }
+    }
+
+    setIsUploading(false);
+    return failed;
+  };
+
+  const reset = () => setPending([]);
+
+  return { pending, isUploading, addFiles, removeFile, uploadAll, reset };
+}
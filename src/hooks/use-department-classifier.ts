@@ -0,0 +1,54 @@
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { buildClassifier, TrainingQuestion } from "@/lib/department-classifier";
+
+// Recent questions are enough to learn from, and keep the download small
+const TRAINING_LIMIT = 500;
+
+/**
+ * A department classifier trained on recent questions that have a department,
+ * plus the admins' keyword rules.
+ */
+export function useDepartmentClassifier() {
+  const [questions, setQuestions] = useState<TrainingQuestion[]>([]);
+  const [keywords, setKeywords] = useState<Tables<'department_keywords'>[]>([]);
+
+  const fetchQuestions = async () => {
+    const { data, error } = await supabase
+      .from('questions')
+      .select('department_id, title')
+      .not('department_id', 'is', null)
+      .neq('status', 'duplicate')
+      .order('created_at', { ascending: false })
+      .limit(TRAINING_LIMIT);
+
+    if (error) {
+      console.error('Error fetching questions:', error);
+      return;
+    }
+    setQuestions(data.flatMap(q => q.department_id ? [{ department_id: q.department_id, title: q.title }] : []));
+  };
+
+  const fetchKeywords = async () => {
+    const { data, error } = await supabase
+      .from('department_keywords')
+      .select('*')
+      .order('keyword');
+
+    if (error) {
+      console.error('Error fetching department keywords:', error);
+      return;
+    }
+    setKeywords(data);
+  };
+
+  useEffect(() => {
+    fetchQuestions();
+    fetchKeywords();
+  }, []);
+
+  const classifier = useMemo(() => buildClassifier(questions, keywords), [questions, keywords]);
+
+  return { classifier, keywords, refreshKeywords: fetchKeywords };
+}
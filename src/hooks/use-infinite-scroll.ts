@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useRef } from "react";
+
+interface InfiniteScrollOptions {
+  hasMore: boolean;
+  isLoading: boolean;
+  onLoadMore: () => void;
+  rootMargin?: string;
+}
+
+/**
+ * Returns a ref for a sentinel element placed after a list. When the sentinel
+ * scrolls into view and more items are available, `onLoadMore` is called.
+ */
+export function useInfiniteScroll({ hasMore, isLoading, onLoadMore, rootMargin = "400px" }: InfiniteScrollOptions) {
+  const observerRef = useRef<IntersectionObserver | null>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+
+  useEffect(() => {
+    onLoadMoreRef.current = onLoadMore;
+  }, [onLoadMore]);
+
+  const sentinelRef = useCallback(
+    (node: Element | null) => {
+      observerRef.current?.disconnect();
+      observerRef.current = null;
+
+      if (!node || !hasMore || isLoading) return;
+
+      observerRef.current = new IntersectionObserver(
+        (entries) => {
+          if (entries.some(entry => entry.isIntersecting)) {
+            onLoadMoreRef.current();
+          }
+        },
+        { rootMargin }
+      );
+      observerRef.current.observe(node);
+    },
+    [hasMore, isLoading, rootMargin]
+  );
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  return sentinelRef;
+}
@@ -0,0 +1,138 @@
+import { useEffect, useId, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { getOwnedQuestions } from "@/lib/ownership";
+import { AppNotification, NotificationType } from "@/lib/notifications";
+
+// Anonymous notifications have no recipient, so realtime can't deliver them; poll instead
+const ANONYMOUS_POLL_MS = 60 * 1000;
+
+const ownedTokens = async (userId: string) =>
+  (await getOwnedQuestions(userId)).map(o => o.token).slice(0, 100);
+
+/**
+ * The signed-in user's notifications, merging those addressed to them with
+ * those for anonymous questions they own on this device.
+ */
+export function useNotifications(limit = 50) {
+  const { user } = useAuth();
+  const channelId = useId();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchNotifications = async () => {
+    if (!user) return;
+
+    const [named, tokens] = await Promise.all([
+      supabase
+        .from('notifications')
+        .select('id, type, question_id, data, read_at, created_at, question:questions(title)')
+        .eq('recipient_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(limit),
+      ownedTokens(user.id).catch(() => [] as string[]),
+    ]);
+
+    if (named.error) {
+      console.error('Error fetching notifications:', named.error);
+    }
+
+    let anonymous: AppNotification[] = [];
+    if (tokens.length > 0) {
+      const { data, error } = await supabase.rpc('get_anonymous_notifications', { _tokens: tokens, _limit: limit });
+      if (error) {
+        console.error('Error fetching anonymous notifications:', error);
+      } else {
+        anonymous = data.map(n => ({
+          id: n.id,
+          type: n.type as NotificationType,
+          question_id: n.question_id,
+          question_title: n.question_title,
+          data: n.data,
+          read_at: n.read_at,
+          created_at: n.created_at,
+          anonymous: true,
+        }));
+      }
+    }
+
+    const addressed: AppNotification[] = (named.data || []).map(n => ({
+      id: n.id,
+      type: n.type as NotificationType,
+      question_id: n.question_id,
+      question_title: n.question?.title || "a question",
+      data: n.data,
+      read_at: n.read_at,
+      created_at: n.created_at,
+      anonymous: false,
+    }));
+
+    setNotifications(
+      [...addressed, ...anonymous]
+        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+        .slice(0, limit)
+    );
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetchNotifications();
+
+    const channel = supabase
+      .channel(`notifications-${channelId}`)
+      .on<Tables<'notifications'>>(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'notifications', filter: `recipient_id=eq.${user.id}` },
+        () => fetchNotifications()
+      )
+      .subscribe();
+
+    const interval = setInterval(fetchNotifications, ANONYMOUS_POLL_MS);
+
+    return () => {
+      supabase.removeChannel(channel);
+      clearInterval(interval);
+    };
+  }, [user?.id]);
+
+  const markRead = async (ids?: string[]) => {
+    if (!user) return;
+
+    const targets = notifications.filter(n => !n.read_at && (!ids || ids.includes(n.id)));
+    if (targets.length === 0) return;
+
+    const readAt = new Date().toISOString();
+    setNotifications(prev => prev.map(n => targets.some(t => t.id === n.id) ? { ...n, read_at: readAt } : n));
+
+    const addressedIds = targets.filter(n => !n.anonymous).map(n => n.id);
+    const anonymousIds = targets.filter(n => n.anonymous).map(n => n.id);
+
+    if (addressedIds.length > 0) {
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: readAt })
+        .in('id', addressedIds);
+      if (error) console.error('Error marking notifications read:', error);
+    }
+
+    if (anonymousIds.length > 0) {
+      const { error } = await supabase.rpc('mark_anonymous_notifications_read', {
+        _tokens: await ownedTokens(user.id),
+        _notification_ids: anonymousIds,
+      });
+      if (error) console.error('Error marking anonymous notifications read:', error);
+    }
+  };
+
+  return {
+    notifications,
+    unreadCount: notifications.filter(n => !n.read_at).length,
+    isLoading,
+    markRead,
+    markAllRead: () => markRead(),
+    refresh: fetchNotifications,
+  };
+}
@@ -17,6 +17,9 @@ interface AuthContextType {
   profile: Profile | null;
   isAdmin: boolean;
   isResponder: boolean;
+  // Departments the user administers
+  adminDepartmentIds: string[];
+  isDepartmentAdmin: boolean;
   isLoading: boolean;
   refreshProfile: () => Promise<void>;
 }
@@ -29,6 +32,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [profile, setProfile] = useState<Profile | null>(null);
   const [isAdmin, setIsAdmin] = useState(false);
   const [isResponder, setIsResponder] = useState(false);
+  const [adminDepartmentIds, setAdminDepartmentIds] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
   const fetchProfile = async (userId: string) => {
@@ -52,6 +56,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       setIsAdmin(roles.includes('admin'));
       setIsResponder(roles.includes('responder') || roles.includes('admin'));
     }
+
+    const { data: membershipsData } = await supabase
+      .from('department_admins')
+      .select('department_id')
+      .eq('user_id', userId);
+
+    setAdminDepartmentIds(membershipsData?.map(m => m.department_id) ?? []);
   };
 
   const refreshProfile = async () => {
@@ -76,6 +87,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           setProfile(null);
           setIsAdmin(false);
           setIsResponder(false);
+          setAdminDepartmentIds([]);
         }
         setIsLoading(false);
       }
@@ -95,7 +107,17 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }, []);
 
   return (
-    <AuthContext.Provider value={{ user, session, profile, isAdmin, isResponder, isLoading, refreshProfile }}>
+    <AuthContext.Provider value={{
+      user,
+      session,
+      profile,
+      isAdmin,
+      isResponder,
+      adminDepartmentIds,
+      isDepartmentAdmin: adminDepartmentIds.length > 0,
+      isLoading,
+      refreshProfile,
+    }}>
       {children}
     </AuthContext.Provider>
   );
@@ -14,33 +14,80 @@ export type Database = {
   }
   public: {
     Tables: {
+      answer_votes: {
+        Row: {
+          answer_id: string
+          created_at: string
+          id: string
+          user_id: string
+          vote_type: string
+        }
+        Insert: {
+          answer_id: string
+          created_at?: string
+          id?: string
+          user_id: string
+          vote_type: string
+        }
+        Update: {
+          answer_id?: string
+          created_at?: string
+          id?: string
+          user_id?: string
+          vote_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "answer_votes_answer_id_fkey"
+            columns: ["answer_id"]
+            isOneToOne: false
+            referencedRelation: "answers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       answers: {
         Row: {
           author_id: string
           content: string
           created_at: string
+          downvotes: number
+          edited_at: string | null
           id: string
+          is_accepted: boolean
           is_official: boolean
           question_id: string
+          search_vector: unknown
           updated_at: string
+          upvotes: number
         }
         Insert: {
           author_id: string
           content: string
           created_at?: string
+          downvotes?: number
+          edited_at?: string | null
           id?: string
+          is_accepted?: boolean
           is_official?: boolean
           question_id: string
+          search_vector?: never
           updated_at?: string
+          upvotes?: number
         }
         Update: {
           author_id?: string
           content?: string
           created_at?: string
+          downvotes?: number
+          edited_at?: string | null
           id?: string
+          is_accepted?: boolean
           is_official?: boolean
           question_id?: string
+          search_vector?: never
           updated_at?: string
+          upvotes?: number
         }
         Relationships: [
           {
@@ -52,30 +99,126 @@ export type Database = {
           },
         ]
       }
+      attachments: {
+        Row: {
+          answer_id: string | null
+          comment_id: string | null
+          created_at: string
+          file_name: string
+          id: string
+          mime_type: string
+          question_id: string | null
+          size_bytes: number
+          storage_path: string
+          uploaded_by: string | null
+        }
+        Insert: {
+          answer_id?: string | null
+          comment_id?: string | null
+          created_at?: string
+          file_name: string
+          id?: string
+          mime_type: string
+          question_id?: string | null
+          size_bytes: number
+          storage_path: string
+          uploaded_by?: string | null
+        }
+        Update: {
+          answer_id?: string | null
+          comment_id?: string | null
+          created_at?: string
+          file_name?: string
+          id?: string
+          mime_type?: string
+          question_id?: string | null
+          size_bytes?: number
+          storage_path?: string
+          uploaded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "attachments_answer_id_fkey"
+            columns: ["answer_id"]
+            isOneToOne: false
+            referencedRelation: "answers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attachments_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attachments_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      comment_owners: {
+        Row: {
+          comment_id: string
+          user_id: string
+        }
+        Insert: {
+          comment_id: string
+          user_id: string
+        }
+        Update: {
+          comment_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comment_owners_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: true
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       comments: {
         Row: {
-          answer_id: string
+          answer_id: string | null
           author_id: string | null
           content: string
           created_at: string
+          edited_at: string | null
           id: string
           is_anonymous: boolean
+          parent_id: string | null
+          question_id: string | null
+          search_vector: unknown
         }
         Insert: {
-          answer_id: string
+          answer_id?: string | null
           author_id?: string | null
           content: string
           created_at?: string
+          edited_at?: string | null
           id?: string
           is_anonymous?: boolean
+          parent_id?: string | null
+          question_id?: string | null
+          search_vector?: never
         }
         Update: {
-          answer_id?: string
+          answer_id?: string | null
           author_id?: string | null
           content?: string
           created_at?: string
+          edited_at?: string | null
           id?: string
           is_anonymous?: boolean
+          parent_id?: string | null
+          question_id?: string | null
+          search_vector?: never
         }
         Relationships: [
           {
@@ -85,25 +228,72 @@ export type Database = {
             referencedRelation: "answers"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      content_revisions: {
+        Row: {
+          created_at: string
+          editor_id: string | null
+          entity_id: string
+          entity_type: string
+          id: string
+          previous_content: string
+          previous_title: string | null
+        }
+        Insert: {
+          created_at?: string
+          editor_id?: string | null
+          entity_id: string
+          entity_type: string
+          id?: string
+          previous_content: string
+          previous_title?: string | null
+        }
+        Update: {
+          created_at?: string
+          editor_id?: string | null
+          entity_id?: string
+          entity_type?: string
+          id?: string
+          previous_content?: string
+          previous_title?: string | null
+        }
+        Relationships: []
+      }
       department_admins: {
         Row: {
           created_at: string
           department_id: string
           id: string
+          last_assigned_at: string | null
           user_id: string
         }
         Insert: {
           created_at?: string
           department_id: string
           id?: string
+          last_assigned_at?: string | null
           user_id: string
         }
         Update: {
           created_at?: string
           department_id?: string
           id?: string
+          last_assigned_at?: string | null
           user_id?: string
         }
         Relationships: [
@@ -116,27 +306,322 @@ export type Database = {
           },
         ]
       }
+      department_keywords: {
+        Row: {
+          created_at: string
+          department_id: string
+          id: string
+          keyword: string
+          weight: number
+        }
+        Insert: {
+          created_at?: string
+          department_id: string
+          id?: string
+          keyword: string
+          weight?: number
+        }
+        Update: {
+          created_at?: string
+          department_id?: string
+          id?: string
+          keyword?: string
+          weight?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "department_keywords_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      department_webhooks: {
+        Row: {
+          created_at: string
+          department_id: string
+          enabled: boolean
+          id: string
+          platform: string
+          updated_at: string
+          url: string
+        }
+        Insert: {
+          created_at?: string
+          department_id: string
+          enabled?: boolean
+          id?: string
+          platform: string
+          updated_at?: string
+          url: string
+        }
+        Update: {
+          created_at?: string
+          department_id?: string
+          enabled?: boolean
+          id?: string
+          platform?: string
+          updated_at?: string
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "department_webhooks_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       departments: {
         Row: {
+          assignment_mode: string
           created_at: string
           description: string | null
           id: string
           name: string
+          sla_business_days: number | null
         }
         Insert: {
+          assignment_mode?: string
           created_at?: string
           description?: string | null
           id?: string
           name: string
+          sla_business_days?: number | null
         }
         Update: {
+          assignment_mode?: string
           created_at?: string
           description?: string | null
           id?: string
           name?: string
+          sla_business_days?: number | null
+        }
+        Relationships: []
+      }
+      notification_deliveries: {
+        Row: {
+          attempts: number
+          channel: string
+          created_at: string
+          id: string
+          last_error: string | null
+          next_attempt_at: string
+          notification_id: string | null
+          outbox_id: string
+          question_id: string
+          recipient_id: string | null
+          sent_at: string | null
+          status: string
+          updated_at: string
+          webhook_id: string | null
+        }
+        Insert: {
+          attempts?: number
+          channel?: string
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          next_attempt_at?: string
+          notification_id?: string | null
+          outbox_id: string
+          question_id: string
+          recipient_id?: string | null
+          sent_at?: string | null
+          status?: string
+          updated_at?: string
+          webhook_id?: string | null
+        }
+        Update: {
+          attempts?: number
+          channel?: string
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          next_attempt_at?: string
+          notification_id?: string | null
+          outbox_id?: string
+          question_id?: string
+          recipient_id?: string | null
+          sent_at?: string | null
+          status?: string
+          updated_at?: string
+          webhook_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_deliveries_notification_id_fkey"
+            columns: ["notification_id"]
+            isOneToOne: false
+            referencedRelation: "notifications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_deliveries_outbox_id_fkey"
+            columns: ["outbox_id"]
+            isOneToOne: false
+            referencedRelation: "notification_outbox"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_deliveries_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_deliveries_webhook_id_fkey"
+            columns: ["webhook_id"]
+            isOneToOne: false
+            referencedRelation: "department_webhooks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_outbox: {
+        Row: {
+          answer_id: string | null
+          created_at: string
+          data: Json
+          event_type: string
+          id: string
+          processed_at: string | null
+          question_id: string
+        }
+        Insert: {
+          answer_id?: string | null
+          created_at?: string
+          data?: Json
+          event_type: string
+          id?: string
+          processed_at?: string | null
+          question_id: string
+        }
+        Update: {
+          answer_id?: string | null
+          created_at?: string
+          data?: Json
+          event_type?: string
+          id?: string
+          processed_at?: string | null
+          question_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_outbox_answer_id_fkey"
+            columns: ["answer_id"]
+            isOneToOne: false
+            referencedRelation: "answers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_outbox_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          channel: string
+          enabled: boolean
+          event_type: string
+          frequency: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          channel: string
+          enabled?: boolean
+          event_type: string
+          frequency?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          channel?: string
+          enabled?: boolean
+          event_type?: string
+          frequency?: string
+          updated_at?: string
+          user_id?: string
         }
         Relationships: []
       }
+      notifications: {
+        Row: {
+          answer_id: string | null
+          comment_id: string | null
+          created_at: string
+          data: Json
+          email_frequency: string | null
+          emailed_at: string | null
+          id: string
+          in_app: boolean
+          question_id: string
+          read_at: string | null
+          recipient_id: string | null
+          type: string
+        }
+        Insert: {
+          answer_id?: string | null
+          comment_id?: string | null
+          created_at?: string
+          data?: Json
+          email_frequency?: string | null
+          emailed_at?: string | null
+          id?: string
+          in_app?: boolean
+          question_id: string
+          read_at?: string | null
+          recipient_id?: string | null
+          type: string
+        }
+        Update: {
+          answer_id?: string | null
+          comment_id?: string | null
+          created_at?: string
+          data?: Json
+          email_frequency?: string | null
+          emailed_at?: string | null
+          id?: string
+          in_app?: boolean
+          question_id?: string
+          read_at?: string | null
+          recipient_id?: string | null
+          type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_answer_id_fkey"
+            columns: ["answer_id"]
+            isOneToOne: false
+            referencedRelation: "answers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -178,41 +663,181 @@ export type Database = {
           },
         ]
       }
+      question_department_moves: {
+        Row: {
+          created_at: string
+          from_department_id: string | null
+          id: string
+          moved_by: string | null
+          question_id: string
+          reason: string | null
+          to_department_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          from_department_id?: string | null
+          id?: string
+          moved_by?: string | null
+          question_id: string
+          reason?: string | null
+          to_department_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          from_department_id?: string | null
+          id?: string
+          moved_by?: string | null
+          question_id?: string
+          reason?: string | null
+          to_department_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_department_moves_from_department_id_fkey"
+            columns: ["from_department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "question_department_moves_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "question_department_moves_to_department_id_fkey"
+            columns: ["to_department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      question_owner_tokens: {
+        Row: {
+          question_id: string | null
+          token_hash: string
+        }
+        Insert: {
+          question_id?: string | null
+          token_hash: string
+        }
+        Update: {
+          question_id?: string | null
+          token_hash?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_owner_tokens_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: true
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      question_status_history: {
+        Row: {
+          by_asker: boolean
+          changed_by: string | null
+          created_at: string
+          from_status: string | null
+          id: string
+          question_id: string
+          to_status: string
+        }
+        Insert: {
+          by_asker?: boolean
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          question_id: string
+          to_status: string
+        }
+        Update: {
+          by_asker?: boolean
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          question_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_status_history_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       questions: {
         Row: {
+          assigned_at: string | null
+          assignee_id: string | null
           author_id: string | null
           content: string
           created_at: string
           department_id: string | null
           downvotes: number
+          duplicate_of_id: string | null
+          edited_at: string | null
+          first_answered_at: string | null
           id: string
           is_anonymous: boolean
+          search_vector: unknown
+          sla_due_at: string | null
+          sla_paused_at: string | null
+          sla_paused_for: unknown
           status: string | null
           title: string
           updated_at: string
           upvotes: number
         }
         Insert: {
+          assigned_at?: string | null
+          assignee_id?: string | null
           author_id?: string | null
           content: string
           created_at?: string
           department_id?: string | null
           downvotes?: number
+          duplicate_of_id?: string | null
+          edited_at?: string | null
+          first_answered_at?: string | null
           id?: string
           is_anonymous?: boolean
+          search_vector?: never
+          sla_due_at?: string | null
+          sla_paused_at?: string | null
+          sla_paused_for?: unknown
           status?: string | null
           title: string
           updated_at?: string
           upvotes?: number
         }
         Update: {
+          assigned_at?: string | null
+          assignee_id?: string | null
           author_id?: string | null
           content?: string
           created_at?: string
           department_id?: string | null
           downvotes?: number
+          duplicate_of_id?: string | null
+          edited_at?: string | null
+          first_answered_at?: string | null
           id?: string
           is_anonymous?: boolean
+          search_vector?: never
+          sla_due_at?: string | null
+          sla_paused_at?: string | null
+          sla_paused_for?: unknown
           status?: string | null
           title?: string
           updated_at?: string
@@ -226,6 +851,81 @@ export type Database = {
             referencedRelation: "departments"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "questions_duplicate_of_id_fkey"
+            columns: ["duplicate_of_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sla_escalations: {
+        Row: {
+          created_at: string
+          id: string
+          level: number
+          question_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          level: number
+          question_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          level?: number
+          question_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sla_escalations_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      subscriptions: {
+        Row: {
+          created_at: string
+          department_id: string | null
+          id: string
+          question_id: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          department_id?: string | null
+          id?: string
+          question_id?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          department_id?: string | null
+          id?: string
+          question_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subscriptions_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subscriptions_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       user_roles: {
@@ -278,6 +978,95 @@ export type Database = {
           },
         ]
       }
+      webhook_deliveries: {
+        Row: {
+          attempts: number
+          created_at: string
+          event: string
+          id: string
+          last_error: string | null
+          next_attempt_at: string
+          payload: Json
+          response_body: string | null
+          response_status: number | null
+          sent_at: string | null
+          status: string
+          updated_at: string
+          webhook_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          event: string
+          id?: string
+          last_error?: string | null
+          next_attempt_at?: string
+          payload: Json
+          response_body?: string | null
+          response_status?: number | null
+          sent_at?: string | null
+          status?: string
+          updated_at?: string
+          webhook_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          event?: string
+          id?: string
+          last_error?: string | null
+          next_attempt_at?: string
+          payload?: Json
+          response_body?: string | null
+          response_status?: number | null
+          sent_at?: string | null
+          status?: string
+          updated_at?: string
+          webhook_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_webhook_id_fkey"
+            columns: ["webhook_id"]
+            isOneToOne: false
+            referencedRelation: "webhooks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhooks: {
+        Row: {
+          created_at: string
+          enabled: boolean
+          events: string[]
+          id: string
+          name: string
+          secret: string
+          updated_at: string
+          url: string
+        }
+        Insert: {
+          created_at?: string
+          enabled?: boolean
+          events: string[]
+          id?: string
+          name: string
+          secret?: string
+          updated_at?: string
+          url: string
+        }
+        Update: {
+          created_at?: string
+          enabled?: boolean
+          events?: string[]
+          id?: string
+          name?: string
+          secret?: string
+          updated_at?: string
+          url?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       profiles_public: {
@@ -317,6 +1106,127 @@ export type Database = {
       }
     }
     Functions: {
+      accept_answer: {
+        Args: { _accepted?: boolean; _answer_id: string }
+        Returns: undefined
+      }
+      analytics_backlog_by_age: {
+        Args: never
+        Returns: {
+          bucket: string
+          questions: number
+        }[]
+      }
+      analytics_summary: {
+        Args: { _weeks?: number }
+        Returns: {
+          anonymous: number
+          answered: number
+          median_first_answer_hours: number
+          questions: number
+        }[]
+      }
+      analytics_top_unanswered: {
+        Args: { _limit?: number }
+        Returns: {
+          created_at: string
+          department: string
+          id: string
+          title: string
+          upvotes: number
+        }[]
+      }
+      analytics_weekly_questions: {
+        Args: { _weeks?: number }
+        Returns: {
+          department: string
+          questions: number
+          week_start: string
+        }[]
+      }
+      assign_question: {
+        Args: { _assignee_id?: string; _question_id: string }
+        Returns: undefined
+      }
+      can_attach_to: {
+        Args: { _parent_id: string; _parent_type: string }
+        Returns: boolean
+      }
+      find_owned_questions: {
+        Args: { _tokens: string[] }
+        Returns: {
+          question_id: string | null
+          token: string
+        }[]
+      }
+      find_similar_questions: {
+        Args: { _content?: string; _limit?: number; _title: string }
+        Returns: {
+          created_at: string
+          id: string
+          is_answered: boolean
+          score: number
+          status: string
+          title: string
+          upvotes: number
+        }[]
+      }
+      get_anonymous_notifications: {
+        Args: { _limit?: number; _tokens: string[] }
+        Returns: {
+          answer_id: string
+          comment_id: string
+          created_at: string
+          data: Json
+          id: string
+          question_id: string
+          question_title: string
+          read_at: string
+          type: string
+        }[]
+      }
+      get_assignable_responders: {
+        Args: { _department_id?: string }
+        Returns: {
+          email: string
+          full_name: string
+          in_department: boolean
+          user_id: string
+        }[]
+      }
+      get_content_revisions: {
+        Args: { _entity_id: string; _entity_type: string }
+        Returns: {
+          created_at: string
+          editor_name: string
+          id: string
+          previous_content: string
+          previous_title: string
+        }[]
+      }
+      get_my_comments: {
+        Args: never
+        Returns: {
+          content: string
+          created_at: string
+          id: string
+          is_anonymous: boolean
+          question_id: string
+        }[]
+      }
+      get_my_notification_preferences: {
+        Args: never
+        Returns: {
+          channel: string
+          enabled: boolean
+          event_type: string
+          frequency: string
+        }[]
+      }
+      get_own_comment_ids: {
+        Args: { _question_id: string }
+        Returns: string[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -325,6 +1235,74 @@ export type Database = {
         Returns: boolean
       }
       is_admin_or_responder: { Args: { _user_id: string }; Returns: boolean }
+      is_comment_owner: { Args: { _comment_id: string }; Returns: boolean }
+      is_department_admin: {
+        Args: { _department_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_question_owner: { Args: { _question_id: string }; Returns: boolean }
+      mark_anonymous_notifications_read: {
+        Args: { _notification_ids?: string[]; _tokens: string[] }
+        Returns: undefined
+      }
+      mark_question_duplicate: {
+        Args: { _duplicate_of_id: string; _question_id: string }
+        Returns: undefined
+      }
+      move_question: {
+        Args: { _department_id: string; _question_id: string; _reason?: string }
+        Returns: undefined
+      }
+      request_owner_token_hash: { Args: never; Returns: string }
+      retry_notification_delivery: {
+        Args: { _delivery_id: string }
+        Returns: undefined
+      }
+      retry_webhook_delivery: {
+        Args: { _delivery_id: string }
+        Returns: undefined
+      }
+      search_questions: {
+        Args: {
+          _department_id?: string
+          _limit?: number
+          _offset?: number
+          _query: string
+          _status?: string
+        }
+        Returns: {
+          answers_count: number
+          created_at: string
+          department_id: string
+          department_name: string
+          downvotes: number
+          id: string
+          is_anonymous: boolean
+          matched_in: string
+          rank: number
+          snippet: string
+          status: string
+          title: string
+          title_highlight: string
+          upvotes: number
+        }[]
+      }
+      send_test_webhook: {
+        Args: { _webhook_id: string }
+        Returns: string
+      }
+      set_question_closed: {
+        Args: { _closed?: boolean; _question_id: string }
+        Returns: undefined
+      }
+      set_question_status: {
+        Args: { _question_id: string; _status: string }
+        Returns: undefined
+      }
+      update_question_content: {
+        Args: { _content: string; _question_id: string; _title: string }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "admin" | "responder" | "employee"
@@ -0,0 +1,51 @@
+export interface WeeklyQuestionsRow {
+  week_start: string;
+  department: string | null;
+  questions: number;
+}
+
+export const NO_DEPARTMENT = 'No department';
+
+/**
+ * Turns one row per week and department into one row per week with a count
+ * for each department, as stacked bar charts expect. Departments are listed
+ * busiest first.
+ */
+export function pivotWeeklyQuestions(rows: WeeklyQuestionsRow[]) {
+  const weeks = new Map<string, Record<string, number>>();
+  const totals = new Map<string, number>();
+
+  for (const row of rows) {
+    const week = weeks.get(row.week_start) ?? {};
+    weeks.set(row.week_start, week);
+
+    // Weeks without questions come back as a single empty row
+    if (row.questions === 0) continue;
+
+    const department = row.department ?? NO_DEPARTMENT;
+    week[department] = (week[department] ?? 0) + row.questions;
+    totals.set(department, (totals.get(department) ?? 0) + row.questions);
+  }
+
+  const departments = [...totals.entries()]
+    .sort(([a, x], [b, y]) => y - x || a.localeCompare(b))
+    .map(([department]) => department);
+
+  const data = [...weeks.entries()].map(([week_start, counts]) => ({
+    week_start,
+    ...Object.fromEntries(departments.map(department => [department, counts[department] ?? 0])),
+  }));
+
+  return { data, departments };
+}
+
+export function formatHours(hours: number | null) {
+  if (hours === null) return '—';
+  if (hours < 1) return `${Math.round(hours * 60)} min`;
+  if (hours < 48) return `${hours.toFixed(1)} h`;
+  return `${(hours / 24).toFixed(1)} days`;
+}
+
+export function formatPercent(part: number, whole: number) {
+  return whole === 0 ? '—' : `${Math.round((part / whole) * 100)}%`;
+}
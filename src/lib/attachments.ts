@@ -0,0 +1,179 @@
+import { supabase } from "@/integrations/supabase/client";
+import { OWNER_TOKEN_HEADER, withOwnerToken } from "@/lib/ownership";
+
+export type AttachmentParent = 'question' | 'answer' | 'comment';
+
+export const ATTACHMENT_BUCKET = 'attachments';
+export const ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024;
+export const ATTACHMENT_MAX_FILES = 5;
+
+// Keep in sync with allowed_mime_types on the storage bucket
+export const ATTACHMENT_ALLOWED_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+];
+
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'application/pdf': 'pdf',
+  'text/plain': 'txt',
+  'text/csv': 'csv',
+};
+
+export function isImageAttachment(mimeType: string) {
+  return IMAGE_TYPES.includes(mimeType);
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Returns a user-facing error message, or null when the file can be attached. */
+export function validateAttachment(file: File): string | null {
+  if (!ATTACHMENT_ALLOWED_TYPES.includes(file.type)) {
+    return `${file.name}: only images (JPEG, PNG, WebP), PDF, text and CSV files are allowed`;
+  }
+  if (file.size > ATTACHMENT_MAX_BYTES) {
+    return `${file.name}: files must be ${formatFileSize(ATTACHMENT_MAX_BYTES)} or smaller`;
+  }
+  return null;
+}
+
+/**
+ * Re-encodes an image through a canvas, which drops EXIF, GPS and other
+ * metadata while keeping the orientation the camera recorded.
+ */
+export async function stripImageMetadata(file: File): Promise<File> {
+  if (!isImageAttachment(file.type)) return file;
+
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not process image');
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>(resolve =>
+    canvas.toBlob(resolve, file.type, 0.92)
+  );
+  if (!blob) throw new Error('Could not process image');
+
+  return new File([blob], file.name, { type: file.type, lastModified: Date.now() });
+}
+
+const storageObjectUrl = (path = '') =>
+  `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/object/${ATTACHMENT_BUCKET}${path && `/${path}`}`;
+
+// supabase-js doesn't report upload progress, and can't send the owner token
+// header per request, so these talk to the storage API directly
+function uploadWithProgress(
+  path: string,
+  file: File,
+  accessToken: string,
+  ownerToken?: string | null,
+  onProgress?: (percent: number) => void
+) {
+  return new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', storageObjectUrl(path));
+    xhr.setRequestHeader('Authorization', `Bearer ${accessToken}`);
+    xhr.setRequestHeader('apikey', import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY);
+    xhr.setRequestHeader('Content-Type', file.type);
+    xhr.setRequestHeader('x-upsert', 'false');
+    if (ownerToken) xhr.setRequestHeader(OWNER_TOKEN_HEADER, ownerToken);
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress?.(Math.round((event.loaded / event.total) * 100));
+      }
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve();
+      } else {
+        reject(new Error(`Upload failed (${xhr.status})`));
+      }
+    };
+    xhr.onerror = () => reject(new Error('Upload failed'));
+
+    xhr.send(file);
+  });
+}
+
+export async function removeAttachmentFile(path: string, ownerToken?: string | null) {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) return;
+
+  const response = await fetch(storageObjectUrl(), {
+    method: 'DELETE',
+    headers: {
+      'Authorization': `Bearer ${session.access_token}`,
+      'apikey': import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+      'Content-Type': 'application/json',
+      ...(ownerToken ? { [OWNER_TOKEN_HEADER]: ownerToken } : {}),
+    },
+    body: JSON.stringify({ prefixes: [path] }),
+  });
+
+  if (!response.ok) {
+    console.error('Error removing attachment file:', response.status);
+  }
+}
+
+interface UploadAttachmentOptions {
+  file: File;
+  parentType: AttachmentParent;
+  parentId: string;
+  /** Anonymous posts don't record who uploaded the file */
+  uploaderId: string | null;
+  /** Proves ownership of an anonymous question */
+  ownerToken?: string | null;
+  onProgress?: (percent: number) => void;
+}
+
+export async function uploadAttachment({
+  file,
+  parentType,
+  parentId,
+  uploaderId,
+  ownerToken,
+  onProgress,
+}: UploadAttachmentOptions) {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('You must be signed in to upload files');
+
+  const cleanFile = await stripImageMetadata(file);
+  // The original file name is kept in the table only, never in the object path
+  const path = `${parentType}/${parentId}/${crypto.randomUUID()}.${EXTENSIONS[file.type]}`;
+
+  await uploadWithProgress(path, cleanFile, session.access_token, ownerToken, onProgress);
+
+  const { error } = await withOwnerToken(supabase.from('attachments').insert({
+    question_id: parentType === 'question' ? parentId : null,
+    answer_id: parentType === 'answer' ? parentId : null,
+    comment_id: parentType === 'comment' ? parentId : null,
+    storage_path: path,
+    file_name: file.name.slice(0, 255),
+    mime_type: file.type,
+    size_bytes: cleanFile.size,
+    uploaded_by: uploaderId,
+  }), ownerToken);
+
+  if (error) {
+    await removeAttachmentFile(path, ownerToken);
+    throw error;
+  }
+}
@@ -0,0 +1,33 @@
+// Keep in sync with the UPDATE/DELETE policies on public.comments
+export const COMMENT_EDIT_WINDOW_MINUTES = 15;
+
+export interface CommentNode<T> {
+  comment: T;
+  replies: CommentNode<T>[];
+}
+
+/**
+ * Nests comments under their parents, keeping the input order at each level.
+ * Replies whose parent isn't in the list (e.g. removed) are shown at the top level.
+ */
+export function buildCommentTree<T extends { id: string; parent_id: string | null }>(comments: T[]) {
+  const nodes = new Map<string, CommentNode<T>>();
+  comments.forEach(comment => nodes.set(comment.id, { comment, replies: [] }));
+
+  const roots: CommentNode<T>[] = [];
+  comments.forEach(comment => {
+    const node = nodes.get(comment.id)!;
+    const parent = comment.parent_id ? nodes.get(comment.parent_id) : undefined;
+    if (parent) {
+      parent.replies.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  return roots;
+}
+
+export function isWithinEditWindow(createdAt: string, now = new Date()) {
+  return now.getTime() - new Date(createdAt).getTime() < COMMENT_EDIT_WINDOW_MINUTES * 60 * 1000;
+}
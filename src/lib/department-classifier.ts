@@ -0,0 +1,153 @@
+export interface TrainingQuestion {
+  department_id: string;
+  title: string;
+  content?: string;
+}
+
+export interface KeywordRule {
+  department_id: string;
+  keyword: string;
+  weight: number;
+}
+
+export interface DepartmentSuggestion {
+  departmentId: string;
+  score: number;
+  // The admin keywords found in the text, if any
+  keywords: string[];
+}
+
+type Vector = Map<string, number>;
+
+export interface DepartmentClassifier {
+  idf: Vector;
+  centroids: Map<string, Vector>;
+  rules: { departmentId: string; keyword: string; phrase: string; weight: number }[];
+}
+
+// Weights offered in the Departments tab
+export const KEYWORD_WEIGHTS: Record<number, string> = {
+  1: 'Hint',
+  2: 'Strong',
+  3: 'Decisive',
+};
+
+// A keyword of weight 1 counts for about as much as a close match with past questions
+const KEYWORD_SCORE = 0.4;
+
+// Below this the text says too little to suggest anything
+const MIN_SCORE = 0.2;
+
+const STOPWORDS = new Set([
+  'a', 'about', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'can', 'could', 'do',
+  'does', 'for', 'from', 'get', 'has', 'have', 'how', 'i', 'if', 'in', 'is', 'it', 'its', 'me', 'my', 'no',
+  'not', 'of', 'on', 'or', 'our', 'should', 'so', 'that', 'the', 'their', 'there', 'this', 'to', 'us', 'was',
+  'we', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'would', 'you', 'your',
+]);
+
+// Folds simple plurals so "payslips" finds "payslip"
+const stem = (word: string) =>
+  word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word;
+
+const words = (text: string) => (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).map(stem);
+
+export const tokenize = (text: string) => words(text).filter(word => word.length > 1 && !STOPWORDS.has(word));
+
+const normalize = (vector: Vector): Vector => {
+  const length = Math.sqrt([...vector.values()].reduce((sum, value) => sum + value * value, 0));
+  if (length === 0) return vector;
+  return new Map([...vector].map(([term, value]) => [term, value / length]));
+};
+
+const vectorize = (tokens: string[], idf: Vector): Vector => {
+  const counts: Vector = new Map();
+  for (const token of tokens) {
+    const weight = idf.get(token);
+    if (weight !== undefined) counts.set(token, (counts.get(token) ?? 0) + weight);
+  }
+  return normalize(counts);
+};
+
+const cosine = (a: Vector, b: Vector) => {
+  let sum = 0;
+  for (const [term, value] of a) sum += value * (b.get(term) ?? 0);
+  return sum;
+};
+
+/**
+ * Learns what each department's questions look like (a TF-IDF centroid per
+ * department) and combines it with the admins' keyword rules.
+ */
+export function buildClassifier(questions: TrainingQuestion[], rules: KeywordRule[]): DepartmentClassifier {
+  const documents = questions.map(q => ({
+    departmentId: q.department_id,
+    tokens: tokenize(`${q.title} ${q.content ?? ''}`),
+  }));
+
+  const documentFrequency = new Map<string, number>();
+  for (const { tokens } of documents) {
+    for (const token of new Set(tokens)) {
+      documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1);
+    }
+  }
+
+  const idf: Vector = new Map(
+    [...documentFrequency].map(([term, df]) => [term, Math.log((documents.length + 1) / (df + 1)) + 1])
+  );
+
+  const sums = new Map<string, Vector>();
+  for (const { departmentId, tokens } of documents) {
+    const sum = sums.get(departmentId) ?? new Map();
+    for (const [term, value] of vectorize(tokens, idf)) {
+      sum.set(term, (sum.get(term) ?? 0) + value);
+    }
+    sums.set(departmentId, sum);
+  }
+
+  const centroids = new Map([...sums].map(([departmentId, sum]) => [departmentId, normalize(sum)]));
+
+  return {
+    idf,
+    centroids,
+    rules: rules
+      .map(rule => ({
+        departmentId: rule.department_id,
+        keyword: rule.keyword,
+        phrase: words(rule.keyword).join(' '),
+        weight: rule.weight,
+      }))
+      .filter(rule => rule.phrase),
+  };
+}
+
+/** The most likely department for a question's text, or null when unsure. */
+export function suggestDepartment(classifier: DepartmentClassifier, text: string): DepartmentSuggestion | null {
+  const scores = new Map<string, DepartmentSuggestion>();
+  const entry = (departmentId: string) => {
+    const existing = scores.get(departmentId) ?? { departmentId, score: 0, keywords: [] };
+    scores.set(departmentId, existing);
+    return existing;
+  };
+
+  const query = vectorize(tokenize(text), classifier.idf);
+  for (const [departmentId, centroid] of classifier.centroids) {
+    const similarity = cosine(query, centroid);
+    if (similarity > 0) entry(departmentId).score += similarity;
+  }
+
+  // Keywords match whole words, and phrases match in order
+  const padded = ` ${words(text).join(' ')} `;
+  for (const rule of classifier.rules) {
+    if (padded.includes(` ${rule.phrase} `)) {
+      const suggestion = entry(rule.departmentId);
+      suggestion.score += KEYWORD_SCORE * rule.weight;
+      suggestion.keywords.push(rule.keyword);
+    }
+  }
+
+  let best: DepartmentSuggestion | null = null;
+  for (const suggestion of scores.values()) {
+    if (!best || suggestion.score > best.score) best = suggestion;
+  }
+  return best && best.score >= MIN_SCORE ? best : null;
+}
@@ -0,0 +1,60 @@
+export type PreferenceEventType =
+  | 'department_question'
+  | 'answer_to_my_question'
+  | 'reply_to_my_comment'
+  | 'mention'
+  | 'following';
+
+export type PreferenceChannel = 'in_app' | 'email';
+
+export type PreferenceFrequency = 'instant' | 'daily' | 'weekly';
+
+export interface NotificationPreference {
+  event_type: PreferenceEventType;
+  channel: PreferenceChannel;
+  enabled: boolean;
+  frequency: PreferenceFrequency;
+}
+
+export const PREFERENCE_EVENTS: { type: PreferenceEventType; label: string; description: string }[] = [
+  {
+    type: 'department_question',
+    label: 'New questions in my department',
+    description: 'Questions asked in a department you administer, questions assigned to you, and overdue questions',
+  },
+  {
+    type: 'answer_to_my_question',
+    label: 'Answers to my questions',
+    description: 'New answers to questions you asked. Anonymous questions are only notified in-app',
+  },
+  {
+    type: 'reply_to_my_comment',
+    label: 'Replies to my comments',
+    description: 'Someone replies directly to one of your comments',
+  },
+  {
+    type: 'mention',
+    label: 'Mentions',
+    description: 'Someone mentions you with @ and the first part of your email address',
+  },
+  {
+    type: 'following',
+    label: 'Questions and departments I follow',
+    description: 'New answers and status changes on followed questions, and new questions in followed departments',
+  },
+];
+
+export const FREQUENCY_LABELS: Record<PreferenceFrequency, string> = {
+  instant: 'Instantly',
+  daily: 'Daily digest',
+  weekly: 'Weekly digest',
+};
+
+// Each user has one preference per event type and channel
+export function findPreference(
+  preferences: NotificationPreference[],
+  eventType: PreferenceEventType,
+  channel: PreferenceChannel
+) {
+  return preferences.find(p => p.event_type === eventType && p.channel === channel);
+}
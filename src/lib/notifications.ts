@@ -0,0 +1,75 @@
+import { Json } from "@/integrations/supabase/types";
+import { statusLabel } from "@/lib/question-status";
+
+export type NotificationType =
+  | 'new_answer'
+  | 'new_comment'
+  | 'comment_reply'
+  | 'status_changed'
+  | 'answer_accepted'
+  | 'department_question'
+  | 'mention'
+  | 'following_new_answer'
+  | 'following_status_changed'
+  | 'following_new_question'
+  | 'question_assigned'
+  | 'sla_overdue';
+
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  question_id: string;
+  question_title: string;
+  data: Json;
+  read_at: string | null;
+  created_at: string;
+  // Addressed to the anonymous asker; marked read through the owner tokens
+  anonymous: boolean;
+}
+
+const dataField = (data: Json, key: string) =>
+  data && typeof data === 'object' && !Array.isArray(data) && typeof data[key] === 'string'
+    ? data[key] as string
+    : null;
+
+export function describeNotification(notification: AppNotification) {
+  const title = `"${notification.question_title}"`;
+
+  switch (notification.type) {
+    case 'new_answer':
+    case 'following_new_answer':
+      return `New answer on ${title}`;
+    case 'new_comment':
+      return `New comment on ${title}`;
+    case 'comment_reply':
+      return `Someone replied to your comment on ${title}`;
+    case 'answer_accepted':
+      return `Your answer on ${title} was accepted`;
+    case 'department_question': {
+      const department = dataField(notification.data, 'department');
+      const movedFrom = dataField(notification.data, 'moved_from');
+      if (department && movedFrom) return `Question moved from ${movedFrom} to ${department}: ${title}`;
+      return department ? `New question in ${department}: ${title}` : `New question in your department: ${title}`;
+    }
+    case 'mention':
+      return `You were mentioned on ${title}`;
+    case 'question_assigned':
+      return `You were assigned ${title}`;
+    case 'sla_overdue': {
+      const department = dataField(notification.data, 'department');
+      const overdue = department ? `${title} in ${department} is overdue for an answer` : `${title} is overdue for an answer`;
+      return dataField(notification.data, 'escalation') === 'admins' ? `Escalated: ${overdue}` : overdue;
+    }
+    case 'following_new_question': {
+      const department = dataField(notification.data, 'department');
+      return department ? `New question in ${department}, which you follow: ${title}` : `New question: ${title}`;
+    }
+    case 'status_changed':
+    case 'following_status_changed': {
+      const status = dataField(notification.data, 'to');
+      return status ? `${title} is now ${statusLabel(status).toLowerCase()}` : `The status of ${title} changed`;
+    }
+    default:
+      return `Update on ${title}`;
+  }
+}
@@ -0,0 +1,157 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Ownership of anonymous questions.
+ *
+ * Each user has a secret owner key that lives only in their browser. The
+ * token for their n-th anonymous question is HMAC(key, "question-slot:n");
+ * the server stores a hash of it and nothing else, so no one can link an
+ * anonymous question to its asker. Because tokens are numbered, the asker
+ * can find all their questions again on any device that has the key. The
+ * server keeps the hashes of deleted questions' tokens, so used slots never
+ * have gaps and a slot is never handed out twice.
+ */
+
+// Must match the header read by public.request_owner_token_hash()
+export const OWNER_TOKEN_HEADER = 'x-question-owner-token';
+
+// Error code of store_question_owner_token() for a token used before
+export const OWNER_TOKEN_IN_USE = '23505';
+
+// Slots are probed in batches; an entirely unused batch is past the highest
+// used slot and ends the search
+const SLOT_BATCH_SIZE = 20;
+
+const KEY_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+const storageKey = (userId: string) => `owner-key:${userId}`;
+
+export interface OwnedQuestion {
+  questionId: string;
+  token: string;
+  slot: number;
+}
+
+interface SlotLookup {
+  owned: OwnedQuestion[];
+  // One past the highest used slot, including those of deleted questions
+  nextSlot: number;
+}
+
+const lookupCache = new Map<string, Promise<SlotLookup>>();
+
+function toBase64Url(bytes: Uint8Array) {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string) {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '=')), c => c.charCodeAt(0));
+}
+
+export function getOwnerKey(userId: string) {
+  return localStorage.getItem(storageKey(userId));
+}
+
+export function isValidOwnerKey(key: string) {
+  return KEY_PATTERN.test(key);
+}
+
+/** Replaces the owner key, e.g. with one copied from another device. */
+export function setOwnerKey(userId: string, key: string) {
+  if (!isValidOwnerKey(key)) throw new Error('That recovery key is not valid');
+  localStorage.setItem(storageKey(userId), key);
+  lookupCache.delete(userId);
+}
+
+function getOrCreateOwnerKey(userId: string) {
+  const existing = getOwnerKey(userId);
+  if (existing) return { key: existing, created: false };
+
+  const key = toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+  localStorage.setItem(storageKey(userId), key);
+  return { key, created: true };
+}
+
+export async function slotToken(key: string, slot: number) {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    fromBase64Url(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(`question-slot:${slot}`));
+  return Array.from(new Uint8Array(signature), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function lookupSlots(key: string): Promise<SlotLookup> {
+  const owned: OwnedQuestion[] = [];
+  let nextSlot = 0;
+
+  for (let start = 0; ; start += SLOT_BATCH_SIZE) {
+    const slots = Array.from({ length: SLOT_BATCH_SIZE }, (_, i) => start + i);
+    const tokens = await Promise.all(slots.map(slot => slotToken(key, slot)));
+
+    const { data, error } = await supabase.rpc('find_owned_questions', { _tokens: tokens });
+    if (error) throw error;
+    if (data.length === 0) break;
+
+    data.forEach(row => {
+      const slot = slots[tokens.indexOf(row.token)];
+      nextSlot = Math.max(nextSlot, slot + 1);
+      if (row.question_id) {
+        owned.push({ questionId: row.question_id, token: row.token, slot });
+      }
+    });
+  }
+
+  return { owned: owned.sort((a, b) => a.slot - b.slot), nextSlot };
+}
+
+function getSlotLookup(userId: string, key: string) {
+  let lookup = lookupCache.get(userId);
+  if (!lookup) {
+    lookup = lookupSlots(key);
+    lookup.catch(() => lookupCache.delete(userId));
+    lookupCache.set(userId, lookup);
+  }
+  return lookup;
+}
+
+/** The current user's anonymous questions, as far as this device's key knows. */
+export async function getOwnedQuestions(userId: string) {
+  const key = getOwnerKey(userId);
+  if (!key) return [];
+
+  return (await getSlotLookup(userId, key)).owned;
+}
+
+export async function getOwnerToken(userId: string, questionId: string) {
+  const owned = await getOwnedQuestions(userId);
+  return owned.find(o => o.questionId === questionId)?.token ?? null;
+}
+
+/**
+ * Picks the token for a new anonymous question: the slot after the highest
+ * one used. `created` is true when this device had no owner key yet.
+ *
+ * Another tab can pick the same slot at the same time; the server then
+ * rejects the second question with OWNER_TOKEN_IN_USE, and reserving again
+ * moves on to the next slot.
+ */
+export async function reserveOwnerToken(userId: string) {
+  const { key, created } = getOrCreateOwnerKey(userId);
+  const { nextSlot } = await getSlotLookup(userId, key);
+
+  lookupCache.delete(userId);
+  return { token: await slotToken(key, nextSlot), created };
+}
+
+/** Sends the owner token with a query so is_question_owner() can check it. */
+export function withOwnerToken<T extends { setHeader(name: string, value: string): T }>(
+  builder: T,
+  token: string | null | undefined
+) {
+  return token ? builder.setHeader(OWNER_TOKEN_HEADER, token) : builder;
+}
@@ -0,0 +1,50 @@
+export type QuestionSort = 'trending' | 'newest' | 'answered';
+
+export type CursorValue = string | number;
+
+export interface CursorColumn {
+  column: string;
+  value: CursorValue;
+}
+
+export type Cursor = CursorColumn[];
+
+// Keyset columns per feed ordering, all sorted descending. `id` is the final
+// tie-breaker so the ordering is total and pages never overlap.
+export const QUESTION_SORT_KEYS: Record<QuestionSort, string[]> = {
+  trending: ['upvotes', 'created_at', 'id'],
+  newest: ['created_at', 'id'],
+  answered: ['updated_at', 'id'],
+};
+
+export function cursorFor(row: object, columns: string[]): Cursor {
+  return columns.map(column => ({ column, value: (row as Record<string, CursorValue>)[column] }));
+}
+
+const formatValue = (value: CursorValue) =>
+  typeof value === 'number' ? String(value) : `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+/**
+ * Builds a PostgREST `or` filter matching rows strictly after the cursor for a
+ * descending multi-column ordering, e.g. for (upvotes, created_at, id):
+ * upvotes < u OR (upvotes = u AND created_at < c) OR (... AND id < i)
+ */
+export function keysetFilter(cursor: Cursor): string {
+  return cursor
+    .map((current, index) => {
+      const conditions = [
+        ...cursor.slice(0, index).map(c => `${c.column}.eq.${formatValue(c.value)}`),
+        `${current.column}.lt.${formatValue(current.value)}`,
+      ];
+      return conditions.length === 1 ? conditions[0] : `and(${conditions.join(',')})`;
+    })
+    .join(',');
+}
+
+/**
+ * An `ilike` pattern matching text that contains `search` literally, so that
+ * `%`, `_` and `\` typed by the user don't act as wildcards or escapes.
+ */
+export function containsPattern(search: string): string {
+  return `%${search.replace(/[\\%_]/g, '\\$&')}%`;
+}
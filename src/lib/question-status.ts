@@ -0,0 +1,76 @@
+export type QuestionStatus =
+  | 'open'
+  | 'assigned'
+  | 'in_progress'
+  | 'needs_info'
+  | 'answered'
+  | 'closed'
+  | 'duplicate'
+  | 'archived';
+
+export const QUESTION_STATUSES: QuestionStatus[] = [
+  'open',
+  'assigned',
+  'in_progress',
+  'needs_info',
+  'answered',
+  'closed',
+  'duplicate',
+  'archived',
+];
+
+export const STATUS_LABELS: Record<QuestionStatus, string> = {
+  open: 'Open',
+  assigned: 'Assigned',
+  in_progress: 'In progress',
+  needs_info: 'Needs info',
+  answered: 'Answered',
+  closed: 'Closed',
+  duplicate: 'Duplicate',
+  archived: 'Archived',
+};
+
+export const STATUS_STYLES: Record<QuestionStatus, string> = {
+  open: 'bg-accent/10 text-accent',
+  assigned: 'bg-primary/10 text-primary',
+  in_progress: 'bg-primary/10 text-primary',
+  needs_info: 'bg-warning/10 text-warning',
+  answered: 'bg-success/10 text-success',
+  closed: 'bg-muted text-muted-foreground',
+  duplicate: 'bg-muted text-muted-foreground',
+  archived: 'bg-muted text-muted-foreground',
+};
+
+/**
+ * Where a question may go from each status. The database enforces the same
+ * rules in question_status_transition_allowed(); keep the two in sync.
+ */
+export const STATUS_TRANSITIONS: Record<QuestionStatus, QuestionStatus[]> = {
+  open: ['assigned', 'in_progress', 'needs_info', 'answered', 'duplicate', 'closed', 'archived'],
+  assigned: ['open', 'in_progress', 'needs_info', 'answered', 'duplicate', 'closed', 'archived'],
+  in_progress: ['assigned', 'needs_info', 'answered', 'duplicate', 'closed', 'archived'],
+  needs_info: ['open', 'in_progress', 'answered', 'duplicate', 'closed', 'archived'],
+  answered: ['open', 'in_progress', 'needs_info', 'closed', 'archived'],
+  closed: ['open', 'answered', 'archived'],
+  duplicate: ['open', 'archived'],
+  archived: ['open'],
+};
+
+export const isQuestionStatus = (status: string): status is QuestionStatus =>
+  (QUESTION_STATUSES as string[]).includes(status);
+
+export function statusLabel(status: string) {
+  return isQuestionStatus(status) ? STATUS_LABELS[status] : status;
+}
+
+/**
+ * The statuses offered in status pickers. Duplicates are left out: they are
+ * marked with mark_question_duplicate(), which also records the original.
+ */
+export function nextStatuses(status: string): QuestionStatus[] {
+  return isQuestionStatus(status) ? STATUS_TRANSITIONS[status].filter(next => next !== 'duplicate') : [];
+}
+
+export function canTransition(from: string, to: string) {
+  return isQuestionStatus(from) && STATUS_TRANSITIONS[from].includes(to as QuestionStatus);
+}
@@ -0,0 +1,52 @@
+export type SlaState = 'on_track' | 'due_soon' | 'overdue' | 'met' | 'missed';
+
+export interface SlaQuestion {
+  status: string;
+  created_at: string;
+  sla_due_at: string | null;
+  first_answered_at: string | null;
+}
+
+// Targets offered in the Departments tab, in business days
+export const SLA_TARGETS = [1, 2, 3, 5, 10];
+
+export const SLA_LABELS: Record<SlaState, string> = {
+  on_track: 'On track',
+  due_soon: 'Due soon',
+  overdue: 'Overdue',
+  met: 'SLA met',
+  missed: 'SLA missed',
+};
+
+export const SLA_STYLES: Record<SlaState, string> = {
+  on_track: 'bg-muted text-muted-foreground',
+  due_soon: 'bg-warning/10 text-warning',
+  overdue: 'bg-destructive/10 text-destructive',
+  met: 'bg-success/10 text-success',
+  missed: 'bg-destructive/10 text-destructive',
+};
+
+const DUE_SOON_MS = 24 * 60 * 60 * 1000;
+
+// Paused while waiting on the asker (the due date moves back once it's picked
+// up again), or closed without an answer, so there is nothing to be late for.
+// Mirrors the statuses escalate_overdue_questions() skips.
+const STOPPED_STATUSES = ['needs_info', 'closed', 'duplicate', 'archived'];
+
+/**
+ * Where a question stands against its department's answer SLA, or null when
+ * it has none. The first official answer stops the clock.
+ */
+export function slaState(question: SlaQuestion, now = new Date()): SlaState | null {
+  if (!question.sla_due_at) return null;
+  const due = new Date(question.sla_due_at).getTime();
+
+  if (question.first_answered_at) {
+    return new Date(question.first_answered_at).getTime() <= due ? 'met' : 'missed';
+  }
+  if (STOPPED_STATUSES.includes(question.status)) return null;
+
+  const remaining = due - now.getTime();
+  if (remaining < 0) return 'overdue';
+  return remaining <= DUE_SOON_MS ? 'due_soon' : 'on_track';
+}
@@ -0,0 +1,51 @@
+/**
+ * What a question looked like the last time the user opened it, used to
+ * highlight what changed since. Kept in the browser rather than the
+ * database so visits to anonymous questions can't reveal who asked them.
+ */
+export interface QuestionVisit {
+  status: string;
+  answersCount: number;
+  visitedAt: string;
+}
+
+export interface QuestionChanges {
+  newAnswers: number;
+  previousStatus: string | null;
+}
+
+// Oldest visits are dropped beyond this many questions
+const MAX_VISITS = 500;
+
+const storageKey = (userId: string) => `question-visits:${userId}`;
+
+export function getQuestionVisits(userId: string): Record<string, QuestionVisit> {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey(userId)) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+export function recordQuestionVisit(userId: string, questionId: string, state: Omit<QuestionVisit, 'visitedAt'>) {
+  const visits = getQuestionVisits(userId);
+  visits[questionId] = { ...state, visitedAt: new Date().toISOString() };
+
+  const trimmed = Object.entries(visits)
+    .sort(([, a], [, b]) => b.visitedAt.localeCompare(a.visitedAt))
+    .slice(0, MAX_VISITS);
+
+  localStorage.setItem(storageKey(userId), JSON.stringify(Object.fromEntries(trimmed)));
+}
+
+export function changesSinceVisit(
+  visit: QuestionVisit | undefined,
+  current: Omit<QuestionVisit, 'visitedAt'>
+): QuestionChanges {
+  if (!visit) return { newAnswers: 0, previousStatus: null };
+
+  return {
+    newAnswers: Math.max(current.answersCount - visit.answersCount, 0),
+    previousStatus: visit.status !== current.status ? visit.status : null,
+  };
+}
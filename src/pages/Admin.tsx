@@ -1,6 +1,6 @@
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
-import { ArrowLeft, Users, Building, MessageSquare, Shield, Plus, Trash2, Search, Filter, Clock, TrendingUp, CheckCircle, UserCog } from "lucide-react";
+import { ArrowLeft, Users, Building, MessageSquare, Shield, Plus, Trash2, Search, Filter, Clock, TrendingUp, CheckCircle, UserCog, ChevronLeft, ChevronRight, MailWarning, Webhook, BarChart3, ArrowRightLeft, Copy } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -15,6 +15,18 @@ import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { formatDistanceToNow } from "date-fns";
 import { UserManagement } from "@/components/admin/UserManagement";
+import { FailedDeliveries } from "@/components/admin/FailedDeliveries";
+import { DepartmentWebhooks } from "@/components/admin/DepartmentWebhooks";
+import { DepartmentKeywords } from "@/components/admin/DepartmentKeywords";
+import { WebhookManagement } from "@/components/admin/WebhookManagement";
+import { AnalyticsDashboard } from "@/components/admin/AnalyticsDashboard";
+import { DepartmentModeration } from "@/components/admin/DepartmentModeration";
+import { Cursor, QuestionSort, QUESTION_SORT_KEYS, containsPattern, cursorFor, keysetFilter } from "@/lib/pagination";
+import { STATUS_LABELS, nextStatuses, statusLabel } from "@/lib/question-status";
+import { SLA_TARGETS } from "@/lib/sla";
+import { SlaBadge } from "@/components/SlaBadge";
+import { MoveQuestionDialog } from "@/components/MoveQuestionDialog";
+import { MarkDuplicateDialog } from "@/components/admin/MarkDuplicateDialog";
 
 interface DepartmentAdmin {
   id: string;
@@ -29,6 +41,8 @@ interface Department {
   id: string;
   name: string;
   description: string | null;
+  assignment_mode: string;
+  sla_business_days: number | null;
   created_at: string;
 }
 
@@ -36,15 +50,20 @@ interface QuestionAdmin {
   id: string;
   title: string;
   status: string;
+  upvotes: number;
   created_at: string;
+  updated_at: string;
+  sla_due_at: string | null;
+  first_answered_at: string | null;
+  department_id: string | null;
   department: { name: string } | null;
   answers_count: number;
 }
 
-type SortOption = 'newest' | 'trending' | 'answered';
+const QUESTIONS_PAGE_SIZE = 25;
 
 export default function Admin() {
-  const { user, profile, isAdmin, isLoading } = useAuth();
+  const { user, profile, isAdmin, isDepartmentAdmin, isLoading } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
   
@@ -62,15 +81,18 @@ export default function Admin() {
   const [questions, setQuestions] = useState<QuestionAdmin[]>([]);
   const [questionSearch, setQuestionSearch] = useState("");
   const [questionDeptFilter, setQuestionDeptFilter] = useState<string>("all");
-  const [questionSort, setQuestionSort] = useState<SortOption>("newest");
+  const [questionSort, setQuestionSort] = useState<QuestionSort>("newest");
+  // Cursor for the start of each visited page; the last entry is the current page
+  const [questionCursors, setQuestionCursors] = useState<(Cursor | null)[]>([null]);
+  const [hasNextQuestionPage, setHasNextQuestionPage] = useState(false);
   
   const [isLoadingData, setIsLoadingData] = useState(true);
 
   useEffect(() => {
-    if (!isLoading && (!user || !isAdmin)) {
+    if (!isLoading && (!user || (!isAdmin && !isDepartmentAdmin))) {
       navigate("/");
     }
-  }, [user, isAdmin, isLoading, navigate]);
+  }, [user, isAdmin, isDepartmentAdmin, isLoading, navigate]);
 
   const fetchDepartmentAdmins = async () => {
     // Fetch department_admins with profile info
@@ -122,7 +144,7 @@ export default function Admin() {
     if (data) setDepartments(data);
   };
 
-  const fetchQuestions = async () => {
+  const fetchQuestions = async (cursor: Cursor | null = questionCursors[questionCursors.length - 1]) => {
     let query = supabase
       .from('questions')
       .select(`
@@ -131,32 +153,63 @@ export default function Admin() {
         status,
         upvotes,
         created_at,
+        updated_at,
+        sla_due_at,
+        first_answered_at,
+        department_id,
         department:departments(name),
-        answers(id)
+        answers(count)
       `);
 
     if (questionDeptFilter !== "all") {
       query = query.eq('department_id', questionDeptFilter);
     }
 
-    if (questionSort === 'newest') {
-      query = query.order('created_at', { ascending: false });
-    } else if (questionSort === 'trending') {
-      query = query.order('upvotes', { ascending: false });
-    } else if (questionSort === 'answered') {
-      query = query.eq('status', 'answered').order('created_at', { ascending: false });
+    if (questionSort === 'answered') {
+      query = query.eq('status', 'answered');
     }
 
-    const { data } = await query.limit(100);
+    if (questionSearch.trim()) {
+      query = query.ilike('title', containsPattern(questionSearch.trim()));
+    }
+
+    if (cursor) {
+      query = query.or(keysetFilter(cursor));
+    }
+
+    for (const column of QUESTION_SORT_KEYS[questionSort]) {
+      query = query.order(column, { ascending: false });
+    }
+
+    // Fetch one extra row to know whether there is a next page
+    const { data } = await query.limit(QUESTIONS_PAGE_SIZE + 1);
 
     if (data) {
-      setQuestions(data.map(q => ({
+      setHasNextQuestionPage(data.length > QUESTIONS_PAGE_SIZE);
+      setQuestions(data.slice(0, QUESTIONS_PAGE_SIZE).map(q => ({
         ...q,
-        answers_count: q.answers?.length || 0,
+        answers_count: q.answers?.[0]?.count || 0,
       })));
     }
   };
 
+  const handleNextQuestionPage = () => {
+    const last = questions[questions.length - 1];
+    if (!last) return;
+
+    const cursor = cursorFor(last, QUESTION_SORT_KEYS[questionSort]);
+    setQuestionCursors(prev => [...prev, cursor]);
+    fetchQuestions(cursor);
+  };
+
+  const handlePreviousQuestionPage = () => {
+    if (questionCursors.length <= 1) return;
+
+    const cursors = questionCursors.slice(0, -1);
+    setQuestionCursors(cursors);
+    fetchQuestions(cursors[cursors.length - 1]);
+  };
+
   useEffect(() => {
     if (user && isAdmin) {
       Promise.all([fetchDepartmentAdmins(), fetchDepartments(), fetchQuestions()])
@@ -165,10 +218,16 @@ export default function Admin() {
   }, [user, isAdmin]);
 
   useEffect(() => {
-    if (user && isAdmin) {
-      fetchQuestions();
-    }
-  }, [questionDeptFilter, questionSort]);
+    if (!user || !isAdmin) return;
+
+    // Debounce so typing in the search box doesn't fire a query per keystroke
+    const timeout = setTimeout(() => {
+      setQuestionCursors([null]);
+      fetchQuestions(null);
+    }, questionSearch ? 300 : 0);
+
+    return () => clearTimeout(timeout);
+  }, [questionDeptFilter, questionSort, questionSearch]);
 
   const handleAddDepartmentAdmin = async () => {
     if (!newAdminEmail.trim() || !newAdminDepartment) {
@@ -262,14 +321,39 @@ export default function Admin() {
     }
   };
 
-  const handleUpdateQuestionStatus = async (id: string, status: string) => {
+  const handleUpdateAssignmentMode = async (id: string, assignment_mode: string) => {
     const { error } = await supabase
-      .from('questions')
-      .update({ status })
+      .from('departments')
+      .update({ assignment_mode })
       .eq('id', id);
 
     if (error) {
-      toast({ title: "Failed to update status", variant: "destructive" });
+      toast({ title: "Failed to update assignment", variant: "destructive" });
+    } else {
+      toast({ title: "Assignment updated" });
+      fetchDepartments();
+    }
+  };
+
+  const handleUpdateSla = async (id: string, value: string) => {
+    const { error } = await supabase
+      .from('departments')
+      .update({ sla_business_days: value === "none" ? null : Number(value) })
+      .eq('id', id);
+
+    if (error) {
+      toast({ title: "Failed to update answer target", variant: "destructive" });
+    } else {
+      toast({ title: "Answer target updated" });
+      fetchDepartments();
+    }
+  };
+
+  const handleUpdateQuestionStatus = async (id: string, status: string) => {
+    const { error } = await supabase.rpc('set_question_status', { _question_id: id, _status: status });
+
+    if (error) {
+      toast({ title: "Failed to update status", description: error.message, variant: "destructive" });
     } else {
       toast({ title: "Status updated" });
       fetchQuestions();
@@ -290,10 +374,6 @@ export default function Admin() {
     }
   };
 
-  const filteredQuestions = questions.filter(q =>
-    q.title.toLowerCase().includes(questionSearch.toLowerCase())
-  );
-
   // Group department admins by department
   const adminsByDepartment = departmentAdmins.reduce((acc, admin) => {
     if (!acc[admin.department_name]) {
@@ -303,6 +383,38 @@ export default function Admin() {
     return acc;
   }, {} as Record<string, DepartmentAdmin[]>);
 
+  // Department admins only moderate the questions of their own departments
+  if (!isLoading && !isAdmin && isDepartmentAdmin) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header
+          user={profile ? { email: profile.email, full_name: profile.full_name || undefined, avatar_url: profile.avatar_url || undefined } : null}
+          isAdmin={isAdmin}
+        />
+
+        <main className="container max-w-6xl mx-auto px-4 py-8">
+          <Button
+            variant="ghost"
+            onClick={() => navigate("/questions")}
+            className="mb-6 -ml-2"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Questions
+          </Button>
+
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-foreground mb-2">Department Admin</h1>
+            <p className="text-muted-foreground">
+              Move questions along, assign them, send them to the right department, or remove them
+            </p>
+          </div>
+
+          <DepartmentModeration />
+        </main>
+      </div>
+    );
+  }
+
   if (isLoading || isLoadingData) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
@@ -331,12 +443,12 @@ export default function Admin() {
         <div className="mb-8">
           <h1 className="text-3xl font-bold text-foreground mb-2">Admin Panel</h1>
           <p className="text-muted-foreground">
-            Manage department admins, departments, and questions
+            Manage department admins, departments, questions, notification delivery, and webhooks
           </p>
         </div>
 
         <Tabs defaultValue="users" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4 max-w-2xl h-12 bg-muted/50 p-1 rounded-lg">
+          <TabsList className="grid w-full grid-cols-7 max-w-5xl h-12 bg-muted/50 p-1 rounded-lg">
             <TabsTrigger 
               value="users" 
               className="gap-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground data-[state=active]:shadow-md rounded-md transition-all"
@@ -365,6 +477,27 @@ export default function Admin() {
               <MessageSquare className="w-4 h-4" />
               Questions
             </TabsTrigger>
+            <TabsTrigger 
+              value="deliveries" 
+              className="gap-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground data-[state=active]:shadow-md rounded-md transition-all"
+            >
+              <MailWarning className="w-4 h-4" />
+              Deliveries
+            </TabsTrigger>
+            <TabsTrigger 
+              value="webhooks" 
+              className="gap-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground data-[state=active]:shadow-md rounded-md transition-all"
+            >
+              <Webhook className="w-4 h-4" />
+              Webhooks
+            </TabsTrigger>
+            <TabsTrigger 
+              value="analytics" 
+              className="gap-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground data-[state=active]:shadow-md rounded-md transition-all"
+            >
+              <BarChart3 className="w-4 h-4" />
+              Analytics
+            </TabsTrigger>
           </TabsList>
 
           {/* Users Tab */}
@@ -461,7 +594,7 @@ export default function Admin() {
           </TabsContent>
 
           {/* Departments Tab */}
-          <TabsContent value="departments">
+          <TabsContent value="departments" className="space-y-6">
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
@@ -469,7 +602,8 @@ export default function Admin() {
                   Departments
                 </CardTitle>
                 <CardDescription>
-                  Manage department categories for questions
+                  Manage department categories for questions. Questions not officially answered within
+                  their department's target are escalated to its admins, and a business day later to all admins.
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-6">
@@ -503,6 +637,8 @@ export default function Admin() {
                     <TableRow>
                       <TableHead>Name</TableHead>
                       <TableHead>Description</TableHead>
+                      <TableHead>New questions</TableHead>
+                      <TableHead>Answer within</TableHead>
                       <TableHead className="w-[100px]">Actions</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -513,6 +649,38 @@ export default function Admin() {
                         <TableCell className="text-muted-foreground">
                           {d.description || "—"}
                         </TableCell>
+                        <TableCell>
+                          <Select
+                            value={d.assignment_mode}
+                            onValueChange={(mode) => handleUpdateAssignmentMode(d.id, mode)}
+                          >
+                            <SelectTrigger className="w-[190px] h-8">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="manual">Notify all, assign manually</SelectItem>
+                              <SelectItem value="round_robin">Assign in turn</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={d.sla_business_days?.toString() ?? "none"}
+                            onValueChange={(value) => handleUpdateSla(d.id, value)}
+                          >
+                            <SelectTrigger className="w-[150px] h-8">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none">No target</SelectItem>
+                              {SLA_TARGETS.map(days => (
+                                <SelectItem key={days} value={days.toString()}>
+                                  {days} business {days === 1 ? "day" : "days"}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
                         <TableCell>
                           <Button
                             variant="ghost"
@@ -529,6 +697,10 @@ export default function Admin() {
                 </Table>
               </CardContent>
             </Card>
+
+            <DepartmentKeywords departments={departments} />
+
+            <DepartmentWebhooks departments={departments} />
           </TabsContent>
 
           {/* Questions Tab */}
@@ -607,20 +779,21 @@ export default function Admin() {
                       <TableHead>Question</TableHead>
                       <TableHead>Department</TableHead>
                       <TableHead>Status</TableHead>
+                      <TableHead>SLA</TableHead>
                       <TableHead>Answers</TableHead>
                       <TableHead>Posted</TableHead>
-                      <TableHead className="w-[100px]">Actions</TableHead>
+                      <TableHead className="w-[140px]">Actions</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {filteredQuestions.length === 0 ? (
+                    {questions.length === 0 ? (
                       <TableRow>
-                        <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                        <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
                           No questions found
                         </TableCell>
                       </TableRow>
                     ) : (
-                      filteredQuestions.map((q) => (
+                      questions.map((q) => (
                         <TableRow key={q.id}>
                           <TableCell>
                             <button
@@ -638,16 +811,21 @@ export default function Admin() {
                               value={q.status}
                               onValueChange={(status) => handleUpdateQuestionStatus(q.id, status)}
                             >
-                              <SelectTrigger className="w-[110px] h-8">
+                              <SelectTrigger className="w-[130px] h-8">
                                 <SelectValue />
                               </SelectTrigger>
                               <SelectContent>
-                                <SelectItem value="open">Open</SelectItem>
-                                <SelectItem value="answered">Answered</SelectItem>
-                                <SelectItem value="closed">Closed</SelectItem>
+                                {/* Only the statuses this question can move to */}
+                                <SelectItem value={q.status} disabled>{statusLabel(q.status)}</SelectItem>
+                                {nextStatuses(q.status).map(status => (
+                                  <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+                                ))}
                               </SelectContent>
                             </Select>
                           </TableCell>
+                          <TableCell>
+                            <SlaBadge question={q} />
+                          </TableCell>
                           <TableCell className="text-muted-foreground">
                             {q.answers_count}
                           </TableCell>
@@ -655,23 +833,85 @@ export default function Admin() {
                             {formatDistanceToNow(new Date(q.created_at), { addSuffix: true })}
                           </TableCell>
                           <TableCell>
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              onClick={() => handleDeleteQuestion(q.id)}
-                              className="text-destructive hover:text-destructive"
-                            >
-                              <Trash2 className="w-4 h-4" />
-                            </Button>
+                            <div className="flex items-center">
+                              <MoveQuestionDialog
+                                questionId={q.id}
+                                departmentId={q.department_id}
+                                onMoved={() => fetchQuestions()}
+                              >
+                                <Button variant="ghost" size="icon" title="Move to another department">
+                                  <ArrowRightLeft className="w-4 h-4" />
+                                </Button>
+                              </MoveQuestionDialog>
+                              <MarkDuplicateDialog
+                                questionId={q.id}
+                                title={q.title}
+                                onMarked={() => fetchQuestions()}
+                              >
+                                <Button variant="ghost" size="icon" title="Mark as duplicate">
+                                  <Copy className="w-4 h-4" />
+                                </Button>
+                              </MarkDuplicateDialog>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleDeleteQuestion(q.id)}
+                                className="text-destructive hover:text-destructive"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </div>
                           </TableCell>
                         </TableRow>
                       ))
                     )}
                   </TableBody>
                 </Table>
+
+                {/* Pagination */}
+                <div className="flex items-center justify-between pt-2">
+                  <p className="text-sm text-muted-foreground">
+                    Page {questionCursors.length}
+                  </p>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handlePreviousQuestionPage}
+                      disabled={questionCursors.length <= 1}
+                    >
+                      <ChevronLeft className="w-4 h-4 mr-1" />
+                      Previous
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleNextQuestionPage}
+                      disabled={!hasNextQuestionPage}
+                    >
+                      Next
+                      <ChevronRight className="w-4 h-4 ml-1" />
+                    </Button>
+                  </div>
+                </div>
               </CardContent>
             </Card>
           </TabsContent>
+
+          {/* Failed Deliveries Tab */}
+          <TabsContent value="deliveries">
+            <FailedDeliveries />
+          </TabsContent>
+
+          {/* Webhooks Tab */}
+          <TabsContent value="webhooks">
+            <WebhookManagement />
+          </TabsContent>
+
+          {/* Analytics Tab */}
+          <TabsContent value="analytics">
+            <AnalyticsDashboard />
+          </TabsContent>
         </Tabs>
       </main>
     </div>
@@ -1,17 +1,23 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
-import { ArrowLeft, Send, EyeOff, Eye } from "lucide-react";
+import { ArrowLeft, Send, EyeOff, Eye, Sparkles } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Header } from "@/components/Header";
+import { MarkdownEditor } from "@/components/MarkdownEditor";
+import { AttachmentPicker } from "@/components/AttachmentPicker";
+import { SimilarQuestions } from "@/components/SimilarQuestions";
 import { useAuth } from "@/hooks/useAuth";
+import { useAttachmentUploads } from "@/hooks/use-attachment-uploads";
+import { useDepartmentClassifier } from "@/hooks/use-department-classifier";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { OWNER_TOKEN_IN_USE, reserveOwnerToken, withOwnerToken } from "@/lib/ownership";
+import { suggestDepartment } from "@/lib/department-classifier";
 
 export default function AskQuestion() {
   const { user, profile, isAdmin, isLoading } = useAuth();
@@ -23,6 +29,16 @@ export default function AskQuestion() {
   const [isAnonymous, setIsAnonymous] = useState(true);
   const [departments, setDepartments] = useState<{ id: string; name: string }[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const attachments = useAttachmentUploads();
+  const { classifier } = useDepartmentClassifier();
+
+  const suggestion = useMemo(
+    () => suggestDepartment(classifier, `${title} ${content}`),
+    [classifier, title, content]
+  );
+  const suggestedDepartment = suggestion && suggestion.departmentId !== departmentId
+    ? departments.find(d => d.id === suggestion.departmentId)
+    : undefined;
 
   useEffect(() => {
     if (!isLoading && !user) {
@@ -49,30 +65,68 @@ export default function AskQuestion() {
 
     setIsSubmitting(true);
 
-    const { data, error } = await supabase
-      .from('questions')
-      .insert({
-        title: title.trim(),
-        content: content.trim(),
-        department_id: departmentId || null,
-        is_anonymous: isAnonymous,
-        author_id: isAnonymous ? null : user.id,
-      })
-      .select()
-      .single();
+    // Anonymous askers keep a secret token instead of an author_id
+    let owner: Awaited<ReturnType<typeof reserveOwnerToken>> | null = null;
+    if (isAnonymous) {
+      try {
+        owner = await reserveOwnerToken(user.id);
+      } catch (err) {
+        console.error('Failed to create ownership token:', err);
+        toast({ title: "Failed to submit question", variant: "destructive" });
+        setIsSubmitting(false);
+        return;
+      }
+    }
+
+    const insertQuestion = (token: string | undefined) => withOwnerToken(
+      supabase
+        .from('questions')
+        .insert({
+          title: title.trim(),
+          content: content.trim(),
+          department_id: departmentId || null,
+          is_anonymous: isAnonymous,
+          author_id: isAnonymous ? null : user.id,
+        })
+        .select()
+        .single(),
+      token
+    );
+
+    let { data, error } = await insertQuestion(owner?.token);
+
+    // Another tab took the same slot first; the next one is free
+    if (owner && error?.code === OWNER_TOKEN_IN_USE) {
+      try {
+        owner = await reserveOwnerToken(user.id);
+        ({ data, error } = await insertQuestion(owner.token));
+      } catch (err) {
+        console.error('Failed to create ownership token:', err);
+      }
+    }
 
     if (error) {
       toast({ title: "Failed to submit question", description: error.message, variant: "destructive" });
     } else {
-      toast({ title: "Question submitted successfully!" });
-      
-      // Send notification to department admins (fire and forget)
-      if (data.department_id) {
-        supabase.functions.invoke('notify-department-admins', {
-          body: { question: data }
-        }).catch(err => console.error('Failed to send notifications:', err));
+      if (attachments.pending.length > 0) {
+        const failed = await attachments.uploadAll('question', data.id, isAnonymous ? null : user.id, owner?.token);
+        if (failed > 0) {
+          toast({
+            title: `${failed} ${failed === 1 ? "attachment" : "attachments"} failed to upload`,
+            variant: "destructive",
+          });
+        }
+      }
+
+      if (owner?.created) {
+        toast({
+          title: "Question submitted successfully!",
+          description: "Only this browser can manage your anonymous questions. Save your recovery key from My activity to use them elsewhere.",
+        });
+      } else {
+        toast({ title: "Question submitted successfully!" });
       }
-      
+
       navigate(`/question/${data.id}`);
     }
 
@@ -131,16 +185,25 @@ export default function AskQuestion() {
 
               <div className="space-y-2">
                 <Label htmlFor="content">Details *</Label>
-                <Textarea
+                <MarkdownEditor
                   id="content"
                   placeholder="Provide more context or details about your question..."
                   value={content}
-                  onChange={(e) => setContent(e.target.value)}
+                  onChange={setContent}
                   className="min-h-[150px]"
                   required
                 />
               </div>
 
+              <SimilarQuestions title={title} content={content} />
+
+              <AttachmentPicker
+                pending={attachments.pending}
+                onAdd={attachments.addFiles}
+                onRemove={attachments.removeFile}
+                disabled={isSubmitting}
+              />
+
               <div className="space-y-2">
                 <Label htmlFor="department">Department (optional)</Label>
                 <Select value={departmentId} onValueChange={setDepartmentId}>
@@ -153,9 +216,27 @@ export default function AskQuestion() {
                     ))}
                   </SelectContent>
                 </Select>
-                <p className="text-xs text-muted-foreground">
-                  Address your question to a specific department or manager
-                </p>
+                {suggestedDepartment ? (
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Sparkles className="w-3.5 h-3.5 text-accent" />
+                    <span>
+                      This sounds like a question for <span className="font-medium text-foreground">{suggestedDepartment.name}</span>
+                    </span>
+                    <Button
+                      type="button"
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0 text-xs"
+                      onClick={() => setDepartmentId(suggestedDepartment.id)}
+                    >
+                      Use it
+                    </Button>
+                  </div>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    Address your question to a specific department or manager
+                  </p>
+                )}
               </div>
 
               <div className="flex items-center justify-between p-4 bg-secondary/50 rounded-lg">
@@ -197,7 +278,7 @@ export default function AskQuestion() {
                   className="flex-1 gap-2"
                 >
                   <Send className="w-4 h-4" />
-                  {isSubmitting ? "Submitting..." : "Submit Question"}
+                  {attachments.isUploading ? "Uploading..." : isSubmitting ? "Submitting..." : "Submit Question"}
                 </Button>
               </div>
             </form>
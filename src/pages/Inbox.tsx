@@ -0,0 +1,306 @@
+import { useState, useEffect } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { Clock, Filter, Hand, Hourglass, MessageSquare } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Header } from "@/components/Header";
+import { DepartmentBadge } from "@/components/DepartmentBadge";
+import { StatusBadge } from "@/components/StatusBadge";
+import { SlaBadge } from "@/components/SlaBadge";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { QUESTION_STATUSES, QuestionStatus, STATUS_LABELS } from "@/lib/question-status";
+import { formatDistanceToNow, subDays } from "date-fns";
+
+type InboxTab = 'assigned' | 'unassigned';
+
+interface InboxQuestion {
+  id: string;
+  title: string;
+  status: string;
+  created_at: string;
+  assigned_at: string | null;
+  sla_due_at: string | null;
+  first_answered_at: string | null;
+  department: { name: string } | null;
+  answers: { count: number }[];
+}
+
+const INBOX_COLUMNS = 'id, title, status, created_at, assigned_at, sla_due_at, first_answered_at, department:departments(name), answers(count)';
+
+// Statuses that still need someone to act
+const ACTIVE_STATUSES: QuestionStatus[] = ['open', 'assigned', 'in_progress', 'needs_info'];
+
+const AGE_FILTERS: Record<string, { label: string; days: number | null }> = {
+  any: { label: "Any age", days: null },
+  "1": { label: "Older than a day", days: 1 },
+  "3": { label: "Older than 3 days", days: 3 },
+  "7": { label: "Older than a week", days: 7 },
+};
+
+const LIMIT = 100;
+
+export default function Inbox() {
+  const { user, profile, isAdmin, isResponder, isLoading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tab: InboxTab = searchParams.get("tab") === 'unassigned' ? 'unassigned' : 'assigned';
+  const statusFilter = searchParams.get("status") || "active";
+  const ageFilter = AGE_FILTERS[searchParams.get("age") || "any"] ? searchParams.get("age") || "any" : "any";
+
+  const [assigned, setAssigned] = useState<InboxQuestion[]>([]);
+  const [unassigned, setUnassigned] = useState<InboxQuestion[]>([]);
+  const [hasDepartments, setHasDepartments] = useState(true);
+  const [takingId, setTakingId] = useState<string | null>(null);
+  const [isLoadingData, setIsLoadingData] = useState(true);
+
+  useEffect(() => {
+    if (!isLoading && (!user || !isResponder)) {
+      navigate("/");
+    }
+  }, [user, isResponder, isLoading, navigate]);
+
+  const updateParam = (key: string, value: string, fallback: string) => {
+    const params = new URLSearchParams(searchParams);
+    if (value === fallback) params.delete(key);
+    else params.set(key, value);
+    setSearchParams(params, { replace: true });
+  };
+
+  const fetchInbox = async () => {
+    if (!user) return;
+    setIsLoadingData(true);
+
+    const baseQuery = () => supabase.from('questions').select(INBOX_COLUMNS);
+
+    const applyFilters = (query: ReturnType<typeof baseQuery>) => {
+      if (statusFilter === 'active') query = query.in('status', ACTIVE_STATUSES);
+      else if (statusFilter !== 'all') query = query.eq('status', statusFilter);
+
+      const days = AGE_FILTERS[ageFilter].days;
+      if (days) query = query.lt('created_at', subDays(new Date(), days).toISOString());
+
+      // Oldest first, so whatever has waited longest is at the top
+      return query.order('created_at', { ascending: true }).limit(LIMIT);
+    };
+
+    const { data: memberships, error: membershipsError } = await supabase
+      .from('department_admins')
+      .select('department_id')
+      .eq('user_id', user.id);
+
+    if (membershipsError) {
+      console.error('Error fetching departments:', membershipsError);
+    }
+
+    const departmentIds = memberships?.map(m => m.department_id) ?? [];
+    setHasDepartments(departmentIds.length > 0);
+
+    const [mine, open] = await Promise.all([
+      applyFilters(baseQuery().eq('assignee_id', user.id)),
+      departmentIds.length > 0
+        ? applyFilters(baseQuery().is('assignee_id', null).in('department_id', departmentIds))
+        : null,
+    ]);
+
+    if (mine.error) {
+      console.error('Error fetching assigned questions:', mine.error);
+    } else {
+      setAssigned(mine.data as InboxQuestion[]);
+    }
+
+    if (open?.error) {
+      console.error('Error fetching unassigned questions:', open.error);
+    } else {
+      setUnassigned((open?.data ?? []) as InboxQuestion[]);
+    }
+
+    setIsLoadingData(false);
+  };
+
+  useEffect(() => {
+    if (user && isResponder) {
+      fetchInbox();
+    }
+  }, [user, isResponder, statusFilter, ageFilter]);
+
+  const handleTake = async (question: InboxQuestion) => {
+    if (!user) return;
+    setTakingId(question.id);
+
+    const { error } = await supabase.rpc('assign_question', { _question_id: question.id, _assignee_id: user.id });
+
+    if (error) {
+      toast({ title: "Failed to take question", description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: "Assigned to you" });
+      fetchInbox();
+    }
+    setTakingId(null);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-pulse text-muted-foreground">Loading...</div>
+      </div>
+    );
+  }
+
+  const renderList = (questions: InboxQuestion[], empty: { title: string; description: string }, canTake: boolean) => {
+    if (isLoadingData) {
+      return (
+        <div className="space-y-3">
+          {[1, 2, 3].map(i => (
+            <div key={i} className="h-20 bg-card rounded-lg animate-pulse" />
+          ))}
+        </div>
+      );
+    }
+
+    if (questions.length === 0) {
+      return (
+        <div className="text-center py-12 text-muted-foreground bg-card rounded-lg border border-border/50">
+          <p className="text-lg mb-1">{empty.title}</p>
+          <p className="text-sm">{empty.description}</p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-3">
+        {questions.map(question => {
+          const answersCount = question.answers[0]?.count ?? 0;
+
+          return (
+            <Card key={question.id} className="p-4 border-border/50">
+              <div className="flex items-start justify-between gap-3 mb-2">
+                <Link to={`/question/${question.id}`} className="group">
+                  <h3 className="font-semibold text-foreground group-hover:text-accent transition-colors line-clamp-2">
+                    {question.title}
+                  </h3>
+                </Link>
+                {canTake ? (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleTake(question)}
+                    disabled={takingId === question.id}
+                    className="gap-1.5 shrink-0"
+                  >
+                    <Hand className="w-4 h-4" />
+                    Take
+                  </Button>
+                ) : (
+                  question.department && <DepartmentBadge name={question.department.name} />
+                )}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-muted-foreground">
+                <StatusBadge status={question.status} questionId={question.id} />
+                <SlaBadge question={question} />
+
+                <div className="flex items-center gap-1">
+                  <Clock className="w-3.5 h-3.5" />
+                  <span>Asked {formatDistanceToNow(new Date(question.created_at), { addSuffix: true })}</span>
+                </div>
+
+                {!canTake && question.assigned_at && (
+                  <div className="flex items-center gap-1">
+                    <Hourglass className="w-3.5 h-3.5" />
+                    <span>Yours since {formatDistanceToNow(new Date(question.assigned_at), { addSuffix: true })}</span>
+                  </div>
+                )}
+
+                <div className="flex items-center gap-1">
+                  <MessageSquare className="w-3.5 h-3.5" />
+                  <span>{answersCount} {answersCount === 1 ? "answer" : "answers"}</span>
+                </div>
+
+                {canTake && question.department && <DepartmentBadge name={question.department.name} />}
+              </div>
+            </Card>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header
+        user={profile ? { email: profile.email, full_name: profile.full_name || undefined, avatar_url: profile.avatar_url || undefined } : null}
+        isAdmin={isAdmin}
+      />
+
+      <main className="container max-w-3xl mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-foreground mb-2">Inbox</h1>
+          <p className="text-muted-foreground">
+            Questions assigned to you, and questions in your departments that nobody has taken yet
+          </p>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-3 mb-6">
+          <Select value={statusFilter} onValueChange={(value) => updateParam("status", value, "active")}>
+            <SelectTrigger className="w-full sm:w-[180px]">
+              <Filter className="w-4 h-4 mr-2" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="active">Needs attention</SelectItem>
+              <SelectItem value="all">Any status</SelectItem>
+              {QUESTION_STATUSES.map(status => (
+                <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={ageFilter} onValueChange={(value) => updateParam("age", value, "any")}>
+            <SelectTrigger className="w-full sm:w-[180px]">
+              <Clock className="w-4 h-4 mr-2" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(AGE_FILTERS).map(([value, { label }]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Tabs value={tab} onValueChange={(value) => updateParam("tab", value, "assigned")}>
+          <TabsList className="mb-6">
+            <TabsTrigger value="assigned">
+              Assigned to me{!isLoadingData && ` (${assigned.length})`}
+            </TabsTrigger>
+            <TabsTrigger value="unassigned">
+              Unassigned{!isLoadingData && ` (${unassigned.length})`}
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="assigned">
+            {renderList(assigned, {
+              title: "Nothing assigned to you",
+              description: "Questions you take or are given will show up here",
+            }, false)}
+          </TabsContent>
+
+          <TabsContent value="unassigned">
+            {renderList(unassigned, hasDepartments ? {
+              title: "No unassigned questions",
+              description: "Every question in your departments has someone on it",
+            } : {
+              title: "You're not in any department",
+              description: "Ask an admin to add you to a department to see its unassigned questions",
+            }, true)}
+          </TabsContent>
+        </Tabs>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,338 @@
+import { useState, useEffect, ReactNode } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { ArrowDown, ArrowUp, Clock, EyeOff, FileQuestion, MessageCircle, MessageSquare, ThumbsUp } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Header } from "@/components/Header";
+import { DepartmentBadge } from "@/components/DepartmentBadge";
+import { StatusBadge } from "@/components/StatusBadge";
+import { MarkdownExcerpt } from "@/components/Markdown";
+import { OwnerKeyCard } from "@/components/OwnerKeyCard";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { getOwnedQuestions } from "@/lib/ownership";
+import { changesSinceVisit, getQuestionVisits, QuestionVisit } from "@/lib/visits";
+import { statusLabel } from "@/lib/question-status";
+import { formatDistanceToNow } from "date-fns";
+
+interface ActivityQuestion {
+  id: string;
+  title: string;
+  status: string;
+  is_anonymous: boolean;
+  created_at: string;
+  department: { name: string } | null;
+  answers: { count: number }[];
+}
+
+interface CommentActivity {
+  id: string;
+  content: string;
+  is_anonymous: boolean;
+  created_at: string;
+  question_id: string;
+}
+
+interface VoteActivity {
+  key: string;
+  question_id: string;
+  vote_type: string;
+  target: 'question' | 'answer';
+  created_at: string;
+}
+
+const QUESTION_COLUMNS = 'id, title, status, is_anonymous, created_at, department:departments(name), answers(count)';
+
+const TABS = ['asked', 'anonymous', 'comments', 'votes'] as const;
+type ActivityTab = typeof TABS[number];
+
+const answersCountOf = (question: ActivityQuestion) => question.answers[0]?.count ?? 0;
+
+const byNewest = <T extends { created_at: string }>(a: T, b: T) =>
+  new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+
+function ActivityItem({
+  question,
+  visit,
+  children,
+}: {
+  question: ActivityQuestion;
+  visit?: QuestionVisit;
+  children?: ReactNode;
+}) {
+  const answersCount = answersCountOf(question);
+  const { newAnswers, previousStatus } = changesSinceVisit(visit, { status: question.status, answersCount });
+
+  return (
+    <Card className="p-4 hover:shadow-elegant transition-all duration-300 animate-fade-in border-border/50">
+      <div className="flex items-start justify-between gap-3 mb-2">
+        <Link to={`/question/${question.id}`} className="group">
+          <h3 className="font-semibold text-foreground group-hover:text-accent transition-colors line-clamp-2">
+            {question.title}
+          </h3>
+        </Link>
+        {question.department && <DepartmentBadge name={question.department.name} />}
+      </div>
+
+      {children}
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-muted-foreground">
+        <div className="flex items-center gap-1">
+          <MessageSquare className="w-3.5 h-3.5" />
+          <span>{answersCount} {answersCount === 1 ? "answer" : "answers"}</span>
+        </div>
+
+        <div className="flex items-center gap-1">
+          <Clock className="w-3.5 h-3.5" />
+          <span>{formatDistanceToNow(new Date(question.created_at), { addSuffix: true })}</span>
+        </div>
+
+        <StatusBadge status={question.status} questionId={question.id} />
+
+        {newAnswers > 0 && (
+          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-primary text-primary-foreground">
+            {newAnswers} new {newAnswers === 1 ? "answer" : "answers"}
+          </span>
+        )}
+
+        {previousStatus && (
+          <span className="px-2 py-0.5 rounded-full text-xs font-medium border border-primary/40 text-primary">
+            Was {statusLabel(previousStatus)}
+          </span>
+        )}
+      </div>
+    </Card>
+  );
+}
+
+function EmptyState({ title, description }: { title: string; description: string }) {
+  return (
+    <div className="text-center py-12 text-muted-foreground bg-card rounded-lg border border-border/50">
+      <p className="text-lg mb-1">{title}</p>
+      <p className="text-sm">{description}</p>
+    </div>
+  );
+}
+
+export default function MyActivity() {
+  const { user, profile, isAdmin, isLoading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tabParam = searchParams.get("tab") as ActivityTab | null;
+  const tab: ActivityTab = tabParam && TABS.includes(tabParam) ? tabParam : 'asked';
+
+  const [questionsById, setQuestionsById] = useState<Map<string, ActivityQuestion>>(new Map());
+  const [askedIds, setAskedIds] = useState<string[]>([]);
+  const [anonymousIds, setAnonymousIds] = useState<string[]>([]);
+  const [comments, setComments] = useState<CommentActivity[]>([]);
+  const [votes, setVotes] = useState<VoteActivity[]>([]);
+  // Snapshot taken on load so the highlights don't change while reading
+  const [visits, setVisits] = useState<Record<string, QuestionVisit>>({});
+  const [isLoadingData, setIsLoadingData] = useState(true);
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      navigate("/auth");
+    }
+  }, [user, isLoading, navigate]);
+
+  const fetchActivity = async () => {
+    if (!user) return;
+    setIsLoadingData(true);
+    setVisits(getQuestionVisits(user.id));
+
+    try {
+      const [asked, owned, myComments, questionVotes, answerVotes] = await Promise.all([
+        supabase.from('questions').select(QUESTION_COLUMNS).eq('author_id', user.id),
+        getOwnedQuestions(user.id),
+        supabase.rpc('get_my_comments'),
+        supabase.from('votes').select('question_id, vote_type, created_at').eq('user_id', user.id),
+        supabase.from('answer_votes').select('answer_id, vote_type, created_at, answer:answers(question_id)').eq('user_id', user.id),
+      ]);
+
+      if (asked.error) throw asked.error;
+      if (myComments.error) throw myComments.error;
+      if (questionVotes.error) throw questionVotes.error;
+      if (answerVotes.error) throw answerVotes.error;
+
+      const voteActivity: VoteActivity[] = [
+        ...questionVotes.data.map(v => ({
+          key: `question-${v.question_id}`,
+          question_id: v.question_id,
+          vote_type: v.vote_type,
+          target: 'question' as const,
+          created_at: v.created_at,
+        })),
+        ...answerVotes.data.filter(v => v.answer).map(v => ({
+          key: `answer-${v.answer_id}`,
+          question_id: v.answer!.question_id,
+          vote_type: v.vote_type,
+          target: 'answer' as const,
+          created_at: v.created_at,
+        })),
+      ].sort(byNewest);
+
+      const questions = new Map<string, ActivityQuestion>();
+      (asked.data as ActivityQuestion[]).forEach(q => questions.set(q.id, q));
+
+      // Fetch every other question the activity refers to in one go
+      const missingIds = [...new Set([
+        ...owned.map(o => o.questionId),
+        ...myComments.data.map(c => c.question_id),
+        ...voteActivity.map(v => v.question_id),
+      ])].filter(id => !questions.has(id));
+
+      if (missingIds.length > 0) {
+        const { data, error } = await supabase.from('questions').select(QUESTION_COLUMNS).in('id', missingIds);
+        if (error) throw error;
+        (data as ActivityQuestion[]).forEach(q => questions.set(q.id, q));
+      }
+
+      setQuestionsById(questions);
+      setAskedIds((asked.data as ActivityQuestion[]).sort(byNewest).map(q => q.id));
+      setAnonymousIds(owned
+        .map(o => questions.get(o.questionId))
+        .filter((q): q is ActivityQuestion => !!q)
+        .sort(byNewest)
+        .map(q => q.id));
+      setComments(myComments.data);
+      setVotes(voteActivity);
+    } catch (error) {
+      console.error('Error fetching activity:', error);
+      toast({ title: "Failed to load your activity", variant: "destructive" });
+    }
+
+    setIsLoadingData(false);
+  };
+
+  useEffect(() => {
+    if (user) {
+      fetchActivity();
+    }
+  }, [user]);
+
+  const renderQuestions = (ids: string[]) => ids.map(id => {
+    const question = questionsById.get(id);
+    return question && <ActivityItem key={id} question={question} visit={visits[id]} />;
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-pulse text-muted-foreground">Loading...</div>
+      </div>
+    );
+  }
+
+  const tabTriggerClass = "gap-2 data-[state=active]:bg-primary data-[state=active]:text-primary-foreground data-[state=active]:shadow-md rounded-md transition-all";
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header
+        user={profile ? { email: profile.email, full_name: profile.full_name || undefined, avatar_url: profile.avatar_url || undefined } : null}
+        isAdmin={isAdmin}
+      />
+
+      <main className="container max-w-3xl mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-foreground mb-2">My activity</h1>
+          <p className="text-muted-foreground">
+            What you've asked, commented on and voted for. Only you can see this page.
+          </p>
+        </div>
+
+        <Tabs value={tab} onValueChange={(value) => setSearchParams({ tab: value })} className="space-y-6">
+          <TabsList className="grid w-full grid-cols-4 h-12 bg-muted/50 p-1 rounded-lg">
+            <TabsTrigger value="asked" className={tabTriggerClass}>
+              <FileQuestion className="w-4 h-4" />
+              <span className="hidden sm:inline">Asked</span>
+            </TabsTrigger>
+            <TabsTrigger value="anonymous" className={tabTriggerClass}>
+              <EyeOff className="w-4 h-4" />
+              <span className="hidden sm:inline">Anonymous</span>
+            </TabsTrigger>
+            <TabsTrigger value="comments" className={tabTriggerClass}>
+              <MessageCircle className="w-4 h-4" />
+              <span className="hidden sm:inline">Comments</span>
+            </TabsTrigger>
+            <TabsTrigger value="votes" className={tabTriggerClass}>
+              <ThumbsUp className="w-4 h-4" />
+              <span className="hidden sm:inline">Votes</span>
+            </TabsTrigger>
+          </TabsList>
+
+          {isLoadingData ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map(i => (
+                <div key={i} className="h-20 bg-card rounded-lg animate-pulse" />
+              ))}
+            </div>
+          ) : (
+            <>
+              <TabsContent value="asked" className="space-y-3 mt-0">
+                {askedIds.length === 0 ? (
+                  <EmptyState title="No questions yet" description="Questions you ask with your name will show up here" />
+                ) : renderQuestions(askedIds)}
+              </TabsContent>
+
+              <TabsContent value="anonymous" className="space-y-6 mt-0">
+                <div className="space-y-3">
+                  {anonymousIds.length === 0 ? (
+                    <EmptyState
+                      title="No anonymous questions"
+                      description="Anonymous questions asked from this browser, or with your recovery key, show up here"
+                    />
+                  ) : renderQuestions(anonymousIds)}
+                </div>
+                {user && <OwnerKeyCard userId={user.id} onKeyChanged={fetchActivity} />}
+              </TabsContent>
+
+              <TabsContent value="comments" className="space-y-3 mt-0">
+                {comments.length === 0 ? (
+                  <EmptyState title="No comments yet" description="Comments and replies you post will show up here" />
+                ) : comments.map(comment => {
+                  const question = questionsById.get(comment.question_id);
+                  return question && (
+                    <ActivityItem key={comment.id} question={question} visit={visits[question.id]}>
+                      <div className="mb-3 pl-3 border-l-2 border-border">
+                        <MarkdownExcerpt content={comment.content} className="text-sm text-foreground/80 line-clamp-2" />
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {comment.is_anonymous ? "Posted anonymously" : "Posted with your name"}{" "}
+                          {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+                        </p>
+                      </div>
+                    </ActivityItem>
+                  );
+                })}
+              </TabsContent>
+
+              <TabsContent value="votes" className="space-y-3 mt-0">
+                {votes.length === 0 ? (
+                  <EmptyState title="No votes yet" description="Questions and answers you vote on will show up here" />
+                ) : votes.map(vote => {
+                  const question = questionsById.get(vote.question_id);
+                  return question && (
+                    <ActivityItem key={vote.key} question={question} visit={visits[question.id]}>
+                      <p className="flex items-center gap-1.5 mb-3 text-sm text-muted-foreground">
+                        {vote.vote_type === 'up' ? (
+                          <ArrowUp className="w-4 h-4 text-success" />
+                        ) : (
+                          <ArrowDown className="w-4 h-4 text-destructive" />
+                        )}
+                        You {vote.vote_type === 'up' ? "upvoted" : "downvoted"}{" "}
+                        {vote.target === 'question' ? "this question" : "an answer"}{" "}
+                        {formatDistanceToNow(new Date(vote.created_at), { addSuffix: true })}
+                      </p>
+                    </ActivityItem>
+                  );
+                })}
+              </TabsContent>
+            </>
+          )}
+        </Tabs>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { ArrowLeft, Bell, Mail } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Header } from "@/components/Header";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import {
+  findPreference,
+  FREQUENCY_LABELS,
+  NotificationPreference,
+  PREFERENCE_EVENTS,
+  PreferenceChannel,
+  PreferenceEventType,
+  PreferenceFrequency,
+} from "@/lib/notification-preferences";
+
+export default function NotificationSettings() {
+  const { user, profile, isAdmin, isLoading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [preferences, setPreferences] = useState<NotificationPreference[]>([]);
+  const [isLoadingData, setIsLoadingData] = useState(true);
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      navigate("/auth");
+    }
+  }, [user, isLoading, navigate]);
+
+  useEffect(() => {
+    if (user) {
+      fetchPreferences();
+    }
+  }, [user]);
+
+  const fetchPreferences = async () => {
+    const { data, error } = await supabase.rpc('get_my_notification_preferences');
+
+    if (error) {
+      console.error('Error fetching notification preferences:', error);
+    } else {
+      setPreferences(data as NotificationPreference[]);
+    }
+    setIsLoadingData(false);
+  };
+
+  const updatePreference = async (
+    eventType: PreferenceEventType,
+    channel: PreferenceChannel,
+    changes: Partial<Pick<NotificationPreference, 'enabled' | 'frequency'>>
+  ) => {
+    if (!user) return;
+
+    const current = findPreference(preferences, eventType, channel);
+    if (!current) return;
+
+    const updated = { ...current, ...changes };
+    setPreferences(prev => prev.map(p => p === current ? updated : p));
+
+    const { error } = await supabase
+      .from('notification_preferences')
+      .upsert({
+        user_id: user.id,
+        event_type: eventType,
+        channel,
+        enabled: updated.enabled,
+        frequency: updated.frequency,
+      });
+
+    if (error) {
+      setPreferences(prev => prev.map(p => p === updated ? current : p));
+      toast({ title: "Failed to save preference", variant: "destructive" });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-pulse text-muted-foreground">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header
+        user={profile ? { email: profile.email, full_name: profile.full_name || undefined, avatar_url: profile.avatar_url || undefined } : null}
+        isAdmin={isAdmin}
+      />
+
+      <main className="container max-w-3xl mx-auto px-4 py-8">
+        <Link
+          to="/notifications"
+          className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground mb-6 transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back to notifications
+        </Link>
+
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-foreground mb-2">Notification settings</h1>
+          <p className="text-muted-foreground">
+            Choose what you hear about, and whether emails arrive right away or as a digest
+          </p>
+        </div>
+
+        {isLoadingData ? (
+          <div className="space-y-4">
+            {[1, 2, 3, 4].map(i => (
+              <div key={i} className="h-32 bg-card rounded-lg animate-pulse" />
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {PREFERENCE_EVENTS.map(event => {
+              const inApp = findPreference(preferences, event.type, 'in_app');
+              const email = findPreference(preferences, event.type, 'email');
+
+              return (
+                <Card key={event.type} className="border-border/50">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-base">{event.label}</CardTitle>
+                    <CardDescription>{event.description}</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div className="flex items-center justify-between gap-4 min-h-9">
+                      <div className="flex items-center gap-2 text-sm">
+                        <Bell className="w-4 h-4 text-muted-foreground" />
+                        In-app
+                      </div>
+                      <Switch
+                        checked={inApp?.enabled ?? false}
+                        onCheckedChange={(enabled) => updatePreference(event.type, 'in_app', { enabled })}
+                        aria-label={`${event.label} in-app`}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between gap-4 min-h-9">
+                      <div className="flex items-center gap-2 text-sm">
+                        <Mail className="w-4 h-4 text-muted-foreground" />
+                        Email
+                      </div>
+                      <div className="flex items-center gap-3">
+                        {email?.enabled && (
+                          <Select
+                            value={email.frequency}
+                            onValueChange={(frequency) =>
+                              updatePreference(event.type, 'email', { frequency: frequency as PreferenceFrequency })
+                            }
+                          >
+                            <SelectTrigger className="w-36 h-9">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                                <SelectItem key={value} value={value}>{label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                        <Switch
+                          checked={email?.enabled ?? false}
+                          onCheckedChange={(enabled) => updatePreference(event.type, 'email', { enabled })}
+                          aria-label={`${event.label} by email`}
+                        />
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        <p className="text-xs text-muted-foreground mt-6">
+          Daily digests are sent at 08:00 UTC, weekly digests on Mondays.
+        </p>
+      </main>
+    </div>
+  );
+}
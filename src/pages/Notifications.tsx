@@ -0,0 +1,85 @@
+import { useEffect } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { CheckCheck, Settings } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Header } from "@/components/Header";
+import { NotificationItem } from "@/components/NotificationItem";
+import { useAuth } from "@/hooks/useAuth";
+import { useNotifications } from "@/hooks/use-notifications";
+import { AppNotification } from "@/lib/notifications";
+
+export default function Notifications() {
+  const { user, profile, isAdmin, isLoading } = useAuth();
+  const navigate = useNavigate();
+  const { notifications, unreadCount, isLoading: isLoadingData, markRead, markAllRead } = useNotifications(100);
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      navigate("/auth");
+    }
+  }, [user, isLoading, navigate]);
+
+  const handleSelect = (notification: AppNotification) => {
+    markRead([notification.id]);
+    navigate(`/question/${notification.question_id}`);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-pulse text-muted-foreground">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header
+        user={profile ? { email: profile.email, full_name: profile.full_name || undefined, avatar_url: profile.avatar_url || undefined } : null}
+        isAdmin={isAdmin}
+      />
+
+      <main className="container max-w-3xl mx-auto px-4 py-8">
+        <div className="flex items-end justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground mb-2">Notifications</h1>
+            <p className="text-muted-foreground">
+              {unreadCount > 0 ? `${unreadCount} unread` : "You're all caught up"}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={markAllRead} disabled={unreadCount === 0} className="gap-2">
+              <CheckCheck className="w-4 h-4" />
+              Mark all read
+            </Button>
+            <Button asChild variant="ghost" size="icon" aria-label="Notification settings">
+              <Link to="/settings/notifications">
+                <Settings className="w-4 h-4" />
+              </Link>
+            </Button>
+          </div>
+        </div>
+
+        {isLoadingData ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map(i => (
+              <div key={i} className="h-14 bg-card rounded-lg animate-pulse" />
+            ))}
+          </div>
+        ) : notifications.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground bg-card rounded-lg border border-border/50">
+            <p className="text-lg mb-1">No notifications yet</p>
+            <p className="text-sm">You'll hear about answers and comments on your questions here</p>
+          </div>
+        ) : (
+          <Card className="p-1 border-border/50">
+            {notifications.map(notification => (
+              <NotificationItem key={notification.id} notification={notification} onSelect={handleSelect} />
+            ))}
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
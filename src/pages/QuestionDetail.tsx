@@ -1,16 +1,41 @@
-import { useState, useEffect } from "react";
-import { useParams, useNavigate } from "react-router-dom";
-import { ArrowLeft, User, Clock, Send } from "lucide-react";
+import { useState, useEffect, useRef } from "react";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
+import { ArrowLeft, User, Clock, Send, Pencil, MessageSquare, Lock, LockOpen, CircleDot, ChevronDown, UserCheck, ArrowRightLeft } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Header } from "@/components/Header";
 import { VoteButtons } from "@/components/VoteButtons";
 import { DepartmentBadge } from "@/components/DepartmentBadge";
+import { StatusBadge } from "@/components/StatusBadge";
+import { FollowButton } from "@/components/FollowButton";
+import { AssigneeSelect } from "@/components/AssigneeSelect";
+import { MoveQuestionDialog } from "@/components/MoveQuestionDialog";
+import { DepartmentMoveNote } from "@/components/DepartmentMoveNote";
+import { DuplicateNote } from "@/components/DuplicateNote";
 import { AnswerCard } from "@/components/AnswerCard";
+import { RevisionHistory } from "@/components/RevisionHistory";
+import { Markdown } from "@/components/Markdown";
+import { MarkdownEditor } from "@/components/MarkdownEditor";
+import { AttachmentList } from "@/components/AttachmentList";
+import { AttachmentPicker } from "@/components/AttachmentPicker";
+import { CommentThread } from "@/components/CommentThread";
 import { useAuth } from "@/hooks/useAuth";
+import { useAttachmentUploads } from "@/hooks/use-attachment-uploads";
 import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
 import { useToast } from "@/hooks/use-toast";
+import { getOwnerToken, withOwnerToken } from "@/lib/ownership";
+import { recordQuestionVisit } from "@/lib/visits";
+import { canTransition, nextStatuses, statusLabel } from "@/lib/question-status";
 import { formatDistanceToNow } from "date-fns";
 import { cn } from "@/lib/utils";
 
@@ -23,7 +48,21 @@ interface Question {
   upvotes: number;
   downvotes: number;
   created_at: string;
-  department: { name: string } | null;
+  edited_at: string | null;
+  assignee_id: string | null;
+  duplicate_of_id: string | null;
+  department: { id: string; name: string } | null;
+  author: { full_name: string | null; avatar_url: string | null } | null;
+  assignee: { full_name: string | null } | null;
+}
+
+interface Comment {
+  id: string;
+  content: string;
+  is_anonymous: boolean;
+  created_at: string;
+  edited_at: string | null;
+  parent_id: string | null;
   author: { full_name: string | null; avatar_url: string | null } | null;
 }
 
@@ -31,28 +70,67 @@ interface Answer {
   id: string;
   content: string;
   is_official: boolean;
+  is_accepted: boolean;
+  upvotes: number;
+  downvotes: number;
+  userVote: 'up' | 'down' | null;
   created_at: string;
-  author: { full_name: string | null; avatar_url: string | null; email: string } | null;
-  comments: {
-    id: string;
-    content: string;
-    is_anonymous: boolean;
-    created_at: string;
-    author: { full_name: string | null; avatar_url: string | null } | null;
-  }[];
+  edited_at: string | null;
+  author_id: string;
+  author: { full_name: string | null; avatar_url: string | null; email?: string } | null;
+  comments: Comment[];
 }
 
+// Accepted answer first, then official answers, then oldest first (matches fetchAnswers ordering)
+const sortAnswers = (answers: Answer[]) =>
+  [...answers].sort((a, b) =>
+    Number(b.is_accepted) - Number(a.is_accepted) ||
+    Number(b.is_official) - Number(a.is_official) ||
+    new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+
+const fetchPublicProfile = async (userId: string | null) => {
+  if (!userId) return null;
+
+  const { data } = await supabase
+    .from('profiles_public')
+    .select('full_name, avatar_url')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return data;
+};
+
 export default function QuestionDetail() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const { toast } = useToast();
-  const { user, profile, isAdmin, isResponder, isLoading } = useAuth();
+  const { user, profile, isAdmin, isResponder, adminDepartmentIds, isDepartmentAdmin, isLoading } = useAuth();
   const [question, setQuestion] = useState<Question | null>(null);
   const [answers, setAnswers] = useState<Answer[]>([]);
   const [userVote, setUserVote] = useState<'up' | 'down' | null>(null);
+  const [isOwner, setIsOwner] = useState(false);
+  // Proves ownership of an anonymous question; null for named questions
+  const [ownerToken, setOwnerToken] = useState<string | null>(null);
+  const [isClosing, setIsClosing] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editTitle, setEditTitle] = useState("");
+  const [editContent, setEditContent] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
   const [newAnswer, setNewAnswer] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isLoadingData, setIsLoadingData] = useState(true);
+  const [questionComments, setQuestionComments] = useState<Comment[]>([]);
+  const [showQuestionComments, setShowQuestionComments] = useState(false);
+  const [ownCommentIds, setOwnCommentIds] = useState<Set<string>>(new Set());
+  const [attachments, setAttachments] = useState<Tables<'attachments'>[]>([]);
+  const answerAttachments = useAttachmentUploads();
+  const answerIdsRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    answerIdsRef.current = new Set(answers.map(a => a.id));
+  }, [answers]);
 
   useEffect(() => {
     if (!isLoading && !user) {
@@ -74,8 +152,11 @@ export default function QuestionDetail() {
         upvotes,
         downvotes,
         created_at,
+        edited_at,
         author_id,
-        department:departments(name)
+        assignee_id,
+        duplicate_of_id,
+        department:departments(id, name)
       `)
       .eq('id', id)
       .single();
@@ -86,6 +167,12 @@ export default function QuestionDetail() {
       return;
     }
 
+    // Readers of a duplicate are sent on to the question it duplicates
+    if (questionData.duplicate_of_id && searchParams.get('redirect') !== 'no') {
+      navigate(`/question/${questionData.duplicate_of_id}?from=${questionData.id}`, { replace: true });
+      return;
+    }
+
     // Fetch author profile if exists
     let authorData = null;
     // Use profiles_public view to avoid exposing email addresses
@@ -98,7 +185,17 @@ export default function QuestionDetail() {
       authorData = data;
     }
 
-    setQuestion({ ...questionData, author: authorData } as any);
+    let assigneeData = null;
+    if (questionData.assignee_id) {
+      const { data } = await supabase
+        .from('profiles_public')
+        .select('full_name')
+        .eq('user_id', questionData.assignee_id)
+        .single();
+      assigneeData = data;
+    }
+
+    setQuestion({ ...questionData, author: authorData, assignee: assigneeData } as any);
 
     // Fetch user vote
     const { data: voteData } = await supabase
@@ -109,9 +206,43 @@ export default function QuestionDetail() {
       .single();
 
     setUserVote(voteData?.vote_type as 'up' | 'down' | null);
+
+    const token = questionData.is_anonymous
+      ? await getOwnerToken(user.id, id).catch(() => null)
+      : null;
+    setOwnerToken(token);
+
+    const { data: ownerData } = await withOwnerToken(
+      supabase.rpc('is_question_owner', { _question_id: id }),
+      token
+    );
+    setIsOwner(!!ownerData);
+
     setIsLoadingData(false);
   };
 
+  // Attachments on the question and on the given answers, in upload order
+  const fetchAttachments = async (answerIds: string[]) => {
+    if (!id) return;
+
+    const filter = answerIds.length > 0
+      ? `question_id.eq.${id},answer_id.in.(${answerIds.join(',')})`
+      : `question_id.eq.${id}`;
+
+    const { data, error } = await supabase
+      .from('attachments')
+      .select('*')
+      .or(filter)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching attachments:', error);
+      return;
+    }
+
+    setAttachments(data);
+  };
+
   const fetchAnswers = async () => {
     if (!id) return;
 
@@ -121,19 +252,27 @@ export default function QuestionDetail() {
         id,
         content,
         is_official,
+        is_accepted,
+        upvotes,
+        downvotes,
         created_at,
+        edited_at,
         author_id,
-        comments(id, content, is_anonymous, created_at, author_id)
+        comments(id, content, is_anonymous, created_at, edited_at, parent_id, author_id)
       `)
       .eq('question_id', id)
+      .order('is_accepted', { ascending: false })
       .order('is_official', { ascending: false })
-      .order('created_at', { ascending: true });
+      .order('created_at', { ascending: true })
+      .order('created_at', { referencedTable: 'comments', ascending: true });
 
     if (!answersData) {
       setAnswers([]);
       return;
     }
 
+    fetchAttachments(answersData.map(a => a.id));
+
     // Fetch all author profiles
     const allAuthorIds = [
       ...answersData.map(a => a.author_id),
@@ -148,8 +287,23 @@ export default function QuestionDetail() {
 
     const profilesMap = new Map(profilesData?.map(p => [p.user_id, p]) || []);
 
+    // Fetch the current user's votes on these answers
+    const votesMap = new Map<string, 'up' | 'down'>();
+    if (user && answersData.length > 0) {
+      const { data: votesData } = await supabase
+        .from('answer_votes')
+        .select('answer_id, vote_type')
+        .eq('user_id', user.id)
+        .in('answer_id', answersData.map(a => a.id));
+
+      votesData?.forEach(v => {
+        votesMap.set(v.answer_id, v.vote_type as 'up' | 'down');
+      });
+    }
+
     const formattedAnswers = answersData.map(a => ({
       ...a,
+      userVote: votesMap.get(a.id) || null,
       author: profilesMap.get(a.author_id) || null,
       comments: a.comments.map(c => ({
         ...c,
@@ -160,33 +314,244 @@ export default function QuestionDetail() {
     setAnswers(formattedAnswers as any);
   };
 
+  const fetchQuestionComments = async () => {
+    if (!id) return;
+
+    const { data, error } = await supabase
+      .from('comments')
+      .select('id, content, is_anonymous, created_at, edited_at, parent_id, author_id')
+      .eq('question_id', id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching comments:', error);
+      return;
+    }
+
+    // Use profiles_public view to avoid exposing email addresses
+    const { data: profilesData } = await supabase
+      .from('profiles_public')
+      .select('user_id, full_name, avatar_url')
+      .in('user_id', data.map(c => c.author_id).filter(Boolean));
+
+    const profilesMap = new Map(profilesData?.map(p => [p.user_id, p]) || []);
+
+    setQuestionComments(data.map(c => {
+      const profile = c.author_id ? profilesMap.get(c.author_id) : undefined;
+      return {
+        ...c,
+        author: profile ? { full_name: profile.full_name, avatar_url: profile.avatar_url } : null,
+      };
+    }));
+  };
+
+  // Which comments in this thread the current user wrote, including anonymous ones
+  const fetchOwnCommentIds = async () => {
+    if (!id) return;
+
+    const { data, error } = await supabase.rpc('get_own_comment_ids', { _question_id: id });
+
+    if (error) {
+      console.error('Error fetching own comments:', error);
+      return;
+    }
+
+    setOwnCommentIds(new Set(data));
+  };
+
+  const refreshComments = () => {
+    fetchAnswers();
+    fetchQuestionComments();
+    fetchOwnCommentIds();
+  };
+
   useEffect(() => {
     if (user && id) {
       fetchQuestion();
       fetchAnswers();
+      fetchQuestionComments();
+      fetchOwnCommentIds();
     }
   }, [user, id]);
 
+  // Remember what was seen so My activity can point out later changes
+  useEffect(() => {
+    if (!user || !question || isLoadingData) return;
+    recordQuestionVisit(user.id, question.id, { status: question.status, answersCount: answers.length });
+  }, [user, question?.id, question?.status, answers.length, isLoadingData]);
+
+  // Merge other people's changes into state as they happen
+  useEffect(() => {
+    if (!user || !id) return;
+
+    const channel = supabase
+      .channel(`question-${id}`)
+      .on<Tables<'questions'>>(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'questions', filter: `id=eq.${id}` },
+        ({ new: updated }) => {
+          setQuestion(prev => prev && {
+            ...prev,
+            title: updated.title,
+            content: updated.content,
+            edited_at: updated.edited_at,
+            status: updated.status || 'open',
+            upvotes: updated.upvotes,
+            downvotes: updated.downvotes,
+            duplicate_of_id: updated.duplicate_of_id,
+          });
+        }
+      )
+      .on<Tables<'questions'>>(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'questions' },
+        ({ old }) => {
+          if (old.id !== id) return;
+          toast({ title: "This question has been deleted" });
+          navigate('/questions');
+        }
+      )
+      .on<Tables<'answers'>>(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'answers', filter: `question_id=eq.${id}` },
+        async ({ new: inserted }) => {
+          const author = await fetchPublicProfile(inserted.author_id);
+          setAnswers(prev => prev.some(a => a.id === inserted.id) ? prev : sortAnswers([
+            ...prev,
+            {
+              id: inserted.id,
+              content: inserted.content,
+              is_official: inserted.is_official,
+              is_accepted: inserted.is_accepted,
+              upvotes: inserted.upvotes,
+              downvotes: inserted.downvotes,
+              userVote: null,
+              created_at: inserted.created_at,
+              edited_at: inserted.edited_at,
+              author_id: inserted.author_id,
+              author,
+              comments: [],
+            },
+          ]));
+        }
+      )
+      .on<Tables<'answers'>>(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'answers', filter: `question_id=eq.${id}` },
+        ({ new: updated }) => {
+          setAnswers(prev => sortAnswers(prev.map(a => a.id === updated.id
+            ? {
+                ...a,
+                content: updated.content,
+                edited_at: updated.edited_at,
+                is_official: updated.is_official,
+                is_accepted: updated.is_accepted,
+                upvotes: updated.upvotes,
+                downvotes: updated.downvotes,
+              }
+            : a
+          )));
+        }
+      )
+      .on<Tables<'answers'>>(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'answers' },
+        ({ old }) => {
+          setAnswers(prev => prev.filter(a => a.id !== old.id));
+        }
+      )
+      // Answer comments don't reference the question, so match them to a loaded answer
+      .on<Tables<'comments'>>(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'comments' },
+        async ({ new: inserted }) => {
+          const isQuestionComment = inserted.question_id === id;
+          if (!isQuestionComment && !(inserted.answer_id && answerIdsRef.current.has(inserted.answer_id))) return;
+
+          const author = inserted.is_anonymous ? null : await fetchPublicProfile(inserted.author_id);
+          const comment: Comment = {
+            id: inserted.id,
+            content: inserted.content,
+            is_anonymous: inserted.is_anonymous,
+            created_at: inserted.created_at,
+            edited_at: inserted.edited_at,
+            parent_id: inserted.parent_id,
+            author,
+          };
+
+          if (isQuestionComment) {
+            setQuestionComments(prev => prev.some(c => c.id === inserted.id) ? prev : [...prev, comment]);
+            return;
+          }
+
+          setAnswers(prev => prev.map(a => a.id !== inserted.answer_id || a.comments.some(c => c.id === inserted.id)
+            ? a
+            : { ...a, comments: [...a.comments, comment] }
+          ));
+        }
+      )
+      .on<Tables<'comments'>>(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'comments' },
+        ({ new: updated }) => {
+          const patch = (c: Comment) => c.id === updated.id
+            ? { ...c, content: updated.content, edited_at: updated.edited_at }
+            : c;
+
+          setQuestionComments(prev => prev.map(patch));
+          setAnswers(prev => prev.map(a => a.comments.some(c => c.id === updated.id)
+            ? { ...a, comments: a.comments.map(patch) }
+            : a
+          ));
+        }
+      )
+      .on<Tables<'comments'>>(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'comments' },
+        ({ old }) => {
+          setQuestionComments(prev => prev.filter(c => c.id !== old.id));
+          setAnswers(prev => prev.map(a => a.comments.some(c => c.id === old.id)
+            ? { ...a, comments: a.comments.filter(c => c.id !== old.id) }
+            : a
+          ));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, id]);
+
   const handleSubmitAnswer = async () => {
     if (!newAnswer.trim() || !user || !id) return;
 
     setIsSubmitting(true);
 
-    const { error } = await supabase.from('answers').insert({
-      question_id: id,
-      content: newAnswer.trim(),
-      author_id: user.id,
-      is_official: isResponder,
-    });
+    const { data, error } = await supabase
+      .from('answers')
+      .insert({
+        question_id: id,
+        content: newAnswer.trim(),
+        author_id: user.id,
+        is_official: isResponder,
+      })
+      .select('id')
+      .single();
 
     if (error) {
       toast({ title: "Failed to submit answer", variant: "destructive" });
     } else {
-      // Update question status
-      await supabase
-        .from('questions')
-        .update({ status: 'answered' })
-        .eq('id', id);
+      if (answerAttachments.pending.length > 0) {
+        const failed = await answerAttachments.uploadAll('answer', data.id, user.id);
+        if (failed > 0) {
+          toast({
+            title: `${failed} ${failed === 1 ? "attachment" : "attachments"} failed to upload`,
+            variant: "destructive",
+          });
+        }
+        answerAttachments.reset();
+      }
 
       setNewAnswer("");
       toast({ title: "Answer posted successfully!" });
@@ -197,6 +562,76 @@ export default function QuestionDetail() {
     setIsSubmitting(false);
   };
 
+  const handleStartEditing = () => {
+    if (!question) return;
+    setEditTitle(question.title);
+    setEditContent(question.content);
+    setIsEditing(true);
+  };
+
+  const handleSaveQuestion = async () => {
+    if (!id || !editTitle.trim() || !editContent.trim()) return;
+
+    setIsSaving(true);
+
+    const { error } = await withOwnerToken(
+      supabase.rpc('update_question_content', {
+        _question_id: id,
+        _title: editTitle.trim(),
+        _content: editContent.trim(),
+      }),
+      ownerToken
+    );
+
+    if (error) {
+      toast({ title: "Failed to save changes", description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: "Question updated" });
+      setIsEditing(false);
+      fetchQuestion();
+    }
+
+    setIsSaving(false);
+  };
+
+  const handleToggleClosed = async () => {
+    if (!id || !question) return;
+
+    setIsClosing(true);
+
+    const closing = question.status !== 'closed';
+    const { error } = await withOwnerToken(
+      supabase.rpc('set_question_closed', { _question_id: id, _closed: closing }),
+      ownerToken
+    );
+
+    if (error) {
+      toast({ title: "Failed to update question", description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: closing ? "Question closed" : "Question reopened" });
+      fetchQuestion();
+    }
+
+    setIsClosing(false);
+  };
+
+  const handleChangeStatus = async (status: string) => {
+    if (!id) return;
+
+    setIsClosing(true);
+
+    const { error } = await supabase.rpc('set_question_status', { _question_id: id, _status: status });
+
+    if (error) {
+      toast({ title: "Failed to update status", description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: `Marked as ${statusLabel(status).toLowerCase()}` });
+      fetchQuestion();
+    }
+
+    setIsClosing(false);
+  };
+
   if (isLoading || isLoadingData) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
@@ -213,6 +648,11 @@ export default function QuestionDetail() {
     );
   }
 
+  // Mirrors set_question_status() and assign_question()
+  const canModerate = isAdmin || (!!question.department && adminDepartmentIds.includes(question.department.id));
+  // Mirrors move_question(): questions without a department are open to any department admin
+  const canMove = canModerate || (!question.department && isDepartmentAdmin);
+
   return (
     <div className="min-h-screen bg-background">
       <Header 
@@ -235,7 +675,7 @@ export default function QuestionDetail() {
           <CardContent className="p-6">
             <div className="flex gap-4">
               <VoteButtons
-                questionId={question.id}
+                targetId={question.id}
                 upvotes={question.upvotes}
                 downvotes={question.downvotes}
                 userVote={userVote}
@@ -243,18 +683,68 @@ export default function QuestionDetail() {
               />
 
               <div className="flex-1 min-w-0">
-                <div className="flex items-start justify-between gap-3 mb-3">
-                  <h1 className="text-2xl font-bold text-foreground">
-                    {question.title}
-                  </h1>
-                  {question.department && (
-                    <DepartmentBadge name={question.department.name} />
-                  )}
-                </div>
-
-                <div className="prose prose-sm max-w-none text-foreground/90 mb-4">
-                  <p className="whitespace-pre-wrap">{question.content}</p>
-                </div>
+                {isEditing ? (
+                  <div className="space-y-3 mb-4">
+                    <Input
+                      value={editTitle}
+                      onChange={(e) => setEditTitle(e.target.value)}
+                      maxLength={200}
+                      className="text-lg font-semibold"
+                    />
+                    <MarkdownEditor
+                      value={editContent}
+                      onChange={setEditContent}
+                      className="min-h-[150px]"
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button variant="outline" size="sm" onClick={() => setIsEditing(false)} disabled={isSaving}>
+                        Cancel
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={handleSaveQuestion}
+                        disabled={isSaving || !editTitle.trim() || !editContent.trim()}
+                      >
+                        {isSaving ? "Saving..." : "Save"}
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                    <div className="flex items-start justify-between gap-3 mb-3">
+                      <h1 className="text-2xl font-bold text-foreground">
+                        {question.title}
+                      </h1>
+                      {question.department && (
+                        <DepartmentBadge name={question.department.name} departmentId={question.department.id} />
+                      )}
+                    </div>
+
+                    <DepartmentMoveNote
+                      questionId={question.id}
+                      departmentId={question.department?.id ?? null}
+                      className="-mt-1 mb-3"
+                    />
+
+                    <DuplicateNote
+                      duplicateOfId={question.duplicate_of_id}
+                      redirectedFromId={question.duplicate_of_id ? null : searchParams.get('from')}
+                      className="mb-4"
+                    />
+
+                    <Markdown content={question.content} className="mb-4" />
+                  </>
+                )}
+
+                {!isEditing && (
+                  <AttachmentList
+                    attachments={attachments.filter(a => a.question_id === question.id)}
+                    canDelete={isOwner || isAdmin}
+                    ownerToken={ownerToken}
+                    onDeleted={fetchAnswers}
+                    className="mb-4"
+                  />
+                )}
 
                 <div className="flex items-center gap-4 text-sm text-muted-foreground">
                   <div className="flex items-center gap-1.5">
@@ -269,16 +759,146 @@ export default function QuestionDetail() {
                   <div className="flex items-center gap-1.5">
                     <Clock className="w-4 h-4" />
                     <span>{formatDistanceToNow(new Date(question.created_at), { addSuffix: true })}</span>
+                    {question.edited_at && (
+                      <RevisionHistory
+                        entityType="question"
+                        entityId={question.id}
+                        editedAt={question.edited_at}
+                        currentTitle={question.title}
+                        currentContent={question.content}
+                      />
+                    )}
+                  </div>
+
+                  <StatusBadge status={question.status} questionId={question.id} />
+
+                  {(isOwner || canModerate || canMove) && !isEditing && (
+                    <div className="ml-auto flex items-center gap-1">
+                      {(isOwner || isAdmin) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={handleStartEditing}
+                          className="h-7 text-muted-foreground hover:text-foreground"
+                        >
+                          <Pencil className="w-3.5 h-3.5 mr-1.5" />
+                          Edit
+                        </Button>
+                      )}
+                      {canMove && (
+                        <MoveQuestionDialog
+                          questionId={question.id}
+                          departmentId={question.department?.id ?? null}
+                          onMoved={() => fetchQuestion()}
+                        >
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 text-muted-foreground hover:text-foreground"
+                          >
+                            <ArrowRightLeft className="w-3.5 h-3.5 mr-1.5" />
+                            Move
+                          </Button>
+                        </MoveQuestionDialog>
+                      )}
+                      {/* Moderators get the full workflow; askers can only close and reopen */}
+                      {canModerate ? (
+                        nextStatuses(question.status).length > 0 && (
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                disabled={isClosing}
+                                className="h-7 text-muted-foreground hover:text-foreground"
+                              >
+                                <CircleDot className="w-3.5 h-3.5 mr-1.5" />
+                                Status
+                                <ChevronDown className="w-3.5 h-3.5 ml-1" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuLabel>Move to</DropdownMenuLabel>
+                              <DropdownMenuSeparator />
+                              {nextStatuses(question.status).map(status => (
+                                <DropdownMenuItem key={status} onClick={() => handleChangeStatus(status)}>
+                                  {statusLabel(status)}
+                                </DropdownMenuItem>
+                              ))}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        )
+                      ) : isOwner && (question.status === 'closed' || canTransition(question.status, 'closed')) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={handleToggleClosed}
+                          disabled={isClosing}
+                          className="h-7 text-muted-foreground hover:text-foreground"
+                        >
+                          {question.status === 'closed' ? (
+                            <LockOpen className="w-3.5 h-3.5 mr-1.5" />
+                          ) : (
+                            <Lock className="w-3.5 h-3.5 mr-1.5" />
+                          )}
+                          {question.status === 'closed' ? "Reopen" : "Close"}
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                <div className="mt-4">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setShowQuestionComments(!showQuestionComments)}
+                      className="text-muted-foreground hover:text-foreground -ml-2"
+                    >
+                      <MessageSquare className="w-4 h-4 mr-1.5" />
+                      {questionComments.length} {questionComments.length === 1 ? "comment" : "comments"}
+                    </Button>
+
+                    <div className="flex flex-wrap items-center gap-2">
+                      {canModerate ? (
+                        <AssigneeSelect
+                          questionId={question.id}
+                          departmentId={question.department?.id ?? null}
+                          assigneeId={question.assignee_id}
+                          onChange={() => fetchQuestion()}
+                        />
+                      ) : question.assignee?.full_name && (
+                        <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                          <UserCheck className="w-3.5 h-3.5" />
+                          Assigned to {question.assignee.full_name}
+                        </span>
+                      )}
+                      {question.department && (
+                        <FollowButton departmentId={question.department.id} label={question.department.name} />
+                      )}
+                      {!isOwner && <FollowButton questionId={question.id} />}
+                    </div>
                   </div>
 
-                  <span className={cn(
-                    "px-2 py-0.5 rounded-full text-xs font-medium capitalize",
-                    question.status === 'open' && "bg-accent/10 text-accent",
-                    question.status === 'answered' && "bg-success/10 text-success",
-                    question.status === 'closed' && "bg-muted text-muted-foreground"
-                  )}>
-                    {question.status}
-                  </span>
+                  {showQuestionComments && (
+                    <div className="mt-4 pl-4 border-l-2 border-border">
+                      <CommentThread
+                        questionId={question.id}
+                        comments={questionComments.map(c => ({
+                          ...c,
+                          author: c.author ? {
+                            full_name: c.author.full_name || undefined,
+                            avatar_url: c.author.avatar_url || undefined,
+                          } : undefined,
+                        }))}
+                        ownCommentIds={ownCommentIds}
+                        canModerate={isAdmin}
+                        ownerToken={ownerToken}
+                        onChange={refreshComments}
+                      />
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -304,12 +924,21 @@ export default function QuestionDetail() {
                   id={answer.id}
                   content={answer.content}
                   isOfficial={answer.is_official}
+                  isAccepted={answer.is_accepted}
+                  canAccept={isOwner || isAdmin}
+                  ownerToken={ownerToken}
+                  canEdit={answer.author_id === user?.id || isAdmin}
+                  editedAt={answer.edited_at}
+                  upvotes={answer.upvotes}
+                  downvotes={answer.downvotes}
+                  userVote={answer.userVote}
                   createdAt={answer.created_at}
                   author={{
                     full_name: answer.author?.full_name || undefined,
                     avatar_url: answer.author?.avatar_url || undefined,
                     email: answer.author?.email,
                   }}
+                  attachments={attachments.filter(a => a.answer_id === answer.id)}
                   comments={answer.comments.map(c => ({
                     ...c,
                     author: c.author ? {
@@ -317,7 +946,13 @@ export default function QuestionDetail() {
                       avatar_url: c.author.avatar_url || undefined,
                     } : undefined,
                   }))}
-                  onCommentAdded={fetchAnswers}
+                  ownCommentIds={ownCommentIds}
+                  canModerate={isAdmin}
+                  onCommentsChange={refreshComments}
+                  onVoteChange={fetchAnswers}
+                  onAcceptChange={fetchAnswers}
+                  onEdited={fetchAnswers}
+                  onAttachmentsChange={fetchAnswers}
                 />
               ))}
             </div>
@@ -329,12 +964,20 @@ export default function QuestionDetail() {
           <Card className="shadow-elegant border-border/50">
             <CardContent className="p-6">
               <h3 className="font-semibold mb-3">Post an Official Answer</h3>
-              <Textarea
-                placeholder="Write your response..."
-                value={newAnswer}
-                onChange={(e) => setNewAnswer(e.target.value)}
-                className="min-h-[120px] mb-4"
-              />
+              <div className="mb-4 space-y-3">
+                <MarkdownEditor
+                  placeholder="Write your response..."
+                  value={newAnswer}
+                  onChange={setNewAnswer}
+                  className="min-h-[120px]"
+                />
+                <AttachmentPicker
+                  pending={answerAttachments.pending}
+                  onAdd={answerAttachments.addFiles}
+                  onRemove={answerAttachments.removeFile}
+                  disabled={isSubmitting}
+                />
+              </div>
               <div className="flex justify-end">
                 <Button
                   onClick={handleSubmitAnswer}
@@ -1,13 +1,17 @@
-import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
-import { Search, Filter, TrendingUp, Clock, CheckCircle } from "lucide-react";
+import { useState, useEffect, useRef } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Search, Filter, TrendingUp, Clock, CheckCircle, ArrowUp, BellRing } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Header } from "@/components/Header";
 import { QuestionCard } from "@/components/QuestionCard";
+import { FollowButton } from "@/components/FollowButton";
 import { useAuth } from "@/hooks/useAuth";
+import { useInfiniteScroll } from "@/hooks/use-infinite-scroll";
 import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Cursor, QuestionSort, QUESTION_SORT_KEYS, cursorFor, keysetFilter } from "@/lib/pagination";
 
 interface QuestionAuthor {
   full_name: string | null;
@@ -22,23 +26,33 @@ interface Question {
   upvotes: number;
   downvotes: number;
   created_at: string;
-  department: { name: string } | null;
+  updated_at: string;
+  department: { id: string; name: string } | null;
   author: QuestionAuthor | null;
-  answers: { id: string }[];
+  answersCount: number;
   userVote: 'up' | 'down' | null;
 }
 
-type SortOption = 'trending' | 'newest' | 'answered';
+const PAGE_SIZE = 20;
+
+// Department filter value for followed questions and departments
+const FOLLOWING = "following";
 
 export default function Questions() {
   const { user, profile, isAdmin, isLoading } = useAuth();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [questions, setQuestions] = useState<Question[]>([]);
   const [departments, setDepartments] = useState<{ id: string; name: string }[]>([]);
   const [search, setSearch] = useState("");
-  const [departmentFilter, setDepartmentFilter] = useState<string>("all");
-  const [sortBy, setSortBy] = useState<SortOption>("trending");
+  const [departmentFilter, setDepartmentFilter] = useState<string>(searchParams.get("department") || "all");
+  const [sortBy, setSortBy] = useState<QuestionSort>("trending");
   const [isLoadingQuestions, setIsLoadingQuestions] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [newQuestionIds, setNewQuestionIds] = useState<string[]>([]);
+  const requestIdRef = useRef(0);
+  const followedDepartmentIdsRef = useRef<string[]>([]);
 
   useEffect(() => {
     if (!isLoading && !user) {
@@ -46,11 +60,9 @@ export default function Questions() {
     }
   }, [user, isLoading, navigate]);
 
-  const fetchQuestions = async () => {
-    if (!user) return;
+  const fetchQuestionRows = async (cursor: Cursor | null, questionIds?: string[]): Promise<Question[] | null> => {
+    if (!user) return null;
 
-    setIsLoadingQuestions(true);
-    
     let query = supabase
       .from('questions')
       .select(`
@@ -62,40 +74,76 @@ export default function Questions() {
         upvotes,
         downvotes,
         created_at,
+        updated_at,
         author_id,
-        department:departments(name),
-        answers(id)
+        department:departments(id, name),
+        answers(count)
       `);
 
-    if (departmentFilter !== "all") {
-      query = query.eq('department_id', departmentFilter);
-    }
+    if (questionIds) {
+      query = query.in('id', questionIds).order('created_at', { ascending: false });
+    } else {
+      if (departmentFilter === FOLLOWING) {
+        const { data: subscriptions, error: subscriptionsError } = await supabase
+          .from('subscriptions')
+          .select('question_id, department_id');
+
+        if (subscriptionsError) {
+          console.error('Error fetching subscriptions:', subscriptionsError);
+          return null;
+        }
+
+        const followedQuestionIds = subscriptions.flatMap(s => s.question_id ? [s.question_id] : []);
+        const followedDepartmentIds = subscriptions.flatMap(s => s.department_id ? [s.department_id] : []);
+        followedDepartmentIdsRef.current = followedDepartmentIds;
 
-    if (sortBy === 'trending') {
-      query = query.order('upvotes', { ascending: false });
-    } else if (sortBy === 'newest') {
-      query = query.order('created_at', { ascending: false });
-    } else if (sortBy === 'answered') {
-      query = query.eq('status', 'answered').order('updated_at', { ascending: false });
+        const followed = [
+          followedQuestionIds.length > 0 && `id.in.(${followedQuestionIds.join(',')})`,
+          followedDepartmentIds.length > 0 && `department_id.in.(${followedDepartmentIds.join(',')})`,
+        ].filter(Boolean);
+
+        if (followed.length === 0) return [];
+        query = query.or(followed.join(','));
+      } else if (departmentFilter !== "all") {
+        query = query.eq('department_id', departmentFilter);
+      }
+      if (sortBy === 'answered') {
+        query = query.eq('status', 'answered');
+      }
+      if (cursor) {
+        query = query.or(keysetFilter(cursor));
+      }
+      for (const column of QUESTION_SORT_KEYS[sortBy]) {
+        query = query.order(column, { ascending: false });
+      }
+      query = query.limit(PAGE_SIZE);
     }
 
     const { data: questionsData, error } = await query;
 
     if (error) {
       console.error('Error fetching questions:', error);
-      return;
+      return null;
     }
 
-    // Fetch user votes
-    const { data: votesData } = await supabase
-      .from('votes')
-      .select('question_id, vote_type')
-      .eq('user_id', user.id);
+    const pageIds = questionsData.map(q => q.id);
+
+    // Only fetch the current user's votes for the questions on this page
+    const votesMap = new Map<string, 'up' | 'down'>();
+    if (pageIds.length > 0) {
+      const { data: votesData } = await supabase
+        .from('votes')
+        .select('question_id, vote_type')
+        .eq('user_id', user.id)
+        .in('question_id', pageIds);
 
-    const votesMap = new Map(votesData?.map(v => [v.question_id, v.vote_type as 'up' | 'down']) || []);
+      votesData?.forEach(v => {
+        votesMap.set(v.question_id, v.vote_type as 'up' | 'down');
+      });
+    }
 
     // Fetch author profiles for non-anonymous questions
-    const authorIds = (questionsData || [])
+    const authorIds = questionsData
       .filter(q => !q.is_anonymous && q.author_id)
       .map(q => q.author_id);
     
@@ -109,7 +157,7 @@ export default function Questions() {
       profilesMap.set(p.user_id, { full_name: p.full_name });
     });
 
-    const formattedQuestions: Question[] = (questionsData || []).map(q => ({
+    return questionsData.map(q => ({
       id: q.id,
       title: q.title,
       content: q.content,
@@ -118,16 +166,83 @@ export default function Questions() {
       upvotes: q.upvotes,
       downvotes: q.downvotes,
       created_at: q.created_at,
+      updated_at: q.updated_at,
       department: q.department,
       author: q.author_id && !q.is_anonymous ? profilesMap.get(q.author_id) || null : null,
-      answers: q.answers || [],
+      answersCount: q.answers?.[0]?.count || 0,
       userVote: votesMap.get(q.id) || null,
     }));
+  };
+
+  const fetchQuestions = async () => {
+    const requestId = ++requestIdRef.current;
+    setIsLoadingQuestions(true);
+    setIsLoadingMore(false);
+    setNewQuestionIds([]);
 
-    setQuestions(formattedQuestions);
+    const page = await fetchQuestionRows(null);
+
+    // Ignore responses for filters the user has already moved away from
+    if (requestId !== requestIdRef.current) return;
+
+    if (page) {
+      setQuestions(page);
+      setHasMore(page.length === PAGE_SIZE);
+    }
     setIsLoadingQuestions(false);
   };
 
+  const fetchMoreQuestions = async () => {
+    const last = questions[questions.length - 1];
+    if (!last || isLoadingMore || !hasMore) return;
+
+    const requestId = requestIdRef.current;
+    setIsLoadingMore(true);
+
+    const page = await fetchQuestionRows(cursorFor(last, QUESTION_SORT_KEYS[sortBy]));
+
+    if (requestId !== requestIdRef.current) return;
+
+    if (page) {
+      setQuestions(prev => {
+        const seen = new Set(prev.map(q => q.id));
+        return [...prev, ...page.filter(q => !seen.has(q.id))];
+      });
+      setHasMore(page.length === PAGE_SIZE);
+    }
+    setIsLoadingMore(false);
+  };
+
+  // Refresh a single question in place so voting doesn't reset the scroll position
+  const refreshQuestion = async (questionId: string) => {
+    const rows = await fetchQuestionRows(null, [questionId]);
+    const updated = rows?.[0];
+    if (!updated) return;
+
+    setQuestions(prev => prev.map(q => q.id === questionId ? updated : q));
+  };
+
+  // Prepend questions announced by the "new questions" banner
+  const showNewQuestions = async () => {
+    const ids = newQuestionIds;
+    setNewQuestionIds([]);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+
+    const rows = await fetchQuestionRows(null, ids);
+    if (!rows) return;
+
+    setQuestions(prev => {
+      const seen = new Set(prev.map(q => q.id));
+      return [...rows.filter(q => !seen.has(q.id)), ...prev];
+    });
+  };
+
+  const sentinelRef = useInfiniteScroll({
+    hasMore,
+    isLoading: isLoadingQuestions || isLoadingMore,
+    onLoadMore: fetchMoreQuestions,
+  });
+
   const fetchDepartments = async () => {
     const { data } = await supabase.from('departments').select('id, name').order('name');
     if (data) setDepartments(data);
@@ -140,10 +255,74 @@ export default function Questions() {
     }
   }, [user, departmentFilter, sortBy]);
 
-  const filteredQuestions = questions.filter(q =>
-    q.title.toLowerCase().includes(search.toLowerCase()) ||
-    q.content.toLowerCase().includes(search.toLowerCase())
-  );
+  // Keep the department in the URL so a department's questions can be linked to
+  const handleDepartmentChange = (value: string) => {
+    setDepartmentFilter(value);
+    setSearchParams(value === "all" ? {} : { department: value }, { replace: true });
+  };
+
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel('questions-feed')
+      .on<Tables<'questions'>>(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'questions' },
+        ({ new: inserted }) => {
+          // New questions are open, so they never belong in the Answered view
+          if (sortBy === 'answered') return;
+          if (departmentFilter === FOLLOWING) {
+            if (!inserted.department_id || !followedDepartmentIdsRef.current.includes(inserted.department_id)) return;
+          } else if (departmentFilter !== "all" && inserted.department_id !== departmentFilter) return;
+
+          setNewQuestionIds(prev => prev.includes(inserted.id) ? prev : [inserted.id, ...prev]);
+        }
+      )
+      .on<Tables<'questions'>>(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'questions' },
+        ({ new: updated }) => {
+          setQuestions(prev => prev.map(q => q.id === updated.id
+            ? { ...q, status: updated.status || 'open', upvotes: updated.upvotes, downvotes: updated.downvotes }
+            : q
+          ));
+        }
+      )
+      .on<Tables<'questions'>>(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'questions' },
+        ({ old }) => {
+          setQuestions(prev => prev.filter(q => q.id !== old.id));
+        }
+      )
+      .on<Tables<'answers'>>(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'answers' },
+        ({ new: inserted }) => {
+          setQuestions(prev => prev.map(q => q.id === inserted.question_id
+            ? { ...q, answersCount: q.answersCount + 1 }
+            : q
+          ));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, departmentFilter, sortBy]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!search.trim()) return;
+
+    const params = new URLSearchParams({ q: search.trim() });
+    if (departmentFilter !== "all" && departmentFilter !== FOLLOWING) {
+      params.set("department", departmentFilter);
+    }
+    navigate(`/search?${params.toString()}`);
+  };
 
   if (isLoading) {
     return (
@@ -170,29 +349,39 @@ export default function Questions() {
 
         {/* Filters */}
         <div className="flex flex-col sm:flex-row gap-3 mb-6">
-          <div className="relative flex-1">
+          <form onSubmit={handleSearch} className="relative flex-1">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
             <Input
-              placeholder="Search questions..."
+              placeholder="Search questions, answers and comments..."
               value={search}
               onChange={(e) => setSearch(e.target.value)}
               className="pl-10"
             />
-          </div>
+          </form>
 
-          <Select value={departmentFilter} onValueChange={setDepartmentFilter}>
+          <Select value={departmentFilter} onValueChange={handleDepartmentChange}>
             <SelectTrigger className="w-full sm:w-[180px]">
               <Filter className="w-4 h-4 mr-2" />
               <SelectValue placeholder="Department" />
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">All Departments</SelectItem>
+              <SelectItem value={FOLLOWING}>
+                <span className="flex items-center gap-1.5">
+                  <BellRing className="w-3.5 h-3.5" />
+                  Following
+                </span>
+              </SelectItem>
               {departments.map(d => (
                 <SelectItem key={d.id} value={d.id}>{d.name}</SelectItem>
               ))}
             </SelectContent>
           </Select>
 
+          {departmentFilter !== "all" && departmentFilter !== FOLLOWING && (
+            <FollowButton departmentId={departmentFilter} size="default" />
+          )}
+
           <div className="flex gap-1 bg-secondary rounded-lg p-1">
             <Button
               variant={sortBy === 'trending' ? 'default' : 'ghost'}
@@ -224,6 +413,19 @@ export default function Questions() {
           </div>
         </div>
 
+        {newQuestionIds.length > 0 && (
+          <div className="sticky top-20 z-10 flex justify-center mb-4">
+            <Button
+              size="sm"
+              onClick={showNewQuestions}
+              className="gap-1.5 rounded-full shadow-elegant animate-fade-in"
+            >
+              <ArrowUp className="w-4 h-4" />
+              {newQuestionIds.length} new {newQuestionIds.length === 1 ? "question" : "questions"}
+            </Button>
+          </div>
+        )}
+
         {/* Questions List */}
         {isLoadingQuestions ? (
           <div className="space-y-4">
@@ -231,31 +433,51 @@ export default function Questions() {
               <div key={i} className="h-32 bg-card rounded-lg animate-pulse" />
             ))}
           </div>
-        ) : filteredQuestions.length === 0 ? (
+        ) : questions.length === 0 ? (
           <div className="text-center py-16 text-muted-foreground">
-            <p className="text-lg mb-2">No questions found</p>
-            <p className="text-sm">Be the first to ask a question!</p>
+            {departmentFilter === FOLLOWING ? (
+              <>
+                <p className="text-lg mb-2">No followed questions yet</p>
+                <p className="text-sm">Follow questions and departments to see them here</p>
+              </>
+            ) : (
+              <>
+                <p className="text-lg mb-2">No questions found</p>
+                <p className="text-sm">Be the first to ask a question!</p>
+              </>
+            )}
           </div>
         ) : (
           <div className="space-y-4">
-            {filteredQuestions.map(question => (
+            {questions.map(question => (
               <QuestionCard
                 key={question.id}
                 id={question.id}
                 title={question.title}
                 content={question.content}
                 departmentName={question.department?.name}
+                departmentId={question.department?.id}
                 isAnonymous={question.is_anonymous}
                 authorName={question.author?.full_name || undefined}
                 status={question.status || 'open'}
                 upvotes={question.upvotes}
                 downvotes={question.downvotes}
                 userVote={question.userVote}
-                answersCount={question.answers?.length || 0}
+                answersCount={question.answersCount}
                 createdAt={question.created_at}
-                onVoteChange={fetchQuestions}
+                onVoteChange={() => refreshQuestion(question.id)}
               />
             ))}
+
+            <div ref={sentinelRef} />
+            {isLoadingMore && (
+              <div className="h-32 bg-card rounded-lg animate-pulse" />
+            )}
+            {!hasMore && questions.length > PAGE_SIZE && (
+              <p className="text-center text-sm text-muted-foreground py-4">
+                You've reached the end
+              </p>
+            )}
           </div>
         )}
       </main>
@@ -0,0 +1,256 @@
+import { useState, useEffect, useRef } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { Search as SearchIcon, Filter, MessageSquare, Clock, User, CircleDot } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Header } from "@/components/Header";
+import { DepartmentBadge } from "@/components/DepartmentBadge";
+import { StatusBadge } from "@/components/StatusBadge";
+import { HighlightedText } from "@/components/HighlightedText";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+import { QUESTION_STATUSES, STATUS_LABELS } from "@/lib/question-status";
+import { formatDistanceToNow } from "date-fns";
+
+type SearchResult = Database["public"]["Functions"]["search_questions"]["Returns"][number];
+
+const PAGE_SIZE = 20;
+
+const matchedInLabels: Record<string, string> = {
+  question: "Matched in question",
+  answer: "Matched in an answer",
+  comment: "Matched in a comment",
+};
+
+export default function Search() {
+  const { user, profile, isAdmin, isLoading } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get("q") || "";
+  const departmentFilter = searchParams.get("department") || "all";
+  const statusFilter = searchParams.get("status") || "all";
+
+  const [input, setInput] = useState(query);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [departments, setDepartments] = useState<{ id: string; name: string }[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      navigate("/auth");
+    }
+  }, [user, isLoading, navigate]);
+
+  useEffect(() => {
+    setInput(query);
+  }, [query]);
+
+  const runSearch = async (offset: number) => {
+    // A new search supersedes any still in flight; loading more continues it
+    const requestId = offset === 0 ? ++requestIdRef.current : requestIdRef.current;
+
+    if (!query.trim()) {
+      setResults([]);
+      setHasMore(false);
+      setIsSearching(false);
+      return;
+    }
+
+    setIsSearching(true);
+
+    const { data, error } = await supabase.rpc('search_questions', {
+      _query: query.trim(),
+      _department_id: departmentFilter !== "all" ? departmentFilter : undefined,
+      _status: statusFilter !== "all" ? statusFilter : undefined,
+      _limit: PAGE_SIZE,
+      _offset: offset,
+    });
+
+    // Ignore responses for a query the user has already moved away from
+    if (requestId !== requestIdRef.current) return;
+
+    if (error) {
+      console.error('Error searching questions:', error);
+      setIsSearching(false);
+      return;
+    }
+
+    setResults(prev => offset === 0 ? data : [...prev, ...data]);
+    setHasMore(data.length === PAGE_SIZE);
+    setIsSearching(false);
+  };
+
+  useEffect(() => {
+    if (user) {
+      runSearch(0);
+    }
+  }, [user, query, departmentFilter, statusFilter]);
+
+  useEffect(() => {
+    const fetchDepartments = async () => {
+      const { data } = await supabase.from('departments').select('id, name').order('name');
+      if (data) setDepartments(data);
+    };
+    fetchDepartments();
+  }, []);
+
+  const updateParam = (key: string, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value && value !== "all") {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+    setSearchParams(next);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateParam("q", input.trim());
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-pulse text-muted-foreground">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header
+        user={profile ? { email: profile.email, full_name: profile.full_name || undefined, avatar_url: profile.avatar_url || undefined } : null}
+        isAdmin={isAdmin}
+      />
+
+      <main className="container max-w-5xl mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-foreground mb-2">Search</h1>
+          <p className="text-muted-foreground">
+            Search across questions, answers and comments
+          </p>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-col sm:flex-row gap-3 mb-6">
+          <form onSubmit={handleSubmit} className="relative flex-1">
+            <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              placeholder="Search questions, answers and comments..."
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              className="pl-10"
+              autoFocus
+            />
+          </form>
+
+          <Select value={departmentFilter} onValueChange={(value) => updateParam("department", value)}>
+            <SelectTrigger className="w-full sm:w-[180px]">
+              <Filter className="w-4 h-4 mr-2" />
+              <SelectValue placeholder="Department" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Departments</SelectItem>
+              {departments.map(d => (
+                <SelectItem key={d.id} value={d.id}>{d.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={statusFilter} onValueChange={(value) => updateParam("status", value)}>
+            <SelectTrigger className="w-full sm:w-[150px]">
+              <CircleDot className="w-4 h-4 mr-2" />
+              <SelectValue placeholder="Status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Any Status</SelectItem>
+              {QUESTION_STATUSES.map(status => (
+                <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Results */}
+        {!query.trim() ? (
+          <div className="text-center py-16 text-muted-foreground">
+            <p className="text-lg mb-2">Type something to search</p>
+            <p className="text-sm">Try a keyword like "bonus" or "vacation policy"</p>
+          </div>
+        ) : isSearching && results.length === 0 ? (
+          <div className="space-y-4">
+            {[1, 2, 3].map(i => (
+              <div key={i} className="h-32 bg-card rounded-lg animate-pulse" />
+            ))}
+          </div>
+        ) : results.length === 0 ? (
+          <div className="text-center py-16 text-muted-foreground">
+            <p className="text-lg mb-2">No results for "{query}"</p>
+            <p className="text-sm">Try different keywords or remove some filters</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {results.map(result => (
+              <Card key={result.id} className="p-4 hover:shadow-elegant transition-all duration-300 animate-fade-in border-border/50">
+                <div className="flex items-start justify-between gap-3 mb-2">
+                  <Link to={`/question/${result.id}`} className="group">
+                    <h3 className="font-semibold text-lg text-foreground group-hover:text-accent transition-colors line-clamp-2">
+                      <HighlightedText text={result.title_highlight} />
+                    </h3>
+                  </Link>
+                  {result.department_name && <DepartmentBadge name={result.department_name} />}
+                </div>
+
+                <p className="text-muted-foreground text-sm line-clamp-3 mb-1">
+                  <HighlightedText text={result.snippet} />
+                </p>
+                <p className="text-xs text-muted-foreground/80 mb-3">
+                  {matchedInLabels[result.matched_in]}
+                </p>
+
+                <div className="flex items-center gap-4 text-xs text-muted-foreground">
+                  {result.is_anonymous && (
+                    <div className="flex items-center gap-1">
+                      <User className="w-3.5 h-3.5" />
+                      <span className="text-anonymous font-medium">Anonymous</span>
+                    </div>
+                  )}
+
+                  <div className="flex items-center gap-1">
+                    <MessageSquare className="w-3.5 h-3.5" />
+                    <span>{result.answers_count} {result.answers_count === 1 ? "answer" : "answers"}</span>
+                  </div>
+
+                  <div className="flex items-center gap-1">
+                    <Clock className="w-3.5 h-3.5" />
+                    <span>{formatDistanceToNow(new Date(result.created_at), { addSuffix: true })}</span>
+                  </div>
+
+                  <StatusBadge status={result.status} questionId={result.id} />
+                </div>
+              </Card>
+            ))}
+
+            {hasMore && (
+              <div className="flex justify-center pt-2">
+                <Button
+                  variant="outline"
+                  onClick={() => runSearch(results.length)}
+                  disabled={isSearching}
+                >
+                  {isSearching ? "Loading..." : "Load more results"}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { NO_DEPARTMENT, formatHours, formatPercent, pivotWeeklyQuestions } from "@/lib/analytics";
+
+describe("pivotWeeklyQuestions", () => {
+  it("gives every week a count for every department, busiest first", () => {
+    const { data, departments } = pivotWeeklyQuestions([
+      { week_start: "2026-10-05", department: "HR", questions: 2 },
+      { week_start: "2026-10-05", department: null, questions: 1 },
+      { week_start: "2026-10-12", department: null, questions: 0 },
+      { week_start: "2026-10-19", department: "IT", questions: 4 },
+      { week_start: "2026-10-19", department: "HR", questions: 1 },
+    ]);
+
+    expect(departments).toEqual(["IT", "HR", NO_DEPARTMENT]);
+    expect(data).toEqual([
+      { week_start: "2026-10-05", IT: 0, HR: 2, [NO_DEPARTMENT]: 1 },
+      { week_start: "2026-10-12", IT: 0, HR: 0, [NO_DEPARTMENT]: 0 },
+      { week_start: "2026-10-19", IT: 4, HR: 1, [NO_DEPARTMENT]: 0 },
+    ]);
+  });
+});
+
+describe("formatting", () => {
+  it("picks a unit that fits the duration", () => {
+    expect(formatHours(null)).toBe("—");
+    expect(formatHours(0.5)).toBe("30 min");
+    expect(formatHours(5.25)).toBe("5.3 h");
+    expect(formatHours(72)).toBe("3.0 days");
+  });
+
+  it("does not divide by zero", () => {
+    expect(formatPercent(0, 0)).toBe("—");
+    expect(formatPercent(2, 3)).toBe("67%");
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { ATTACHMENT_MAX_BYTES, formatFileSize, validateAttachment } from "@/lib/attachments";
+
+const fileOf = (name: string, type: string, size: number) =>
+  new File([new Uint8Array(size)], name, { type });
+
+describe("validateAttachment", () => {
+  it("accepts allowed types within the size limit", () => {
+    expect(validateAttachment(fileOf("payslip.png", "image/png", 1024))).toBeNull();
+    expect(validateAttachment(fileOf("policy.pdf", "application/pdf", 2048))).toBeNull();
+  });
+
+  it("rejects disallowed types", () => {
+    expect(validateAttachment(fileOf("script.html", "text/html", 10))).toMatch(/only images/);
+  });
+
+  it("rejects files over the size limit", () => {
+    expect(validateAttachment(fileOf("huge.pdf", "application/pdf", ATTACHMENT_MAX_BYTES + 1))).toMatch(/or smaller/);
+  });
+});
+
+describe("formatFileSize", () => {
+  it("picks a readable unit", () => {
+    expect(formatFileSize(512)).toBe("512 B");
+    expect(formatFileSize(2048)).toBe("2 KB");
+    expect(formatFileSize(5 * 1024 * 1024)).toBe("5.0 MB");
+  });
+});
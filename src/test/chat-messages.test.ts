@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { ChatQuestion, chatMessage } from "../../supabase/functions/_shared/chat.ts";
+
+const question: ChatQuestion = {
+  id: "q-1",
+  title: "When is the bonus paid?",
+  content: "Asking for the <whole> team & others",
+  is_anonymous: false,
+  authorName: "Dana Scully",
+};
+
+describe("chatMessage", () => {
+  it("never names the author of an anonymous question", () => {
+    const event = { type: "question_created" as const, department: "HR", question: { ...question, is_anonymous: true } };
+
+    for (const platform of ["slack", "teams"] as const) {
+      const payload = JSON.stringify(chatMessage(platform, event, "https://qa.example.com"));
+      expect(payload).not.toContain("Dana Scully");
+      expect(payload).toContain("Asked by Anonymous");
+    }
+  });
+
+  it("builds Slack blocks with escaped text and a deep link", () => {
+    const message = chatMessage("slack", { type: "question_created", department: "HR", question }, "https://qa.example.com/");
+    const payload = JSON.stringify(message);
+
+    expect(message).toHaveProperty("blocks");
+    expect(payload).toContain("Asking for the &lt;whole&gt; team &amp; others");
+    expect(payload).toContain('"url":"https://qa.example.com/question/q-1"');
+  });
+
+  it("builds a Teams Adaptive Card for status changes", () => {
+    const message = chatMessage(
+      "teams",
+      { type: "question_status_changed", department: "HR", question, from: "open", to: "answered" },
+      "https://qa.example.com",
+    );
+    const payload = JSON.stringify(message);
+
+    expect(payload).toContain("application/vnd.microsoft.card.adaptive");
+    expect(payload).toContain("Status changed from Open to Answered");
+    expect(payload).toContain('"type":"Action.OpenUrl"');
+  });
+
+  it("leaves out the link when no app URL is configured", () => {
+    const payload = JSON.stringify(chatMessage(
+      "slack",
+      { type: "answer_official", department: "HR", question, answer: { content: "In March.", authorName: "HR Team" } },
+      null,
+    ));
+
+    expect(payload).toContain("Answered by HR Team");
+    expect(payload).not.toContain("/question/q-1");
+  });
+});
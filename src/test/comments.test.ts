@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { buildCommentTree, isWithinEditWindow } from "@/lib/comments";
+
+describe("buildCommentTree", () => {
+  it("nests replies under their parents in order", () => {
+    const tree = buildCommentTree([
+      { id: "a", parent_id: null },
+      { id: "b", parent_id: "a" },
+      { id: "c", parent_id: null },
+      { id: "d", parent_id: "b" },
+      { id: "e", parent_id: "a" },
+    ]);
+
+    expect(tree.map(n => n.comment.id)).toEqual(["a", "c"]);
+    expect(tree[0].replies.map(n => n.comment.id)).toEqual(["b", "e"]);
+    expect(tree[0].replies[0].replies.map(n => n.comment.id)).toEqual(["d"]);
+  });
+
+  it("lifts replies with a missing parent to the top level", () => {
+    const tree = buildCommentTree([{ id: "b", parent_id: "gone" }]);
+    expect(tree.map(n => n.comment.id)).toEqual(["b"]);
+  });
+});
+
+describe("isWithinEditWindow", () => {
+  const now = new Date("2026-01-01T12:00:00Z");
+
+  it("allows edits shortly after posting", () => {
+    expect(isWithinEditWindow("2026-01-01T11:50:00Z", now)).toBe(true);
+  });
+
+  it("rejects edits once the window has passed", () => {
+    expect(isWithinEditWindow("2026-01-01T11:40:00Z", now)).toBe(false);
+  });
+});
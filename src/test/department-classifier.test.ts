@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { buildClassifier, suggestDepartment, tokenize } from "@/lib/department-classifier";
+
+const questions = [
+  { department_id: "hr", title: "How many vacation days do new employees get?" },
+  { department_id: "hr", title: "Can unused vacation days roll over to next year?" },
+  { department_id: "hr", title: "Who approves parental leave requests?" },
+  { department_id: "it", title: "My laptop will not connect to the VPN" },
+  { department_id: "it", title: "How do I reset my password for the VPN?" },
+  { department_id: "it", title: "Can I get a second monitor for my laptop?" },
+];
+
+describe("tokenize", () => {
+  it("drops stopwords and folds plurals", () => {
+    expect(tokenize("Where are my Payslips?")).toEqual(["payslip"]);
+  });
+});
+
+describe("suggestDepartment", () => {
+  it("learns from where past questions went", () => {
+    const classifier = buildClassifier(questions, []);
+    expect(suggestDepartment(classifier, "Do vacation days expire?")?.departmentId).toBe("hr");
+    expect(suggestDepartment(classifier, "The VPN keeps dropping")?.departmentId).toBe("it");
+  });
+
+  it("suggests nothing for text it knows nothing about", () => {
+    const classifier = buildClassifier(questions, []);
+    expect(suggestDepartment(classifier, "")).toBeNull();
+    expect(suggestDepartment(classifier, "Is the cafeteria open on Fridays?")).toBeNull();
+  });
+
+  it("lets keyword rules steer the suggestion", () => {
+    const classifier = buildClassifier(questions, [
+      { department_id: "facilities", keyword: "cafeteria", weight: 1 },
+      { department_id: "hr", keyword: "new laptop", weight: 3 },
+    ]);
+
+    expect(suggestDepartment(classifier, "Is the cafeteria open on Fridays?"))
+      .toEqual({ departmentId: "facilities", score: 0.4, keywords: ["cafeteria"] });
+    expect(suggestDepartment(classifier, "Do new hires get a new laptop?")?.departmentId).toBe("hr");
+    // Phrases only match as a whole
+    expect(suggestDepartment(classifier, "My laptop is new")?.departmentId).toBe("it");
+  });
+});
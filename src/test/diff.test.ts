@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { diffWords } from "@/lib/diff";
+
+const join = (parts: ReturnType<typeof diffWords>, type: "added" | "removed") =>
+  parts.filter(p => p.type !== type).map(p => p.value).join("");
+
+describe("diffWords", () => {
+  it("returns a single equal part for identical text", () => {
+    expect(diffWords("same text", "same text")).toEqual([{ type: "equal", value: "same text" }]);
+  });
+
+  it("marks replaced words", () => {
+    expect(diffWords("bonus is paid in March", "bonus is paid in April")).toEqual([
+      { type: "equal", value: "bonus is paid in " },
+      { type: "removed", value: "March" },
+      { type: "added", value: "April" },
+    ]);
+  });
+
+  it("reconstructs both inputs from the parts", () => {
+    const before = "Submit the form to HR.\nThen wait two weeks.";
+    const after = "Submit the signed form to People Ops.\nThen wait a week.";
+    const parts = diffWords(before, after);
+
+    expect(join(parts, "added")).toBe(before);
+    expect(join(parts, "removed")).toBe(after);
+  });
+});
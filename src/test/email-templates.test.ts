@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { Branding, html, newQuestionEmail, notificationEmail } from "../../supabase/functions/_shared/email/templates.ts";
+
+const branding: Branding = {
+  productName: "Acme Q&A",
+  accentColor: "#123456",
+  appUrl: "https://qa.example.com/",
+};
+
+describe("html", () => {
+  it("escapes interpolated values", () => {
+    expect(html`<p>${'<script>alert("x")</script>'}</p>`.__html)
+      .toBe("<p>&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;</p>");
+  });
+
+  it("keeps nested fragments and drops empty values", () => {
+    expect(html`<ul>${["a&b", "c"].map(item => html`<li>${item}</li>`)}${null}</ul>`.__html)
+      .toBe("<ul><li>a&amp;b</li><li>c</li></ul>");
+  });
+});
+
+describe("newQuestionEmail", () => {
+  const email = newQuestionEmail(branding, {
+    questionId: "q-1",
+    recipientName: "Dana",
+    departmentName: "Finance",
+    title: "Is <b>this</b> escaped?",
+    content: "Yes & no",
+    authorName: "Anonymous",
+  });
+
+  it("escapes question content in the HTML body", () => {
+    expect(email.html).toContain("Is &lt;b&gt;this&lt;/b&gt; escaped?");
+    expect(email.html).toContain("Yes &amp; no");
+    expect(email.html).not.toContain("<b>this</b>");
+  });
+
+  it("renders a plain-text alternative with a link and the branding", () => {
+    expect(email.text).toContain("Is <b>this</b> escaped?");
+    expect(email.text).toContain("https://qa.example.com/question/q-1");
+    expect(email.text).toContain("automated notification from Acme Q&A");
+  });
+
+  it("says where a moved question came from", () => {
+    const moved = newQuestionEmail(branding, {
+      questionId: "q-1",
+      recipientName: "Dana",
+      departmentName: "Finance",
+      title: "Payroll dates",
+      content: "When?",
+      authorName: "Anonymous",
+      movedFrom: "HR & People",
+    });
+
+    expect(moved.subject).toBe("Question Moved to Finance Department");
+    expect(moved.html).toContain("moved from <strong>HR &amp; People</strong>");
+    expect(moved.text).toContain("moved from HR & People to the Finance department");
+  });
+});
+
+describe("notificationEmail", () => {
+  it("leaves out links when no app URL is configured", () => {
+    const email = notificationEmail({ ...branding, appUrl: null }, {
+      subject: "Your daily digest: 1 update",
+      recipientName: "Dana",
+      intro: "Here's what happened over the past day:",
+      items: [{ questionId: "q-1", description: 'New answer on "Payroll"' }],
+    });
+
+    expect(email.html).toContain("New answer on &quot;Payroll&quot;");
+    expect(email.html).not.toContain("href");
+    expect(email.text).toContain('- New answer on "Payroll"');
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { render } from "@testing-library/react";
+import { Markdown, MarkdownExcerpt } from "@/components/Markdown";
+
+describe("Markdown", () => {
+  it("renders formatting, lists and links", () => {
+    const { container } = render(
+      <Markdown content={"# Policy\n\n- **one**\n- two\n\n[Handbook](https://example.com)"} />
+    );
+
+    expect(container.querySelector("h1")).toHaveTextContent("Policy");
+    expect(container.querySelectorAll("li")).toHaveLength(2);
+    expect(container.querySelector("strong")).toHaveTextContent("one");
+    expect(container.querySelector("a")).toHaveAttribute("target", "_blank");
+  });
+
+  it("does not render raw HTML or script URLs", () => {
+    const { container } = render(
+      <Markdown content={'<img src=x onerror="alert(1)"><script>alert(1)</script>\n\n[click](javascript:alert(1))'} />
+    );
+
+    expect(container.querySelector("img")).toBeNull();
+    expect(container.querySelector("script")).toBeNull();
+    expect(container.querySelector("a")?.getAttribute("href") ?? "").not.toContain("javascript:");
+  });
+
+  it("highlights fenced code blocks", () => {
+    const { container } = render(<Markdown content={"```js\nconst a = 1;\n```"} />);
+
+    expect(container.querySelector("code.hljs")).not.toBeNull();
+  });
+});
+
+describe("MarkdownExcerpt", () => {
+  it("strips formatting down to plain text", () => {
+    const { container } = render(<MarkdownExcerpt content={"**Bold** and [link](https://example.com)"} />);
+
+    expect(container.querySelector("strong")).toBeNull();
+    expect(container.querySelector("a")).toBeNull();
+    expect(container).toHaveTextContent("Bold and link");
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { AppNotification, describeNotification } from "@/lib/notifications";
+
+const notification = (overrides: Partial<AppNotification>): AppNotification => ({
+  id: "n-1",
+  type: "new_answer",
+  question_id: "q-1",
+  question_title: "When is the bonus paid?",
+  data: {},
+  read_at: null,
+  created_at: "2026-01-01T00:00:00Z",
+  anonymous: false,
+  ...overrides,
+});
+
+describe("describeNotification", () => {
+  it("names the question", () => {
+    expect(describeNotification(notification({}))).toBe('New answer on "When is the bonus paid?"');
+  });
+
+  it("includes the new status for status changes", () => {
+    expect(describeNotification(notification({ type: "status_changed", data: { from: "open", to: "closed" } })))
+      .toBe('"When is the bonus paid?" is now closed');
+  });
+
+  it("tells responders about questions assigned to them", () => {
+    expect(describeNotification(notification({ type: "question_assigned" })))
+      .toBe('You were assigned "When is the bonus paid?"');
+  });
+
+  it("says where a moved question came from", () => {
+    expect(describeNotification(notification({ type: "department_question", data: { department: "Finance", moved_from: "HR" } })))
+      .toBe('Question moved from HR to Finance: "When is the bonus paid?"');
+  });
+
+  it("marks overdue questions escalated to all admins", () => {
+    expect(describeNotification(notification({ type: "sla_overdue", data: { department: "HR", escalation: "department" } })))
+      .toBe('"When is the bonus paid?" in HR is overdue for an answer');
+    expect(describeNotification(notification({ type: "sla_overdue", data: { department: "HR", escalation: "admins" } })))
+      .toBe('Escalated: "When is the bonus paid?" in HR is overdue for an answer');
+  });
+
+  it("spells out multi-word statuses", () => {
+    expect(describeNotification(notification({ type: "following_status_changed", data: { from: "open", to: "needs_info" } })))
+      .toBe('"When is the bonus paid?" is now needs info');
+  });
+
+  it("falls back when the new status is missing", () => {
+    expect(describeNotification(notification({ type: "status_changed", data: null })))
+      .toBe('The status of "When is the bonus paid?" changed');
+  });
+
+  it("names the department for new department questions", () => {
+    expect(describeNotification(notification({ type: "department_question", data: { department: "HR" } })))
+      .toBe('New question in HR: "When is the bonus paid?"');
+  });
+
+  it("describes updates on followed questions like the asker's own", () => {
+    expect(describeNotification(notification({ type: "following_new_answer" })))
+      .toBe('New answer on "When is the bonus paid?"');
+  });
+});
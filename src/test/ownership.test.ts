@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import { isValidOwnerKey, slotToken } from "@/lib/ownership";
+
+const KEY = "AAECAwQFBgcICQoLDA0ODxAREhMUFRYXGBkaGxwdHh8";
+
+describe("slotToken", () => {
+  it("is deterministic for a key and slot", async () => {
+    expect(await slotToken(KEY, 0)).toBe(await slotToken(KEY, 0));
+    expect(await slotToken(KEY, 0)).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("differs between slots", async () => {
+    expect(await slotToken(KEY, 0)).not.toBe(await slotToken(KEY, 1));
+  });
+});
+
+describe("isValidOwnerKey", () => {
+  it("accepts 32-byte base64url keys only", () => {
+    expect(isValidOwnerKey(KEY)).toBe(true);
+    expect(isValidOwnerKey("too-short")).toBe(false);
+    expect(isValidOwnerKey(`${KEY.slice(0, -1)}+`)).toBe(false);
+  });
+});
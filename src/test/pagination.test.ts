@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { containsPattern, cursorFor, keysetFilter, QUESTION_SORT_KEYS } from "@/lib/pagination";
+
+describe("keysetFilter", () => {
+  it("builds a single comparison for a one-column cursor", () => {
+    expect(keysetFilter([{ column: "id", value: "abc" }])).toBe('id.lt."abc"');
+  });
+
+  it("expands a trending cursor into tie-breaking conditions", () => {
+    const cursor = cursorFor(
+      { upvotes: 5, created_at: "2026-01-01T10:00:00+00:00", id: "q1" },
+      QUESTION_SORT_KEYS.trending
+    );
+
+    expect(keysetFilter(cursor)).toBe(
+      'upvotes.lt.5,' +
+      'and(upvotes.eq.5,created_at.lt."2026-01-01T10:00:00+00:00"),' +
+      'and(upvotes.eq.5,created_at.eq."2026-01-01T10:00:00+00:00",id.lt."q1")'
+    );
+  });
+
+  it("escapes quotes in string values", () => {
+    expect(keysetFilter([{ column: "title", value: 'say "hi"' }])).toBe('title.lt."say \\"hi\\""');
+  });
+});
+
+describe("containsPattern", () => {
+  it("matches wildcard characters literally", () => {
+    expect(containsPattern("100% done")).toBe("%100\\% done%");
+    expect(containsPattern("snake_case")).toBe("%snake\\_case%");
+    expect(containsPattern("C:\\temp")).toBe("%C:\\\\temp%");
+  });
+});
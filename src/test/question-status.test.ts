@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { QUESTION_STATUSES, STATUS_TRANSITIONS, canTransition, nextStatuses, statusLabel } from "@/lib/question-status";
+
+describe("question status transitions", () => {
+  it("only moves to known statuses and never to the same status", () => {
+    for (const status of QUESTION_STATUSES) {
+      for (const next of STATUS_TRANSITIONS[status]) {
+        expect(QUESTION_STATUSES).toContain(next);
+        expect(next).not.toBe(status);
+      }
+    }
+  });
+
+  it("lets every status be reopened or archived", () => {
+    for (const status of QUESTION_STATUSES.filter(s => s !== 'open')) {
+      const reachable = nextStatuses(status);
+      expect(reachable.includes('open') || reachable.includes('archived')).toBe(true);
+    }
+  });
+
+  it("only unarchives back to open", () => {
+    expect(nextStatuses('archived')).toEqual(['open']);
+    expect(canTransition('archived', 'answered')).toBe(false);
+  });
+
+  it("lets an official answer settle questions that are still being worked on", () => {
+    for (const status of ['open', 'assigned', 'in_progress', 'needs_info']) {
+      expect(canTransition(status, 'answered')).toBe(true);
+    }
+    expect(canTransition('duplicate', 'answered')).toBe(false);
+  });
+
+  it("doesn't offer duplicate as a plain status", () => {
+    expect(canTransition('open', 'duplicate')).toBe(true);
+    expect(nextStatuses('open')).not.toContain('duplicate');
+  });
+
+  it("treats unknown statuses as terminal", () => {
+    expect(nextStatuses('pending')).toEqual([]);
+    expect(statusLabel('pending')).toBe('pending');
+    expect(statusLabel('needs_info')).toBe('Needs info');
+  });
+});
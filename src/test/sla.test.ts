@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { slaState } from "@/lib/sla";
+
+const now = new Date("2026-10-19T12:00:00Z");
+
+const question = (overrides: Partial<Parameters<typeof slaState>[0]> = {}) => ({
+  status: "assigned",
+  created_at: "2026-10-15T12:00:00Z",
+  sla_due_at: "2026-10-20T18:00:00Z",
+  first_answered_at: null,
+  ...overrides,
+});
+
+describe("slaState", () => {
+  it("has no state without a target", () => {
+    expect(slaState(question({ sla_due_at: null }), now)).toBeNull();
+  });
+
+  it("counts down to the due date", () => {
+    expect(slaState(question(), now)).toBe("on_track");
+    expect(slaState(question({ sla_due_at: "2026-10-20T06:00:00Z" }), now)).toBe("due_soon");
+    expect(slaState(question({ sla_due_at: "2026-10-19T06:00:00Z" }), now)).toBe("overdue");
+  });
+
+  it("stops the clock at the first official answer", () => {
+    expect(slaState(question({ first_answered_at: "2026-10-16T09:00:00Z" }), now)).toBe("met");
+    expect(slaState(question({ sla_due_at: "2026-10-16T06:00:00Z", first_answered_at: "2026-10-16T09:00:00Z" }), now))
+      .toBe("missed");
+  });
+
+  it("drops questions closed without an answer", () => {
+    expect(slaState(question({ status: "closed", sla_due_at: "2026-10-19T06:00:00Z" }), now)).toBeNull();
+  });
+
+  it("doesn't hold questions waiting on the asker against the department", () => {
+    expect(slaState(question({ status: "needs_info", sla_due_at: "2026-10-19T06:00:00Z" }), now)).toBeNull();
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { changesSinceVisit, getQuestionVisits, recordQuestionVisit } from "@/lib/visits";
+
+describe("changesSinceVisit", () => {
+  const visit = { status: "open", answersCount: 1, visitedAt: "2026-01-01T00:00:00Z" };
+
+  it("reports nothing for questions never visited", () => {
+    expect(changesSinceVisit(undefined, { status: "answered", answersCount: 3 }))
+      .toEqual({ newAnswers: 0, previousStatus: null });
+  });
+
+  it("reports new answers and the previous status", () => {
+    expect(changesSinceVisit(visit, { status: "answered", answersCount: 3 }))
+      .toEqual({ newAnswers: 2, previousStatus: "open" });
+  });
+
+  it("ignores answers that were removed", () => {
+    expect(changesSinceVisit(visit, { status: "open", answersCount: 0 }))
+      .toEqual({ newAnswers: 0, previousStatus: null });
+  });
+});
+
+describe("recordQuestionVisit", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("stores visits per user", () => {
+    recordQuestionVisit("user-1", "q-1", { status: "open", answersCount: 2 });
+
+    expect(getQuestionVisits("user-1")["q-1"]).toMatchObject({ status: "open", answersCount: 2 });
+    expect(getQuestionVisits("user-2")).toEqual({});
+  });
+});
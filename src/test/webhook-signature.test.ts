@@ -0,0 +1,34 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { signWebhookPayload, webhookHeaders } from "../../supabase/functions/_shared/webhooks.ts";
+
+const body = '{"id":"d-1","event":"webhook.test"}';
+
+describe("signWebhookPayload", () => {
+  it("signs the timestamp and body with HMAC-SHA256", async () => {
+    expect(await signWebhookPayload("whsec_test", 1700000000, body))
+      .toBe("467680e116919d833f5d2f5c65e9ee667ceb304b2bca42e3eadc3f472cbb68fa");
+  });
+
+  it("changes when the body is tampered with", async () => {
+    const original = await signWebhookPayload("whsec_test", 1700000000, body);
+    expect(await signWebhookPayload("whsec_test", 1700000000, body.replace("d-1", "d-2"))).not.toBe(original);
+  });
+});
+
+describe("webhookHeaders", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("sends the current timestamp alongside a matching signature", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(1700000000 * 1000));
+
+    const headers = await webhookHeaders("whsec_test", "d-1", "webhook.test", body);
+
+    expect(headers["X-Webhook-Timestamp"]).toBe("1700000000");
+    expect(headers["X-Webhook-Event"]).toBe("webhook.test");
+    expect(headers["X-Webhook-Signature"])
+      .toBe("sha256=467680e116919d833f5d2f5c65e9ee667ceb304b2bca42e3eadc3f472cbb68fa");
+  });
+});
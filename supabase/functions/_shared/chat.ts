@@ -0,0 +1,146 @@
+// Slack Block Kit and Microsoft Teams Adaptive Card messages for department
+// activity, posted to the incoming webhooks set up in the admin panel.
+//
+// Like the email templates, this module has no Deno or remote imports, so
+// the web app's tests can import it directly.
+
+export type ChatPlatform = "slack" | "teams";
+
+export interface ChatQuestion {
+  id: string;
+  title: string;
+  content: string;
+  is_anonymous: boolean;
+  // Ignored for anonymous questions
+  authorName: string | null;
+}
+
+export type ChatEvent =
+  | { type: "question_created"; department: string; question: ChatQuestion }
+  | { type: "question_moved"; department: string; question: ChatQuestion; from: string | null }
+  | { type: "answer_official"; department: string; question: ChatQuestion; answer: { content: string; authorName: string } }
+  | { type: "question_status_changed"; department: string; question: ChatQuestion; from: string; to: string };
+
+interface ChatSummary {
+  heading: string;
+  title: string;
+  excerpt: string | null;
+  context: string;
+  url: string | null;
+}
+
+const truncate = (value: string, length: number) =>
+  value.length > length ? `${value.substring(0, length)}...` : value;
+
+const statusLabel = (status: string) =>
+  status.charAt(0).toUpperCase() + status.slice(1).replace(/_/g, " ");
+
+// Anonymous askers are never named, whatever the caller passed in
+const askedBy = (question: ChatQuestion) =>
+  question.is_anonymous ? "Anonymous" : question.authorName || "Unknown";
+
+function summarize(event: ChatEvent, appUrl: string | null): ChatSummary {
+  const url = appUrl ? `${appUrl.replace(/\/$/, "")}/question/${event.question.id}` : null;
+  const base = { title: event.question.title, url };
+
+  switch (event.type) {
+    case "question_created":
+      return {
+        ...base,
+        heading: `New question in ${event.department}`,
+        excerpt: truncate(event.question.content, 300),
+        context: `Asked by ${askedBy(event.question)}`,
+      };
+    case "question_moved":
+      return {
+        ...base,
+        heading: `Question moved to ${event.department}`,
+        excerpt: truncate(event.question.content, 300),
+        context: event.from
+          ? `Moved from ${event.from} · Asked by ${askedBy(event.question)}`
+          : `Asked by ${askedBy(event.question)}`,
+      };
+    case "answer_official":
+      return {
+        ...base,
+        heading: `Official answer in ${event.department}`,
+        excerpt: truncate(event.answer.content, 300),
+        context: `Answered by ${event.answer.authorName}`,
+      };
+    case "question_status_changed":
+      return {
+        ...base,
+        heading: `Question marked ${statusLabel(event.to)} in ${event.department}`,
+        excerpt: null,
+        context: `Status changed from ${statusLabel(event.from)} to ${statusLabel(event.to)}`,
+      };
+  }
+}
+
+// Slack treats &, < and > as control characters in mrkdwn and plain text
+const escapeSlack = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+function slackMessage(summary: ChatSummary) {
+  return {
+    text: `${escapeSlack(summary.heading)}: ${escapeSlack(summary.title)}`,
+    blocks: [
+      { type: "header", text: { type: "plain_text", text: truncate(summary.heading, 150) } },
+      {
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text: [
+            `*${escapeSlack(summary.title)}*`,
+            summary.excerpt && escapeSlack(summary.excerpt),
+          ].filter(Boolean).join("\n"),
+        },
+      },
+      { type: "context", elements: [{ type: "mrkdwn", text: escapeSlack(summary.context) }] },
+      ...(summary.url
+        ? [{
+          type: "actions",
+          elements: [{ type: "button", text: { type: "plain_text", text: "View question" }, url: summary.url }],
+        }]
+        : []),
+    ],
+  };
+}
+
+function teamsMessage(summary: ChatSummary) {
+  return {
+    type: "message",
+    attachments: [{
+      contentType: "application/vnd.microsoft.card.adaptive",
+      content: {
+        $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+        type: "AdaptiveCard",
+        version: "1.4",
+        body: [
+          { type: "TextBlock", text: summary.heading, size: "Medium", weight: "Bolder", wrap: true },
+          { type: "TextBlock", text: summary.title, weight: "Bolder", wrap: true },
+          ...(summary.excerpt ? [{ type: "TextBlock", text: summary.excerpt, wrap: true }] : []),
+          { type: "TextBlock", text: summary.context, isSubtle: true, size: "Small", wrap: true },
+        ],
+        actions: summary.url ? [{ type: "Action.OpenUrl", title: "View question", url: summary.url }] : [],
+      },
+    }],
+  };
+}
+
+export function chatMessage(platform: ChatPlatform, event: ChatEvent, appUrl: string | null) {
+  const summary = summarize(event, appUrl);
+  return platform === "slack" ? slackMessage(summary) : teamsMessage(summary);
+}
+
+export async function postChatMessage(url: string, message: unknown) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(message),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Webhook responded with ${response.status}: ${await response.text()}`);
+  }
+}
@@ -0,0 +1,62 @@
+import { Branding } from "./templates.ts";
+
+export type EmailProviderName = "resend" | "smtp" | "console" | "file";
+
+// Everything about outgoing email that differs between deployments
+export interface EmailConfig {
+  provider: EmailProviderName;
+  from: { name: string; address: string };
+  branding: Branding;
+  resend: { apiKey: string | undefined; apiUrl: string };
+  smtp: {
+    hostname: string | undefined;
+    port: number;
+    tls: boolean;
+    username: string | undefined;
+    password: string | undefined;
+  };
+  // Where the file provider writes messages
+  outboxDir: string;
+}
+
+const env = (name: string) => Deno.env.get(name) || undefined;
+
+function providerName(): EmailProviderName {
+  const configured = env("EMAIL_PROVIDER");
+  if (configured === "resend" || configured === "smtp" || configured === "console" || configured === "file") {
+    return configured;
+  }
+  if (configured) {
+    throw new Error(`Unknown EMAIL_PROVIDER "${configured}"`);
+  }
+  return env("SMTP_HOST") ? "smtp" : "resend";
+}
+
+export function loadEmailConfig(): EmailConfig {
+  const productName = env("EMAIL_BRAND_NAME") ?? "GetBlock Q&A";
+
+  return {
+    provider: providerName(),
+    from: {
+      name: env("EMAIL_FROM_NAME") ?? productName,
+      address: env("EMAIL_FROM_ADDRESS") ?? "notifications@getblock.io",
+    },
+    branding: {
+      productName,
+      accentColor: env("EMAIL_ACCENT_COLOR") ?? "#333333",
+      appUrl: env("APP_URL") ?? null,
+    },
+    resend: {
+      apiKey: env("RESEND_API_KEY"),
+      apiUrl: env("RESEND_API_URL") ?? "https://api.resend.com",
+    },
+    smtp: {
+      hostname: env("SMTP_HOST"),
+      port: Number(env("SMTP_PORT") ?? 1025),
+      tls: env("SMTP_TLS") === "true",
+      username: env("SMTP_USERNAME"),
+      password: env("SMTP_PASSWORD"),
+    },
+    outboxDir: env("EMAIL_OUTBOX_DIR") ?? "/tmp/emails",
+  };
+}
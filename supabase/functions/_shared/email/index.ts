@@ -0,0 +1,24 @@
+import { loadEmailConfig } from "./config.ts";
+import { createEmailProvider } from "./providers.ts";
+import { RenderedEmail } from "./templates.ts";
+
+// Outgoing email for edge functions. EMAIL_PROVIDER picks Resend, SMTP, or the
+// console and file sinks for development; see config.ts for the other
+// settings. To test against a local catcher such as Mailpit, use the smtp
+// provider, or point RESEND_API_URL at a stand-in for Resend's POST /emails.
+// Functions importing this module need denomailer in their deno.json.
+
+export { newQuestionEmail, notificationEmail } from "./templates.ts";
+export type { RenderedEmail } from "./templates.ts";
+
+export const emailConfig = loadEmailConfig();
+
+const provider = createEmailProvider(emailConfig);
+
+export async function sendEmail(to: string, email: RenderedEmail) {
+  await provider.send({
+    from: `${emailConfig.from.name} <${emailConfig.from.address}>`,
+    to,
+    ...email,
+  });
+}
@@ -0,0 +1,101 @@
+import { SMTPClient } from "denomailer";
+import { EmailConfig } from "./config.ts";
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailProvider {
+  name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+export function resendProvider(config: EmailConfig["resend"]): EmailProvider {
+  return {
+    name: "resend",
+    async send(message) {
+      if (!config.apiKey) throw new Error("RESEND_API_KEY is not set");
+
+      const response = await fetch(`${config.apiUrl}/emails`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${config.apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ ...message, to: [message.to] }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Resend responded ${response.status}: ${await response.text()}`);
+      }
+    },
+  };
+}
+
+export function smtpProvider(config: EmailConfig["smtp"]): EmailProvider {
+  return {
+    name: "smtp",
+    async send(message) {
+      if (!config.hostname) throw new Error("SMTP_HOST is not set");
+
+      const client = new SMTPClient({
+        connection: {
+          hostname: config.hostname,
+          port: config.port,
+          tls: config.tls,
+          auth: config.username ? { username: config.username, password: config.password ?? "" } : undefined,
+        },
+      });
+      try {
+        await client.send({
+          from: message.from,
+          to: message.to,
+          subject: message.subject,
+          html: message.html,
+          content: message.text,
+        });
+      } finally {
+        await client.close();
+      }
+    },
+  };
+}
+
+// Logs messages instead of sending them, for local development
+export function consoleProvider(): EmailProvider {
+  return {
+    name: "console",
+    send(message) {
+      console.log(`[email] To: ${message.to}\nFrom: ${message.from}\nSubject: ${message.subject}\n\n${message.text}`);
+      return Promise.resolve();
+    },
+  };
+}
+
+// Writes each message to a JSON file, for inspecting output in tests
+export function fileProvider(dir: string): EmailProvider {
+  return {
+    name: "file",
+    async send(message) {
+      await Deno.mkdir(dir, { recursive: true });
+      await Deno.writeTextFile(`${dir}/${Date.now()}-${crypto.randomUUID()}.json`, JSON.stringify(message, null, 2));
+    },
+  };
+}
+
+export function createEmailProvider(config: EmailConfig): EmailProvider {
+  switch (config.provider) {
+    case "smtp":
+      return smtpProvider(config.smtp);
+    case "console":
+      return consoleProvider();
+    case "file":
+      return fileProvider(config.outboxDir);
+    case "resend":
+      return resendProvider(config.resend);
+  }
+}
@@ -0,0 +1,160 @@
+// Email templates. Values interpolated with html`` are escaped unless they
+// are themselves html`` fragments, so user content can't inject markup.
+// Every template renders a plain-text alternative alongside the HTML.
+//
+// This module has no Deno or remote imports, so the web app's tests can
+// import it directly.
+
+export interface Branding {
+  productName: string;
+  accentColor: string;
+  // Links back to the app are left out when this isn't configured
+  appUrl: string | null;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface SafeHtml {
+  readonly __html: string;
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+export const escapeHtml = (value: string) => value.replace(/[&<>"']/g, c => HTML_ESCAPES[c]);
+
+const isSafeHtml = (value: unknown): value is SafeHtml =>
+  typeof value === "object" && value !== null && "__html" in value;
+
+function interpolate(value: unknown): string {
+  if (value === null || value === undefined || value === false) return "";
+  if (Array.isArray(value)) return value.map(interpolate).join("");
+  if (isSafeHtml(value)) return value.__html;
+  return escapeHtml(String(value));
+}
+
+export function html(strings: TemplateStringsArray, ...values: unknown[]): SafeHtml {
+  return {
+    __html: strings.reduce((out, string, i) => out + string + (i < values.length ? interpolate(values[i]) : ""), ""),
+  };
+}
+
+const truncate = (value: string, length: number) =>
+  value.length > length ? `${value.substring(0, length)}...` : value;
+
+const questionUrl = (branding: Branding, questionId: string) =>
+  branding.appUrl ? `${branding.appUrl.replace(/\/$/, "")}/question/${questionId}` : null;
+
+function layout(branding: Branding, content: { heading?: string; body: SafeHtml; text: string }) {
+  const footer = `This is an automated notification from ${branding.productName}.`;
+
+  return {
+    html: html`
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        ${content.heading && html`<h2 style="color: ${branding.accentColor};">${content.heading}</h2>`}
+        ${content.body}
+        <p style="color: #888; font-size: 12px; margin-top: 30px;">${footer}</p>
+      </div>
+    `.__html,
+    text: [content.heading, content.text, `--\n${footer}`].filter(Boolean).join("\n\n"),
+  };
+}
+
+export interface NewQuestionEmail {
+  questionId: string;
+  recipientName: string;
+  departmentName: string;
+  title: string;
+  content: string;
+  authorName: string;
+  // Set when the question was moved here from another department
+  movedFrom?: string | null;
+}
+
+export function newQuestionEmail(branding: Branding, data: NewQuestionEmail): RenderedEmail {
+  const excerpt = truncate(data.content, 300);
+  const url = questionUrl(branding, data.questionId);
+  const intro = data.movedFrom
+    ? html`A question has been moved from <strong>${data.movedFrom}</strong> to the <strong>${data.departmentName}</strong> department and requires your attention.`
+    : html`A new question has been submitted to the <strong>${data.departmentName}</strong> department that requires your attention.`;
+
+  return {
+    subject: data.movedFrom
+      ? `Question Moved to ${data.departmentName} Department`
+      : `New Question in ${data.departmentName} Department`,
+    ...layout(branding, {
+      heading: data.movedFrom ? "Question Moved to Your Department" : "New Question Received",
+      body: html`
+        <p>Hi ${data.recipientName},</p>
+        <p>${intro}</p>
+        <div style="background-color: #f5f5f5; padding: 20px; border-radius: 8px; margin: 20px 0;">
+          <h3 style="color: #333; margin-top: 0;">${data.title}</h3>
+          <p style="color: #666;">${excerpt}</p>
+          <p style="color: #888; font-size: 14px;">Asked by: ${data.authorName}</p>
+        </div>
+        ${url && html`<p><a href="${url}" style="color: ${branding.accentColor};">View the question</a></p>`}
+        <p>Please review and respond to this question at your earliest convenience.</p>
+      `,
+      text: [
+        `Hi ${data.recipientName},`,
+        data.movedFrom
+          ? `A question has been moved from ${data.movedFrom} to the ${data.departmentName} department and requires your attention.`
+          : `A new question has been submitted to the ${data.departmentName} department that requires your attention.`,
+        `${data.title}\n\n${excerpt}\n\nAsked by: ${data.authorName}`,
+        url && `View the question: ${url}`,
+      ].filter(Boolean).join("\n\n"),
+    }),
+  };
+}
+
+export interface NotificationItem {
+  questionId: string;
+  description: string;
+}
+
+export interface NotificationEmail {
+  subject: string;
+  recipientName: string;
+  intro: string;
+  items: NotificationItem[];
+}
+
+// A single instant notification, or a digest of several
+export function notificationEmail(branding: Branding, data: NotificationEmail): RenderedEmail {
+  const items = data.items.map(item => ({ ...item, url: questionUrl(branding, item.questionId) }));
+  const settingsNote = "You can change which emails you receive in your notification settings.";
+
+  return {
+    subject: data.subject,
+    ...layout(branding, {
+      body: html`
+        <p>Hi ${data.recipientName},</p>
+        <p>${data.intro}</p>
+        <ul style="padding-left: 20px;">
+          ${items.map(item => html`
+            <li style="margin-bottom: 8px; color: #333;">
+              ${item.description}
+              ${item.url && html` <a href="${item.url}" style="color: ${branding.accentColor};">View</a>`}
+            </li>
+          `)}
+        </ul>
+        <p style="color: #888; font-size: 12px;">${settingsNote}</p>
+      `,
+      text: [
+        `Hi ${data.recipientName},`,
+        data.intro,
+        items.map(item => `- ${item.description}${item.url ? `\n  ${item.url}` : ""}`).join("\n"),
+        settingsNote,
+      ].join("\n\n"),
+    }),
+  };
+}
@@ -0,0 +1,34 @@
+// Signing for outgoing webhooks. Receivers verify a delivery by computing
+// HMAC-SHA256 over "<timestamp>.<raw body>" with the webhook's secret and
+// comparing it to the X-Webhook-Signature header, then rejecting stale
+// timestamps to prevent replays.
+//
+// This module has no Deno or remote imports, so the web app's tests can
+// import it directly.
+
+const encoder = new TextEncoder();
+
+export async function signWebhookPayload(secret: string, timestamp: number, body: string) {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${body}`));
+
+  return [...new Uint8Array(signature)].map(b => b.toString(16).padStart(2, "0")).join("");
+}
+
+export async function webhookHeaders(secret: string, deliveryId: string, event: string, body: string) {
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  return {
+    "Content-Type": "application/json",
+    "X-Webhook-Id": deliveryId,
+    "X-Webhook-Event": event,
+    "X-Webhook-Timestamp": String(timestamp),
+    "X-Webhook-Signature": `sha256=${await signWebhookPayload(secret, timestamp, body)}`,
+  };
+}
@@ -0,0 +1,118 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.91.0";
+import { errorMessage } from "../_shared/errors.ts";
+import { webhookHeaders } from "../_shared/webhooks.ts";
+
+// Sends due webhook deliveries, signed with each webhook's secret. Any
+// non-2xx response or network error is a failure; retry timing and giving up
+// live in complete_webhook_delivery(). Invoked every minute by pg_cron with
+// the service role key.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const BATCH_SIZE = 50;
+const REQUEST_TIMEOUT_MS = 10_000;
+
+interface WebhookDelivery {
+  id: string;
+  webhook_id: string;
+  event: string;
+  payload: Record<string, unknown>;
+  attempts: number;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    if (req.headers.get("Authorization") !== `Bearer ${supabaseServiceKey}`) {
+      return json({ error: "Unauthorized" }, 401);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    const { data: claimed, error: claimError } = await supabase.rpc("claim_webhook_deliveries", {
+      _limit: BATCH_SIZE,
+    });
+    if (claimError) {
+      console.error("Error claiming webhook deliveries:", claimError);
+      throw new Error("Failed to claim webhook deliveries");
+    }
+
+    const deliveries = (claimed ?? []) as WebhookDelivery[];
+    if (deliveries.length === 0) {
+      return json({ message: "Nothing to deliver" });
+    }
+
+    const { data: webhooks, error: webhooksError } = await supabase
+      .from("webhooks")
+      .select("id, url, secret")
+      .in("id", [...new Set(deliveries.map(d => d.webhook_id))]);
+
+    if (webhooksError) {
+      console.error("Error fetching webhooks:", webhooksError);
+      throw new Error("Failed to fetch webhooks");
+    }
+
+    const webhooksById = new Map((webhooks ?? []).map(w => [w.id, w]));
+
+    let sent = 0;
+    for (const delivery of deliveries) {
+      let responseStatus: number | null = null;
+      let responseBody: string | null = null;
+      let failure: string | null = null;
+
+      try {
+        const webhook = webhooksById.get(delivery.webhook_id);
+        if (!webhook) throw new Error("Webhook no longer exists");
+
+        // The delivery id doubles as an idempotency key for receivers
+        const body = JSON.stringify({ id: delivery.id, ...delivery.payload });
+        const response = await fetch(webhook.url, {
+          method: "POST",
+          headers: await webhookHeaders(webhook.secret, delivery.id, delivery.event, body),
+          body,
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+
+        responseStatus = response.status;
+        responseBody = await response.text();
+        if (!response.ok) throw new Error(`Endpoint responded with ${response.status}`);
+        sent++;
+      } catch (error) {
+        failure = errorMessage(error);
+        console.error(`Webhook delivery ${delivery.id} failed on attempt ${delivery.attempts}:`, failure);
+      }
+
+      const { error: completeError } = await supabase.rpc("complete_webhook_delivery", {
+        _delivery_id: delivery.id,
+        _response_status: responseStatus,
+        _response_body: responseBody,
+        _error: failure,
+      });
+      if (completeError) {
+        console.error(`Error recording webhook delivery ${delivery.id}:`, completeError);
+      }
+    }
+
+    return json({ message: `Sent ${sent}/${deliveries.length} webhook deliveries` });
+  } catch (error) {
+    console.error("Error in dispatch-webhooks function:", errorMessage(error));
+    return json({ error: "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,237 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.91.0";
+import { emailConfig, newQuestionEmail, sendEmail } from "../_shared/email/index.ts";
+import { errorMessage } from "../_shared/errors.ts";
+import { ChatEvent, ChatPlatform, chatMessage, postChatMessage } from "../_shared/chat.ts";
+
+// Drains the notification outbox: expands new events into deliveries to
+// users by email and to department Slack or Teams webhooks, then sends every
+// delivery that is due. Retry timing and dead-lettering live in
+// complete_notification_delivery(). Invoked every minute by pg_cron with the
+// service role key.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const BATCH_SIZE = 50;
+
+interface Delivery {
+  id: string;
+  outbox_id: string;
+  question_id: string;
+  recipient_id: string | null;
+  webhook_id: string | null;
+  channel: "email" | ChatPlatform;
+  attempts: number;
+}
+
+interface OutboxEvent {
+  id: string;
+  event_type: ChatEvent["type"];
+  answer_id: string | null;
+  data: { from?: string; to?: string };
+}
+
+interface QuestionRow {
+  id: string;
+  title: string;
+  content: string;
+  is_anonymous: boolean;
+  author_id: string | null;
+  department: { name: string } | null;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+function toChatEvent(
+  event: OutboxEvent,
+  base: Pick<ChatEvent, "department" | "question">,
+  answer: { content: string; authorName: string } | null,
+): ChatEvent {
+  switch (event.event_type) {
+    case "question_created":
+      return { type: "question_created", ...base };
+    case "question_moved":
+      return { type: "question_moved", ...base, from: event.data.from ?? null };
+    case "answer_official":
+      if (!answer) throw new Error("Answer no longer exists");
+      return { type: "answer_official", ...base, answer };
+    case "question_status_changed":
+      return { type: "question_status_changed", ...base, from: event.data.from ?? "unknown", to: event.data.to ?? "unknown" };
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    if (req.headers.get("Authorization") !== `Bearer ${supabaseServiceKey}`) {
+      return json({ error: "Unauthorized" }, 401);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    const { data: expanded, error: expandError } = await supabase.rpc("expand_notification_outbox");
+    if (expandError) {
+      console.error("Error expanding outbox:", expandError);
+      throw new Error("Failed to expand outbox");
+    }
+    console.log(`Created ${expanded} deliveries from the outbox`);
+
+    const { data: claimed, error: claimError } = await supabase.rpc("claim_notification_deliveries", {
+      _limit: BATCH_SIZE,
+    });
+    if (claimError) {
+      console.error("Error claiming deliveries:", claimError);
+      throw new Error("Failed to claim deliveries");
+    }
+
+    const deliveries = (claimed ?? []) as Delivery[];
+    if (deliveries.length === 0) {
+      return json({ message: "Nothing to deliver", expanded });
+    }
+
+    const questionIds = [...new Set(deliveries.map(d => d.question_id))];
+    const { data: questions, error: questionsError } = await supabase
+      .from("questions")
+      .select("id, title, content, is_anonymous, author_id, department:departments(name)")
+      .in("id", questionIds);
+
+    if (questionsError) {
+      console.error("Error fetching questions:", questionsError);
+      throw new Error("Failed to fetch questions");
+    }
+
+    const questionsById = new Map((questions as unknown as QuestionRow[]).map(q => [q.id, q]));
+
+    const { data: events, error: eventsError } = await supabase
+      .from("notification_outbox")
+      .select("id, event_type, answer_id, data")
+      .in("id", [...new Set(deliveries.map(d => d.outbox_id))]);
+
+    if (eventsError) {
+      console.error("Error fetching outbox events:", eventsError);
+      throw new Error("Failed to fetch outbox events");
+    }
+
+    const eventsById = new Map((events as OutboxEvent[]).map(e => [e.id, e]));
+
+    const webhookIds = [...new Set(deliveries.flatMap(d => d.webhook_id ? [d.webhook_id] : []))];
+    const answerIds = [...new Set((events as OutboxEvent[]).flatMap(e => e.answer_id ? [e.answer_id] : []))];
+
+    const [{ data: webhooks, error: webhooksError }, { data: answers, error: answersError }] = await Promise.all([
+      supabase.from("department_webhooks").select("id, url").in("id", webhookIds),
+      supabase.from("answers").select("id, content, author_id").in("id", answerIds),
+    ]);
+
+    if (webhooksError || answersError) {
+      console.error("Error fetching webhooks or answers:", webhooksError ?? answersError);
+      throw new Error("Failed to fetch webhooks or answers");
+    }
+
+    const webhooksById = new Map((webhooks ?? []).map(w => [w.id, w]));
+    const answersById = new Map((answers ?? []).map(a => [a.id, a]));
+
+    // Recipients, answer authors, and the authors of questions that aren't anonymous
+    const userIds = [
+      ...new Set([
+        ...deliveries.flatMap(d => d.recipient_id ? [d.recipient_id] : []),
+        ...(answers ?? []).flatMap(a => a.author_id ? [a.author_id] : []),
+        ...[...questionsById.values()].flatMap(q => !q.is_anonymous && q.author_id ? [q.author_id] : []),
+      ]),
+    ];
+    const { data: profiles, error: profilesError } = await supabase
+      .from("profiles")
+      .select("user_id, email, full_name")
+      .in("user_id", userIds);
+
+    if (profilesError) {
+      console.error("Error fetching profiles:", profilesError);
+      throw new Error("Failed to fetch profiles");
+    }
+
+    const profilesById = new Map((profiles ?? []).map(p => [p.user_id, p]));
+    const nameOf = (userId: string | null) => {
+      const profile = userId ? profilesById.get(userId) : null;
+      return profile ? profile.full_name || profile.email : null;
+    };
+
+    let sent = 0;
+    for (const delivery of deliveries) {
+      let failure: string | null = null;
+
+      try {
+        const question = questionsById.get(delivery.question_id);
+        const event = eventsById.get(delivery.outbox_id);
+        if (!question) throw new Error("Question no longer exists");
+        if (!event) throw new Error("Outbox event no longer exists");
+
+        const authorName = question.is_anonymous ? null : nameOf(question.author_id);
+
+        if (delivery.channel === "email") {
+          const recipient = delivery.recipient_id ? profilesById.get(delivery.recipient_id) : null;
+          if (!recipient) throw new Error("Recipient has no profile");
+
+          await sendEmail(recipient.email, newQuestionEmail(emailConfig.branding, {
+            questionId: question.id,
+            recipientName: recipient.full_name || "Admin",
+            departmentName: question.department?.name ?? "your",
+            title: question.title,
+            content: question.content,
+            authorName: authorName ?? "Anonymous",
+            movedFrom: event.event_type === "question_moved" ? event.data.from ?? null : null,
+          }));
+        } else {
+          const webhook = delivery.webhook_id ? webhooksById.get(delivery.webhook_id) : null;
+          if (!webhook) throw new Error("Webhook no longer exists");
+
+          const answer = event.answer_id ? answersById.get(event.answer_id) : null;
+          const chatEvent = toChatEvent(
+            event,
+            {
+              department: question.department?.name ?? "Unknown department",
+              question: {
+                id: question.id,
+                title: question.title,
+                content: question.content,
+                is_anonymous: question.is_anonymous,
+                authorName,
+              },
+            },
+            answer ? { content: answer.content, authorName: nameOf(answer.author_id) ?? "Unknown" } : null,
+          );
+          await postChatMessage(webhook.url, chatMessage(delivery.channel, chatEvent, emailConfig.branding.appUrl));
+        }
+        sent++;
+      } catch (error) {
+        failure = errorMessage(error);
+        console.error(`Delivery ${delivery.id} failed on attempt ${delivery.attempts}:`, failure);
+      }
+
+      const { error: completeError } = await supabase.rpc("complete_notification_delivery", {
+        _delivery_id: delivery.id,
+        _error: failure,
+      });
+      if (completeError) {
+        console.error(`Error recording delivery ${delivery.id}:`, completeError);
+      }
+    }
+
+    return json({ message: `Sent ${sent}/${deliveries.length} deliveries`, expanded });
+  } catch (error) {
+    console.error("Error in process-notification-outbox function:", errorMessage(error));
+    return json({ error: "Internal server error" }, 500);
+  }
+});
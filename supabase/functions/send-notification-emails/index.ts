@@ -0,0 +1,204 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.91.0";
+import { emailConfig, notificationEmail, sendEmail } from "../_shared/email/index.ts";
+import { errorMessage } from "../_shared/errors.ts";
+
+// Sends notification emails for one frequency: each pending 'instant'
+// notification on its own, or every pending 'daily'/'weekly' notification of
+// a recipient as a single digest. Invoked by pg_cron with the service role key.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+type Frequency = "instant" | "daily" | "weekly";
+
+interface PendingNotification {
+  id: string;
+  recipient_id: string;
+  type: string;
+  question_id: string;
+  data: Record<string, unknown> | null;
+  created_at: string;
+  question: { title: string } | null;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+function describe(notification: PendingNotification) {
+  const title = `"${notification.question?.title ?? "a question"}"`;
+  const data = notification.data ?? {};
+
+  switch (notification.type) {
+    case "department_question":
+      if (typeof data.department === "string" && typeof data.moved_from === "string") {
+        return `Question moved from ${data.moved_from} to ${data.department}: ${title}`;
+      }
+      return typeof data.department === "string"
+        ? `New question in ${data.department}: ${title}`
+        : `New question in your department: ${title}`;
+    case "new_answer":
+    case "following_new_answer":
+      return `New answer on ${title}`;
+    case "following_status_changed":
+      return typeof data.to === "string" ? `${title} is now ${data.to.replace(/_/g, " ")}` : `The status of ${title} changed`;
+    case "question_assigned":
+      return `You were assigned ${title}`;
+    case "sla_overdue": {
+      const overdue = typeof data.department === "string"
+        ? `${title} in ${data.department} is overdue for an answer`
+        : `${title} is overdue for an answer`;
+      return data.escalation === "admins" ? `Escalated: ${overdue}` : overdue;
+    }
+    case "following_new_question":
+      return typeof data.department === "string"
+        ? `New question in ${data.department}, which you follow: ${title}`
+        : `New question: ${title}`;
+    case "comment_reply":
+      return `Someone replied to your comment on ${title}`;
+    case "mention":
+      return `You were mentioned on ${title}`;
+    default:
+      return `Update on ${title}`;
+  }
+}
+
+const toItem = (notification: PendingNotification) => ({
+  questionId: notification.question_id,
+  description: describe(notification),
+});
+
+function buildEmails(frequency: Frequency, recipientName: string, notifications: PendingNotification[]) {
+  if (frequency === "instant") {
+    return notifications.map(n => ({
+      ids: [n.id],
+      email: notificationEmail(emailConfig.branding, {
+        subject: describe(n),
+        recipientName,
+        intro: "There's something new for you:",
+        items: [toItem(n)],
+      }),
+    }));
+  }
+
+  const period = frequency === "daily" ? "day" : "week";
+  const count = notifications.length;
+  return [{
+    ids: notifications.map(n => n.id),
+    email: notificationEmail(emailConfig.branding, {
+      subject: `Your ${frequency} digest: ${count} update${count === 1 ? "" : "s"}`,
+      recipientName,
+      intro: `Here's what happened over the past ${period}:`,
+      items: notifications.map(toItem),
+    }),
+  }];
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    // Only the scheduler, which holds the service role key, may trigger sends
+    if (req.headers.get("Authorization") !== `Bearer ${supabaseServiceKey}`) {
+      return json({ error: "Unauthorized" }, 401);
+    }
+
+    const { frequency } = await req.json() as { frequency?: Frequency };
+    if (!frequency || !["instant", "daily", "weekly"].includes(frequency)) {
+      return json({ error: "frequency must be instant, daily or weekly" }, 400);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    // Claim the pending notifications first, so overlapping runs can't send twice
+    let claim = supabase
+      .from("notifications")
+      .update({ emailed_at: new Date().toISOString() })
+      .eq("email_frequency", frequency)
+      .is("emailed_at", null)
+      .not("recipient_id", "is", null);
+
+    // Instant emails about new department questions go through process-notification-outbox
+    if (frequency === "instant") {
+      claim = claim.neq("type", "department_question");
+    }
+
+    const { data: claimed, error: claimError } = await claim
+      .select("id, recipient_id, type, question_id, data, created_at, question:questions(title)");
+
+    if (claimError) {
+      console.error("Error claiming notifications:", claimError);
+      throw new Error("Failed to claim notifications");
+    }
+
+    const notifications = (claimed ?? []) as unknown as PendingNotification[];
+    console.log(`Claimed ${notifications.length} ${frequency} notifications`);
+
+    if (notifications.length === 0) {
+      return json({ message: "Nothing to send" });
+    }
+
+    const byRecipient = new Map<string, PendingNotification[]>();
+    for (const notification of notifications) {
+      const list = byRecipient.get(notification.recipient_id) ?? [];
+      list.push(notification);
+      byRecipient.set(notification.recipient_id, list);
+    }
+
+    const { data: profiles, error: profilesError } = await supabase
+      .from("profiles")
+      .select("user_id, email, full_name")
+      .in("user_id", [...byRecipient.keys()]);
+
+    if (profilesError) {
+      console.error("Error fetching recipient profiles:", profilesError);
+      throw new Error("Failed to fetch recipient profiles");
+    }
+
+    const failedIds: string[] = [];
+    let sent = 0;
+
+    for (const profile of profiles ?? []) {
+      const pending = byRecipient.get(profile.user_id) ?? [];
+      pending.sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+      for (const { ids, email } of buildEmails(frequency, profile.full_name || "there", pending)) {
+        try {
+          await sendEmail(profile.email, email);
+          sent++;
+        } catch (error) {
+          console.error(`Failed to email user_id ${profile.user_id}:`, errorMessage(error));
+          failedIds.push(...ids);
+        }
+      }
+    }
+
+    // Release failed notifications so the next run retries them
+    if (failedIds.length > 0) {
+      const { error: releaseError } = await supabase
+        .from("notifications")
+        .update({ emailed_at: null })
+        .in("id", failedIds);
+
+      if (releaseError) {
+        console.error("Error releasing failed notifications:", releaseError);
+      }
+    }
+
+    return json({ message: `Sent ${sent} ${frequency} emails`, failed: failedIds.length });
+  } catch (error) {
+    console.error("Error in send-notification-emails function:", errorMessage(error));
+    return json({ error: "Internal server error" }, 500);
+  }
+});
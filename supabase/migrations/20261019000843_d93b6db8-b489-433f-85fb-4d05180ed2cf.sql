@@ -0,0 +1,122 @@
+-- Full-text search over questions, answers and comments
+
+-- Searchable document for each table (title weighted above body text)
+ALTER TABLE public.questions
+ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(content, '')), 'B')
+) STORED;
+
+ALTER TABLE public.answers
+ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  to_tsvector('english', coalesce(content, ''))
+) STORED;
+
+ALTER TABLE public.comments
+ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  to_tsvector('english', coalesce(content, ''))
+) STORED;
+
+CREATE INDEX idx_questions_search_vector ON public.questions USING GIN (search_vector);
+CREATE INDEX idx_answers_search_vector ON public.answers USING GIN (search_vector);
+CREATE INDEX idx_comments_search_vector ON public.comments USING GIN (search_vector);
+
+-- Ranked search returning one row per question with a highlighted snippet
+-- taken from whichever part of the thread matched best.
+-- Highlights are wrapped in [[hl]]...[[/hl]] markers rather than HTML so the
+-- client can render them without injecting user content as markup.
+CREATE OR REPLACE FUNCTION public.search_questions(
+  _query TEXT,
+  _department_id UUID DEFAULT NULL,
+  _status TEXT DEFAULT NULL,
+  _limit INTEGER DEFAULT 20,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  title_highlight TEXT,
+  snippet TEXT,
+  matched_in TEXT,
+  status TEXT,
+  department_id UUID,
+  department_name TEXT,
+  is_anonymous BOOLEAN,
+  upvotes INTEGER,
+  downvotes INTEGER,
+  answers_count INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE,
+  rank REAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', coalesce(_query, '')) AS query
+  ),
+  question_hits AS (
+    SELECT qs.id AS question_id,
+           ts_rank(qs.search_vector, q.query) AS rank,
+           qs.content AS body,
+           'question'::TEXT AS source
+    FROM public.questions qs, q
+    WHERE qs.search_vector @@ q.query
+  ),
+  answer_hits AS (
+    SELECT a.question_id,
+           ts_rank(a.search_vector, q.query) * 0.6 AS rank,
+           a.content AS body,
+           'answer'::TEXT AS source
+    FROM public.answers a, q
+    WHERE a.search_vector @@ q.query
+  ),
+  comment_hits AS (
+    SELECT a.question_id,
+           ts_rank(c.search_vector, q.query) * 0.3 AS rank,
+           c.content AS body,
+           'comment'::TEXT AS source
+    FROM public.comments c
+    JOIN public.answers a ON a.id = c.answer_id, q
+    WHERE c.search_vector @@ q.query
+  ),
+  hits AS (
+    SELECT * FROM question_hits
+    UNION ALL SELECT * FROM answer_hits
+    UNION ALL SELECT * FROM comment_hits
+  ),
+  best AS (
+    SELECT DISTINCT ON (question_id)
+           question_id, body, source,
+           sum(rank) OVER (PARTITION BY question_id) AS total_rank
+    FROM hits
+    ORDER BY question_id, rank DESC
+  )
+  SELECT qs.id,
+         qs.title,
+         ts_headline('english', qs.title, q.query,
+           'StartSel="[[hl]]", StopSel="[[/hl]]", HighlightAll=true'),
+         ts_headline('english', best.body, q.query,
+           'StartSel="[[hl]]", StopSel="[[/hl]]", MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … "'),
+         best.source,
+         qs.status,
+         qs.department_id,
+         d.name,
+         qs.is_anonymous,
+         qs.upvotes,
+         qs.downvotes,
+         (SELECT count(*)::INTEGER FROM public.answers a WHERE a.question_id = qs.id),
+         qs.created_at,
+         best.total_rank::REAL
+  FROM best
+  JOIN public.questions qs ON qs.id = best.question_id
+  LEFT JOIN public.departments d ON d.id = qs.department_id,
+  q
+  WHERE (_department_id IS NULL OR qs.department_id = _department_id)
+    AND (_status IS NULL OR qs.status = _status)
+  ORDER BY best.total_rank DESC, qs.created_at DESC
+  LIMIT greatest(least(_limit, 100), 1)
+  OFFSET greatest(_offset, 0)
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_questions(TEXT, UUID, TEXT, INTEGER, INTEGER) TO authenticated;
@@ -0,0 +1,10 @@
+-- Indexes backing keyset pagination of the questions feed and admin table.
+-- Each matches the (descending) ORDER BY used for a sort option.
+CREATE INDEX idx_questions_trending ON public.questions (upvotes DESC, created_at DESC, id DESC);
+CREATE INDEX idx_questions_newest ON public.questions (created_at DESC, id DESC);
+CREATE INDEX idx_questions_answered ON public.questions (status, updated_at DESC, id DESC);
+CREATE INDEX idx_questions_department_newest ON public.questions (department_id, created_at DESC, id DESC);
+
+-- Speeds up answer counts and per-user vote lookups for a page of questions
+CREATE INDEX idx_answers_question_id ON public.answers (question_id);
+CREATE INDEX idx_votes_user_question ON public.votes (user_id, question_id);
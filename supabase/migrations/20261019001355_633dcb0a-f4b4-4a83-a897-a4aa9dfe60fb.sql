@@ -0,0 +1,6 @@
+-- Broadcast question, answer and comment changes over Supabase Realtime.
+-- Note: with RLS enabled, DELETE events can't be filtered and only carry the
+-- primary key, so clients match deletions by id.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.questions;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.answers;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.comments;
@@ -0,0 +1,128 @@
+-- Answer voting and accepted answers
+
+-- Denormalized counters and accepted flag on answers
+ALTER TABLE public.answers
+ADD COLUMN upvotes INTEGER DEFAULT 0 NOT NULL,
+ADD COLUMN downvotes INTEGER DEFAULT 0 NOT NULL,
+ADD COLUMN is_accepted BOOLEAN DEFAULT false NOT NULL;
+
+-- At most one accepted answer per question
+CREATE UNIQUE INDEX idx_answers_one_accepted_per_question
+ON public.answers (question_id)
+WHERE is_accepted;
+
+-- Answer votes, one per user per answer (mirrors public.votes)
+CREATE TABLE public.answer_votes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    answer_id UUID REFERENCES public.answers(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    vote_type TEXT CHECK (vote_type IN ('up', 'down')) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    UNIQUE (answer_id, user_id)
+);
+
+ALTER TABLE public.answer_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_answer_votes_user_answer ON public.answer_votes (user_id, answer_id);
+
+CREATE POLICY "Users can view their own answer votes"
+ON public.answer_votes FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own answer votes"
+ON public.answer_votes FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own answer votes"
+ON public.answer_votes FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own answer votes"
+ON public.answer_votes FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Keep answer vote counters in sync
+CREATE OR REPLACE FUNCTION public.update_answer_votes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('DELETE', 'UPDATE') THEN
+    IF OLD.vote_type = 'up' THEN
+      UPDATE public.answers SET upvotes = upvotes - 1 WHERE id = OLD.answer_id;
+    ELSE
+      UPDATE public.answers SET downvotes = downvotes - 1 WHERE id = OLD.answer_id;
+    END IF;
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    IF NEW.vote_type = 'up' THEN
+      UPDATE public.answers SET upvotes = upvotes + 1 WHERE id = NEW.answer_id;
+    ELSE
+      UPDATE public.answers SET downvotes = downvotes + 1 WHERE id = NEW.answer_id;
+    END IF;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER update_answer_votes_trigger
+AFTER INSERT OR UPDATE OR DELETE ON public.answer_votes
+FOR EACH ROW EXECUTE FUNCTION public.update_answer_votes();
+
+-- Answer authors may only edit their content; counters, the official flag and
+-- the accepted flag are managed by triggers and security definer functions.
+REVOKE UPDATE ON public.answers FROM anon, authenticated;
+GRANT UPDATE (content) ON public.answers TO authenticated;
+
+-- Whether the current user owns a question. Takes no user argument so it
+-- can't be used to probe who asked an anonymous question.
+CREATE OR REPLACE FUNCTION public.is_question_owner(_question_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.questions
+    WHERE id = _question_id
+      AND author_id IS NOT NULL
+      AND author_id = auth.uid()
+  )
+$$;
+
+-- Mark (or unmark) an answer as the accepted one for its question
+CREATE OR REPLACE FUNCTION public.accept_answer(_answer_id UUID, _accepted BOOLEAN DEFAULT true)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _question_id UUID;
+BEGIN
+  SELECT question_id INTO _question_id FROM public.answers WHERE id = _answer_id;
+
+  IF _question_id IS NULL THEN
+    RAISE EXCEPTION 'Answer not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT (public.is_question_owner(_question_id) OR public.has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'Only the question author can accept an answer' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.answers
+  SET is_accepted = false
+  WHERE question_id = _question_id AND is_accepted AND id <> _answer_id;
+
+  UPDATE public.answers
+  SET is_accepted = _accepted
+  WHERE id = _answer_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_question_owner(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_answer(UUID, BOOLEAN) TO authenticated;
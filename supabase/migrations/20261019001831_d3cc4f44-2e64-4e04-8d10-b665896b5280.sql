@@ -0,0 +1,128 @@
+-- Editing and revision history for questions, answers and comments
+
+-- When the body (or question title) was last edited. updated_at can't be used
+-- for this because vote counters and status changes also bump it.
+ALTER TABLE public.questions ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.answers ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.comments ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE;
+
+-- Previous versions of edited content
+CREATE TABLE public.content_revisions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    entity_type TEXT NOT NULL CHECK (entity_type IN ('question', 'answer', 'comment')),
+    entity_id UUID NOT NULL,
+    -- NULL when an anonymous author edited their own post
+    editor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    previous_title TEXT,
+    previous_content TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_content_revisions_entity ON public.content_revisions (entity_type, entity_id, created_at DESC);
+
+-- No direct access; revisions are read through get_content_revisions()
+ALTER TABLE public.content_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Store the previous version whenever content (or a question title) changes
+CREATE OR REPLACE FUNCTION public.record_content_revision()
+RETURNS TRIGGER AS $$
+DECLARE
+  _entity_type TEXT;
+  _is_anonymous BOOLEAN := false;
+  _previous_title TEXT;
+  _editor_id UUID := auth.uid();
+BEGIN
+  IF TG_TABLE_NAME = 'questions' THEN
+    _entity_type := 'question';
+    _is_anonymous := OLD.is_anonymous;
+    IF NEW.title IS DISTINCT FROM OLD.title OR NEW.content IS DISTINCT FROM OLD.content THEN
+      _previous_title := OLD.title;
+    ELSE
+      RETURN NEW;
+    END IF;
+  ELSE
+    IF NEW.content IS NOT DISTINCT FROM OLD.content THEN
+      RETURN NEW;
+    END IF;
+    IF TG_TABLE_NAME = 'answers' THEN
+      _entity_type := 'answer';
+    ELSE
+      _entity_type := 'comment';
+      _is_anonymous := OLD.is_anonymous;
+    END IF;
+  END IF;
+
+  -- Don't tie anonymous authors to their posts in the revision log
+  IF _is_anonymous AND NOT public.has_role(_editor_id, 'admin') THEN
+    _editor_id := NULL;
+  END IF;
+
+  INSERT INTO public.content_revisions (entity_type, entity_id, editor_id, previous_title, previous_content)
+  VALUES (_entity_type, OLD.id, _editor_id, _previous_title, OLD.content);
+
+  NEW.edited_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_question_revision
+BEFORE UPDATE ON public.questions
+FOR EACH ROW EXECUTE FUNCTION public.record_content_revision();
+
+CREATE TRIGGER record_answer_revision
+BEFORE UPDATE ON public.answers
+FOR EACH ROW EXECUTE FUNCTION public.record_content_revision();
+
+CREATE TRIGGER record_comment_revision
+BEFORE UPDATE ON public.comments
+FOR EACH ROW EXECUTE FUNCTION public.record_content_revision();
+
+-- Revisions of a post, newest first. Editor names are only exposed for
+-- named editors; anonymous authors show up with a NULL editor_name.
+CREATE OR REPLACE FUNCTION public.get_content_revisions(_entity_type TEXT, _entity_id UUID)
+RETURNS TABLE (
+  id UUID,
+  previous_title TEXT,
+  previous_content TEXT,
+  editor_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.id, r.previous_title, r.previous_content, p.full_name, r.created_at
+  FROM public.content_revisions r
+  LEFT JOIN public.profiles p ON p.user_id = r.editor_id
+  WHERE auth.uid() IS NOT NULL
+    AND r.entity_type = _entity_type
+    AND r.entity_id = _entity_id
+  ORDER BY r.created_at DESC
+$$;
+
+-- Edit a question's title and body. Goes through a function so that owners
+-- of anonymous questions (who have no author_id) can edit too.
+CREATE OR REPLACE FUNCTION public.update_question_content(_question_id UUID, _title TEXT, _content TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (public.is_question_owner(_question_id) OR public.has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'Only the question author can edit this question' USING ERRCODE = '42501';
+  END IF;
+
+  IF coalesce(trim(_title), '') = '' OR coalesce(trim(_content), '') = '' THEN
+    RAISE EXCEPTION 'Title and content are required' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.questions
+  SET title = trim(_title), content = trim(_content)
+  WHERE id = _question_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_content_revisions(TEXT, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.update_question_content(UUID, TEXT, TEXT) TO authenticated;
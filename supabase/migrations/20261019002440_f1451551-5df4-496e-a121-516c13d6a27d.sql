@@ -0,0 +1,140 @@
+-- File and image attachments on questions, answers and comments
+
+-- Private bucket; files are served through short-lived signed URLs
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'attachments',
+  'attachments',
+  false,
+  10485760,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'application/pdf', 'text/plain', 'text/csv']
+);
+
+CREATE TABLE public.attachments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    question_id UUID REFERENCES public.questions(id) ON DELETE CASCADE,
+    answer_id UUID REFERENCES public.answers(id) ON DELETE CASCADE,
+    comment_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+    storage_path TEXT NOT NULL UNIQUE,
+    file_name TEXT NOT NULL CHECK (char_length(file_name) <= 255),
+    mime_type TEXT NOT NULL,
+    size_bytes INTEGER NOT NULL CHECK (size_bytes > 0 AND size_bytes <= 10485760),
+    -- NULL for attachments on anonymous posts
+    uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    CONSTRAINT attachments_single_parent CHECK (num_nonnulls(question_id, answer_id, comment_id) = 1)
+);
+
+CREATE INDEX idx_attachments_question_id ON public.attachments (question_id) WHERE question_id IS NOT NULL;
+CREATE INDEX idx_attachments_answer_id ON public.attachments (answer_id) WHERE answer_id IS NOT NULL;
+CREATE INDEX idx_attachments_comment_id ON public.attachments (comment_id) WHERE comment_id IS NOT NULL;
+
+ALTER TABLE public.attachments ENABLE ROW LEVEL SECURITY;
+
+-- Whether the current user may add attachments to (or remove them from) a post
+CREATE OR REPLACE FUNCTION public.can_attach_to(_parent_type TEXT, _parent_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE _parent_type
+    WHEN 'question' THEN public.is_question_owner(_parent_id)
+    WHEN 'answer' THEN EXISTS (
+      SELECT 1 FROM public.answers WHERE id = _parent_id AND author_id = auth.uid()
+    )
+    WHEN 'comment' THEN EXISTS (
+      SELECT 1 FROM public.comments WHERE id = _parent_id AND author_id = auth.uid()
+    )
+    ELSE false
+  END
+$$;
+
+-- Visibility mirrors the parent row: the subqueries run with the caller's RLS
+CREATE POLICY "Attachments are visible when their parent is"
+ON public.attachments FOR SELECT
+TO authenticated
+USING (
+  EXISTS (SELECT 1 FROM public.questions q WHERE q.id = attachments.question_id)
+  OR EXISTS (SELECT 1 FROM public.answers a WHERE a.id = attachments.answer_id)
+  OR EXISTS (SELECT 1 FROM public.comments c WHERE c.id = attachments.comment_id)
+);
+
+CREATE POLICY "Post authors can add attachments"
+ON public.attachments FOR INSERT
+TO authenticated
+WITH CHECK (
+  (uploaded_by IS NULL OR uploaded_by = auth.uid())
+  AND public.can_attach_to(
+    CASE
+      WHEN question_id IS NOT NULL THEN 'question'
+      WHEN answer_id IS NOT NULL THEN 'answer'
+      ELSE 'comment'
+    END,
+    coalesce(question_id, answer_id, comment_id)
+  )
+);
+
+CREATE POLICY "Post authors and admins can delete attachments"
+ON public.attachments FOR DELETE
+TO authenticated
+USING (
+  public.has_role(auth.uid(), 'admin')
+  OR public.can_attach_to(
+    CASE
+      WHEN question_id IS NOT NULL THEN 'question'
+      WHEN answer_id IS NOT NULL THEN 'answer'
+      ELSE 'comment'
+    END,
+    coalesce(question_id, answer_id, comment_id)
+  )
+);
+
+-- Storage objects live at <parent type>/<parent id>/<random name>
+CREATE POLICY "Attachment files are readable when their attachment is"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'attachments'
+  AND EXISTS (SELECT 1 FROM public.attachments a WHERE a.storage_path = storage.objects.name)
+);
+
+CREATE POLICY "Post authors can upload attachment files"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'attachments'
+  AND public.can_attach_to((storage.foldername(name))[1], ((storage.foldername(name))[2])::UUID)
+);
+
+CREATE POLICY "Post authors and admins can delete attachment files"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'attachments'
+  AND (
+    public.has_role(auth.uid(), 'admin')
+    OR public.can_attach_to((storage.foldername(name))[1], ((storage.foldername(name))[2])::UUID)
+  )
+);
+
+-- Storage records the uploader as the object owner. Clear it for files on
+-- anonymous posts so the asker can't be identified from storage metadata.
+CREATE OR REPLACE FUNCTION public.anonymize_attachment_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.uploaded_by IS NULL THEN
+    UPDATE storage.objects
+    SET owner = NULL, owner_id = NULL
+    WHERE bucket_id = 'attachments' AND name = NEW.storage_path;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER anonymize_attachment_owner_trigger
+AFTER INSERT ON public.attachments
+FOR EACH ROW EXECUTE FUNCTION public.anonymize_attachment_owner();
+
+GRANT EXECUTE ON FUNCTION public.can_attach_to(TEXT, UUID) TO authenticated;
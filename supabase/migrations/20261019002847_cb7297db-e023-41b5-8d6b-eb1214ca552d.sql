@@ -0,0 +1,233 @@
+-- Threaded comments, comments on questions, per-comment anonymity and
+-- author edit/delete within a time window
+
+-- Comments can now belong to a question directly, and reply to another comment
+ALTER TABLE public.comments ALTER COLUMN answer_id DROP NOT NULL;
+ALTER TABLE public.comments
+  ADD COLUMN question_id UUID REFERENCES public.questions(id) ON DELETE CASCADE,
+  ADD COLUMN parent_id UUID REFERENCES public.comments(id) ON DELETE CASCADE;
+ALTER TABLE public.comments
+  ADD CONSTRAINT comments_single_target CHECK (num_nonnulls(question_id, answer_id) = 1);
+
+CREATE INDEX idx_comments_question_id ON public.comments (question_id, created_at) WHERE question_id IS NOT NULL;
+CREATE INDEX idx_comments_parent_id ON public.comments (parent_id) WHERE parent_id IS NOT NULL;
+
+-- Authors of anonymous comments. Kept out of the comments table (which every
+-- signed-in user can read) so anonymous comments can't be traced back.
+-- No policies: only definer functions read or write it.
+CREATE TABLE public.comment_owners (
+    comment_id UUID PRIMARY KEY REFERENCES public.comments(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL
+);
+
+CREATE INDEX idx_comment_owners_user_id ON public.comment_owners (user_id);
+
+ALTER TABLE public.comment_owners ENABLE ROW LEVEL SECURITY;
+
+-- Move authors of existing anonymous comments out of the public table
+INSERT INTO public.comment_owners (comment_id, user_id)
+SELECT id, author_id FROM public.comments WHERE is_anonymous AND author_id IS NOT NULL;
+
+UPDATE public.comments SET author_id = NULL WHERE is_anonymous AND author_id IS NOT NULL;
+
+-- Replies inherit their thread's target; anonymous authors are moved to comment_owners
+CREATE OR REPLACE FUNCTION public.prepare_comment()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT question_id, answer_id INTO NEW.question_id, NEW.answer_id
+    FROM public.comments
+    WHERE id = NEW.parent_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Parent comment not found' USING ERRCODE = '23503';
+    END IF;
+  END IF;
+
+  IF NEW.is_anonymous THEN
+    IF auth.uid() IS NOT NULL THEN
+      INSERT INTO public.comment_owners (comment_id, user_id) VALUES (NEW.id, auth.uid());
+    END IF;
+    NEW.author_id := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER prepare_comment_trigger
+BEFORE INSERT ON public.comments
+FOR EACH ROW EXECUTE FUNCTION public.prepare_comment();
+
+CREATE OR REPLACE FUNCTION public.is_comment_owner(_comment_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.comments
+    WHERE id = _comment_id AND author_id IS NOT NULL AND author_id = auth.uid()
+  ) OR EXISTS (
+    SELECT 1 FROM public.comment_owners
+    WHERE comment_id = _comment_id AND user_id = auth.uid()
+  )
+$$;
+
+-- Ids of the caller's own comments in a question's thread, so the client
+-- can offer edit/delete on anonymous comments without learning who wrote others
+CREATE OR REPLACE FUNCTION public.get_own_comment_ids(_question_id UUID)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.id
+  FROM public.comments c
+  LEFT JOIN public.answers a ON a.id = c.answer_id
+  LEFT JOIN public.comment_owners o ON o.comment_id = c.id
+  WHERE coalesce(c.question_id, a.question_id) = _question_id
+    AND auth.uid() IS NOT NULL
+    AND (c.author_id = auth.uid() OR o.user_id = auth.uid())
+$$;
+
+-- Named comments must be attributed to their poster
+DROP POLICY "Authenticated users can create comments" ON public.comments;
+
+CREATE POLICY "Authenticated users can create comments"
+ON public.comments FOR INSERT
+TO authenticated
+WITH CHECK (is_anonymous OR author_id = auth.uid());
+
+-- Authors can fix or remove a comment for a short while after posting it
+CREATE POLICY "Authors can edit recent comments"
+ON public.comments FOR UPDATE
+TO authenticated
+USING (public.is_comment_owner(id) AND created_at > now() - INTERVAL '15 minutes');
+
+CREATE POLICY "Authors can delete recent comments"
+ON public.comments FOR DELETE
+TO authenticated
+USING (public.is_comment_owner(id) AND created_at > now() - INTERVAL '15 minutes');
+
+-- Only the text can change; target, thread and anonymity are fixed
+REVOKE UPDATE ON public.comments FROM anon, authenticated;
+GRANT UPDATE (content) ON public.comments TO authenticated;
+
+-- Anonymous comment authors no longer have author_id set
+CREATE OR REPLACE FUNCTION public.can_attach_to(_parent_type TEXT, _parent_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE _parent_type
+    WHEN 'question' THEN public.is_question_owner(_parent_id)
+    WHEN 'answer' THEN EXISTS (
+      SELECT 1 FROM public.answers WHERE id = _parent_id AND author_id = auth.uid()
+    )
+    WHEN 'comment' THEN public.is_comment_owner(_parent_id)
+    ELSE false
+  END
+$$;
+
+-- Comments on questions are matched to the question directly
+CREATE OR REPLACE FUNCTION public.search_questions(
+  _query TEXT,
+  _department_id UUID DEFAULT NULL,
+  _status TEXT DEFAULT NULL,
+  _limit INTEGER DEFAULT 20,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  title_highlight TEXT,
+  snippet TEXT,
+  matched_in TEXT,
+  status TEXT,
+  department_id UUID,
+  department_name TEXT,
+  is_anonymous BOOLEAN,
+  upvotes INTEGER,
+  downvotes INTEGER,
+  answers_count INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE,
+  rank REAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', coalesce(_query, '')) AS query
+  ),
+  question_hits AS (
+    SELECT qs.id AS question_id,
+           ts_rank(qs.search_vector, q.query) AS rank,
+           qs.content AS body,
+           'question'::TEXT AS source
+    FROM public.questions qs, q
+    WHERE qs.search_vector @@ q.query
+  ),
+  answer_hits AS (
+    SELECT a.question_id,
+           ts_rank(a.search_vector, q.query) * 0.6 AS rank,
+           a.content AS body,
+           'answer'::TEXT AS source
+    FROM public.answers a, q
+    WHERE a.search_vector @@ q.query
+  ),
+  comment_hits AS (
+    SELECT coalesce(c.question_id, a.question_id) AS question_id,
+           ts_rank(c.search_vector, q.query) * 0.3 AS rank,
+           c.content AS body,
+           'comment'::TEXT AS source
+    FROM public.comments c
+    LEFT JOIN public.answers a ON a.id = c.answer_id, q
+    WHERE c.search_vector @@ q.query
+  ),
+  hits AS (
+    SELECT * FROM question_hits
+    UNION ALL SELECT * FROM answer_hits
+    UNION ALL SELECT * FROM comment_hits
+  ),
+  best AS (
+    SELECT DISTINCT ON (question_id)
+           question_id, body, source,
+           sum(rank) OVER (PARTITION BY question_id) AS total_rank
+    FROM hits
+    ORDER BY question_id, rank DESC
+  )
+  SELECT qs.id,
+         qs.title,
+         ts_headline('english', qs.title, q.query,
+           'StartSel="[[hl]]", StopSel="[[/hl]]", HighlightAll=true'),
+         ts_headline('english', best.body, q.query,
+           'StartSel="[[hl]]", StopSel="[[/hl]]", MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … "'),
+         best.source,
+         qs.status,
+         qs.department_id,
+         d.name,
+         qs.is_anonymous,
+         qs.upvotes,
+         qs.downvotes,
+         (SELECT count(*)::INTEGER FROM public.answers a WHERE a.question_id = qs.id),
+         qs.created_at,
+         best.total_rank::REAL
+  FROM best
+  JOIN public.questions qs ON qs.id = best.question_id
+  LEFT JOIN public.departments d ON d.id = qs.department_id,
+  q
+  WHERE (_department_id IS NULL OR qs.department_id = _department_id)
+    AND (_status IS NULL OR qs.status = _status)
+  ORDER BY best.total_rank DESC, qs.created_at DESC
+  LIMIT greatest(least(_limit, 100), 1)
+  OFFSET greatest(_offset, 0)
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_comment_owner(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_own_comment_ids(UUID) TO authenticated;
@@ -0,0 +1,128 @@
+-- Ownership tokens for anonymous questions
+--
+-- Anonymous questions have no author_id, so the asker proves ownership with a
+-- secret token instead. Tokens are derived in the browser from a key that
+-- never leaves the asker's devices; only a SHA-256 hash is stored here, with
+-- nothing linking it to a user. Neither admins nor anyone reading the
+-- database can tell who owns an anonymous question.
+--
+-- The token travels in the x-question-owner-token request header so that
+-- existing checks built on is_question_owner() (RPCs, table policies and
+-- storage policies alike) honour it without changing their signatures.
+
+-- Tokens outlive their questions, so a deleted question's slot is never
+-- handed out again and askers' lookups don't stop at the gap it would leave
+CREATE TABLE public.question_owner_tokens (
+    token_hash TEXT PRIMARY KEY,
+    question_id UUID UNIQUE REFERENCES public.questions(id) ON DELETE SET NULL
+);
+
+-- No policies: only definer functions read or write it
+ALTER TABLE public.question_owner_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Hash of the owner token sent with the current request, if any
+CREATE OR REPLACE FUNCTION public.request_owner_token_hash()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN coalesce(token, '') = '' THEN NULL
+    ELSE encode(sha256(convert_to(token, 'UTF8')), 'hex')
+  END
+  FROM (
+    SELECT nullif(current_setting('request.headers', true), '')::JSON ->> 'x-question-owner-token' AS token
+  ) h
+$$;
+
+-- Named authors own their questions; anonymous askers own them through a token
+CREATE OR REPLACE FUNCTION public.is_question_owner(_question_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.questions
+    WHERE id = _question_id
+      AND author_id IS NOT NULL
+      AND author_id = auth.uid()
+  ) OR (
+    auth.uid() IS NOT NULL
+    AND EXISTS (
+      SELECT 1
+      FROM public.question_owner_tokens
+      WHERE question_id = _question_id
+        AND token_hash = public.request_owner_token_hash()
+    )
+  )
+$$;
+
+-- Record the token sent along with a new anonymous question. A token that
+-- was used before, say by another tab picking the same slot, is rejected
+-- along with the question, so the asker can retry with the next slot.
+CREATE OR REPLACE FUNCTION public.store_question_owner_token()
+RETURNS TRIGGER AS $$
+DECLARE
+  _token_hash TEXT := public.request_owner_token_hash();
+BEGIN
+  IF NEW.is_anonymous AND _token_hash IS NOT NULL THEN
+    INSERT INTO public.question_owner_tokens (question_id, token_hash)
+    VALUES (NEW.id, _token_hash);
+  END IF;
+  RETURN NEW;
+EXCEPTION
+  WHEN unique_violation THEN
+    RAISE EXCEPTION 'That owner token is already in use' USING ERRCODE = '23505';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER store_question_owner_token_trigger
+AFTER INSERT ON public.questions
+FOR EACH ROW EXECUTE FUNCTION public.store_question_owner_token();
+
+-- Which of the given tokens have been used, and the question each owns (NULL
+-- once it was deleted). Used by askers to find their anonymous questions
+-- again; a token only ever reveals its own question.
+CREATE OR REPLACE FUNCTION public.find_owned_questions(_tokens TEXT[])
+RETURNS TABLE (question_id UUID, token TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT t.question_id, x.token
+  FROM unnest(_tokens) AS x(token)
+  JOIN public.question_owner_tokens t
+    ON t.token_hash = encode(sha256(convert_to(x.token, 'UTF8')), 'hex')
+  WHERE auth.uid() IS NOT NULL
+    AND cardinality(_tokens) <= 100
+$$;
+
+-- Let askers close their own question, or reopen it
+CREATE OR REPLACE FUNCTION public.set_question_closed(_question_id UUID, _closed BOOLEAN DEFAULT true)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (public.is_question_owner(_question_id) OR public.has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'Only the question author can close this question' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.questions
+  SET status = CASE
+    WHEN _closed THEN 'closed'
+    WHEN EXISTS (SELECT 1 FROM public.answers WHERE question_id = _question_id) THEN 'answered'
+    ELSE 'open'
+  END
+  WHERE id = _question_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.find_owned_questions(TEXT[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_question_closed(UUID, BOOLEAN) TO authenticated;
@@ -0,0 +1,25 @@
+-- The current user's comments, named and anonymous, for their activity page
+CREATE OR REPLACE FUNCTION public.get_my_comments()
+RETURNS TABLE (
+  id UUID,
+  content TEXT,
+  is_anonymous BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  question_id UUID
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.id, c.content, c.is_anonymous, c.created_at, coalesce(c.question_id, a.question_id)
+  FROM public.comments c
+  LEFT JOIN public.answers a ON a.id = c.answer_id
+  LEFT JOIN public.comment_owners o ON o.comment_id = c.id
+  WHERE auth.uid() IS NOT NULL
+    AND (c.author_id = auth.uid() OR o.user_id = auth.uid())
+  ORDER BY c.created_at DESC
+  LIMIT 200
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_my_comments() TO authenticated;
@@ -0,0 +1,235 @@
+-- In-app notifications
+--
+-- Rows are written by triggers only. Notifications for the asker of an
+-- anonymous question have no recipient_id: they belong to whoever holds the
+-- question's ownership token, and are read through the token RPCs below so
+-- the asker is never linked to the question.
+CREATE TABLE public.notifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- NULL for notifications to the anonymous asker of question_id
+    recipient_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    type TEXT NOT NULL CHECK (type IN ('new_answer', 'new_comment', 'comment_reply', 'status_changed', 'answer_accepted')),
+    question_id UUID REFERENCES public.questions(id) ON DELETE CASCADE NOT NULL,
+    answer_id UUID REFERENCES public.answers(id) ON DELETE CASCADE,
+    comment_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+    data JSONB DEFAULT '{}'::JSONB NOT NULL,
+    read_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_notifications_recipient ON public.notifications (recipient_id, created_at DESC) WHERE recipient_id IS NOT NULL;
+CREATE INDEX idx_notifications_anonymous ON public.notifications (question_id, created_at DESC) WHERE recipient_id IS NULL;
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications"
+ON public.notifications FOR SELECT
+TO authenticated
+USING (auth.uid() = recipient_id);
+
+CREATE POLICY "Users can mark their own notifications read"
+ON public.notifications FOR UPDATE
+TO authenticated
+USING (auth.uid() = recipient_id);
+
+REVOKE UPDATE ON public.notifications FROM anon, authenticated;
+GRANT UPDATE (read_at) ON public.notifications TO authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+-- Notify a question's asker, unless they caused the event themselves
+CREATE OR REPLACE FUNCTION public.notify_question_owner(
+  _question_id UUID,
+  _type TEXT,
+  _answer_id UUID DEFAULT NULL,
+  _comment_id UUID DEFAULT NULL,
+  _data JSONB DEFAULT '{}'::JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _author_id UUID;
+BEGIN
+  SELECT author_id INTO _author_id FROM public.questions WHERE id = _question_id;
+
+  IF _author_id IS NOT NULL THEN
+    IF _author_id IS DISTINCT FROM auth.uid() THEN
+      INSERT INTO public.notifications (recipient_id, type, question_id, answer_id, comment_id, data)
+      VALUES (_author_id, _type, _question_id, _answer_id, _comment_id, _data);
+    END IF;
+    RETURN _author_id;
+  END IF;
+
+  -- Anonymous asker: only if they can be reached, and didn't act with their token
+  IF EXISTS (
+    SELECT 1 FROM public.question_owner_tokens
+    WHERE question_id = _question_id
+      AND token_hash IS DISTINCT FROM public.request_owner_token_hash()
+  ) THEN
+    INSERT INTO public.notifications (recipient_id, type, question_id, answer_id, comment_id, data)
+    VALUES (NULL, _type, _question_id, _answer_id, _comment_id, _data);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_on_answer_insert()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.notify_question_owner(NEW.question_id, 'new_answer', NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_on_answer_insert_trigger
+AFTER INSERT ON public.answers
+FOR EACH ROW EXECUTE FUNCTION public.notify_on_answer_insert();
+
+CREATE OR REPLACE FUNCTION public.notify_on_answer_accepted()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_accepted AND NOT OLD.is_accepted AND NEW.author_id IS DISTINCT FROM auth.uid() THEN
+    INSERT INTO public.notifications (recipient_id, type, question_id, answer_id)
+    VALUES (NEW.author_id, 'answer_accepted', NEW.question_id, NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_on_answer_accepted_trigger
+AFTER UPDATE OF is_accepted ON public.answers
+FOR EACH ROW EXECUTE FUNCTION public.notify_on_answer_accepted();
+
+-- A new comment reaches the author of the comment it replies to, the author
+-- of the answer it's on, and the asker, each at most once
+CREATE OR REPLACE FUNCTION public.notify_on_comment_insert()
+RETURNS TRIGGER AS $$
+DECLARE
+  _question_id UUID;
+  _parent_author UUID;
+  _answer_author UUID;
+  _notified UUID[] := ARRAY[auth.uid()];
+  _question_author UUID;
+BEGIN
+  IF NEW.answer_id IS NOT NULL THEN
+    SELECT question_id, author_id INTO _question_id, _answer_author
+    FROM public.answers WHERE id = NEW.answer_id;
+  ELSE
+    _question_id := NEW.question_id;
+  END IF;
+
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT coalesce(c.author_id, o.user_id) INTO _parent_author
+    FROM public.comments c
+    LEFT JOIN public.comment_owners o ON o.comment_id = c.id
+    WHERE c.id = NEW.parent_id;
+
+    IF _parent_author IS NOT NULL AND NOT _parent_author = ANY (_notified) THEN
+      INSERT INTO public.notifications (recipient_id, type, question_id, answer_id, comment_id)
+      VALUES (_parent_author, 'comment_reply', _question_id, NEW.answer_id, NEW.id);
+      _notified := _notified || _parent_author;
+    END IF;
+  END IF;
+
+  IF _answer_author IS NOT NULL AND NOT _answer_author = ANY (_notified) THEN
+    INSERT INTO public.notifications (recipient_id, type, question_id, answer_id, comment_id)
+    VALUES (_answer_author, 'new_comment', _question_id, NEW.answer_id, NEW.id);
+    _notified := _notified || _answer_author;
+  END IF;
+
+  SELECT author_id INTO _question_author FROM public.questions WHERE id = _question_id;
+  IF _question_author IS NULL OR NOT _question_author = ANY (_notified) THEN
+    PERFORM public.notify_question_owner(_question_id, 'new_comment', NEW.answer_id, NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_on_comment_insert_trigger
+AFTER INSERT ON public.comments
+FOR EACH ROW EXECUTE FUNCTION public.notify_on_comment_insert();
+
+-- Moving to 'answered' already comes with a new-answer notification
+CREATE OR REPLACE FUNCTION public.notify_on_question_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status <> 'answered' THEN
+    PERFORM public.notify_question_owner(
+      NEW.id,
+      'status_changed',
+      NULL,
+      NULL,
+      jsonb_build_object('from', OLD.status, 'to', NEW.status)
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_on_question_status_change_trigger
+AFTER UPDATE OF status ON public.questions
+FOR EACH ROW EXECUTE FUNCTION public.notify_on_question_status_change();
+
+-- Notifications for the anonymous questions owned by the given tokens
+CREATE OR REPLACE FUNCTION public.get_anonymous_notifications(_tokens TEXT[], _limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  id UUID,
+  type TEXT,
+  question_id UUID,
+  question_title TEXT,
+  answer_id UUID,
+  comment_id UUID,
+  data JSONB,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT n.id, n.type, n.question_id, q.title, n.answer_id, n.comment_id, n.data, n.read_at, n.created_at
+  FROM public.notifications n
+  JOIN public.questions q ON q.id = n.question_id
+  JOIN public.question_owner_tokens t ON t.question_id = n.question_id
+  WHERE auth.uid() IS NOT NULL
+    AND cardinality(_tokens) <= 100
+    AND n.recipient_id IS NULL
+    AND t.token_hash IN (
+      SELECT encode(sha256(convert_to(token, 'UTF8')), 'hex') FROM unnest(_tokens) AS token
+    )
+  ORDER BY n.created_at DESC
+  LIMIT greatest(least(_limit, 100), 1)
+$$;
+
+-- Mark anonymous notifications read; all of them when _notification_ids is NULL
+CREATE OR REPLACE FUNCTION public.mark_anonymous_notifications_read(_tokens TEXT[], _notification_ids UUID[] DEFAULT NULL)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.notifications n
+  SET read_at = now()
+  FROM public.question_owner_tokens t
+  WHERE auth.uid() IS NOT NULL
+    AND cardinality(_tokens) <= 100
+    AND n.recipient_id IS NULL
+    AND n.read_at IS NULL
+    AND t.question_id = n.question_id
+    AND t.token_hash IN (
+      SELECT encode(sha256(convert_to(token, 'UTF8')), 'hex') FROM unnest(_tokens) AS token
+    )
+    AND (_notification_ids IS NULL OR n.id = ANY (_notification_ids))
+$$;
+
+-- Only triggers may create notifications
+REVOKE EXECUTE ON FUNCTION public.notify_question_owner(UUID, TEXT, UUID, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.get_anonymous_notifications(TEXT[], INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_anonymous_notifications_read(TEXT[], UUID[]) TO authenticated;
@@ -0,0 +1,289 @@
+-- Per-user notification preferences and email digests
+--
+-- Each notification maps to one of four preference event types. A user's
+-- preference for that event decides whether it shows in-app, and whether it
+-- is emailed instantly or collected into a daily or weekly digest. Missing
+-- preference rows fall back to the defaults in notification_preference().
+CREATE TABLE public.notification_preferences (
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    event_type TEXT NOT NULL CHECK (event_type IN ('department_question', 'answer_to_my_question', 'reply_to_my_comment', 'mention')),
+    channel TEXT NOT NULL CHECK (channel IN ('in_app', 'email')),
+    enabled BOOLEAN DEFAULT true NOT NULL,
+    -- Only meaningful for email; in-app notifications always arrive instantly
+    frequency TEXT DEFAULT 'instant' NOT NULL CHECK (frequency IN ('instant', 'daily', 'weekly')),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    PRIMARY KEY (user_id, event_type, channel)
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notification preferences"
+ON public.notification_preferences FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own notification preferences"
+ON public.notification_preferences FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notification preferences"
+ON public.notification_preferences FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own notification preferences"
+ON public.notification_preferences FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_notification_preferences_updated_at
+BEFORE UPDATE ON public.notification_preferences
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- New notification types: questions for department admins, and @mentions
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('new_answer', 'new_comment', 'comment_reply', 'status_changed', 'answer_accepted', 'department_question', 'mention'));
+
+ALTER TABLE public.notifications
+  ADD COLUMN in_app BOOLEAN DEFAULT true NOT NULL,
+  -- NULL when the notification isn't emailed at all
+  ADD COLUMN email_frequency TEXT CHECK (email_frequency IN ('instant', 'daily', 'weekly')),
+  -- Set when an email sender claims the notification
+  ADD COLUMN emailed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_notifications_email_pending ON public.notifications (email_frequency, created_at)
+WHERE email_frequency IS NOT NULL AND emailed_at IS NULL;
+
+-- Email-only notifications stay out of the in-app feed
+DROP POLICY "Users can view their own notifications" ON public.notifications;
+
+CREATE POLICY "Users can view their own notifications"
+ON public.notifications FOR SELECT
+TO authenticated
+USING (auth.uid() = recipient_id AND in_app);
+
+-- The preference event a notification type falls under. Types without one
+-- are in-app only and never emailed.
+CREATE OR REPLACE FUNCTION public.notification_event_type(_type TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE _type
+    WHEN 'department_question' THEN 'department_question'
+    WHEN 'new_answer' THEN 'answer_to_my_question'
+    WHEN 'comment_reply' THEN 'reply_to_my_comment'
+    WHEN 'mention' THEN 'mention'
+  END
+$$;
+
+-- A user's effective preference. By default everything shows in-app, and
+-- only new department questions are emailed, as they always have been.
+CREATE OR REPLACE FUNCTION public.notification_preference(_user_id UUID, _event_type TEXT, _channel TEXT)
+RETURNS TABLE (enabled BOOLEAN, frequency TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(p.enabled, d.enabled), coalesce(p.frequency, d.frequency)
+  FROM (
+    SELECT _channel = 'in_app' OR _event_type = 'department_question' AS enabled, 'instant'::TEXT AS frequency
+  ) d
+  LEFT JOIN public.notification_preferences p
+    ON p.user_id = _user_id AND p.event_type = _event_type AND p.channel = _channel
+$$;
+
+-- Every event type and channel for the current user, defaults filled in
+CREATE OR REPLACE FUNCTION public.get_my_notification_preferences()
+RETURNS TABLE (event_type TEXT, channel TEXT, enabled BOOLEAN, frequency TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT e.event_type, c.channel, p.enabled, p.frequency
+  FROM unnest(ARRAY['department_question', 'answer_to_my_question', 'reply_to_my_comment', 'mention']) AS e(event_type)
+  CROSS JOIN unnest(ARRAY['in_app', 'email']) AS c(channel)
+  CROSS JOIN LATERAL public.notification_preference(auth.uid(), e.event_type, c.channel) p
+  WHERE auth.uid() IS NOT NULL
+$$;
+
+-- Route each new notification through its recipient's preferences, dropping
+-- it when it would go nowhere
+CREATE OR REPLACE FUNCTION public.apply_notification_preferences()
+RETURNS TRIGGER AS $$
+DECLARE
+  _event_type TEXT := public.notification_event_type(NEW.type);
+  _in_app RECORD;
+  _email RECORD;
+BEGIN
+  IF NEW.recipient_id IS NULL OR _event_type IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _in_app FROM public.notification_preference(NEW.recipient_id, _event_type, 'in_app');
+  SELECT * INTO _email FROM public.notification_preference(NEW.recipient_id, _event_type, 'email');
+
+  NEW.in_app := _in_app.enabled;
+  NEW.email_frequency := CASE WHEN _email.enabled THEN _email.frequency END;
+
+  IF NOT NEW.in_app AND NEW.email_frequency IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER apply_notification_preferences_trigger
+BEFORE INSERT ON public.notifications
+FOR EACH ROW EXECUTE FUNCTION public.apply_notification_preferences();
+
+-- Notify users @mentioned by the local part of their email address
+CREATE OR REPLACE FUNCTION public.notify_mentions(
+  _content TEXT,
+  _question_id UUID,
+  _answer_id UUID,
+  _comment_id UUID,
+  _exclude UUID[]
+)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.notifications (recipient_id, type, question_id, answer_id, comment_id)
+  SELECT DISTINCT p.user_id, 'mention', _question_id, _answer_id, _comment_id
+  FROM (
+    SELECT lower(rtrim(m[1], '._-')) AS handle
+    FROM regexp_matches(_content, '(?:^|[^A-Za-z0-9_.@])@([A-Za-z0-9][A-Za-z0-9._-]*)', 'g') AS m
+    LIMIT 20
+  ) h
+  JOIN public.profiles p ON lower(split_part(p.email, '@', 1)) = h.handle
+  WHERE p.user_id <> ALL (array_remove(_exclude, NULL))
+$$;
+
+-- New questions reach their department's admins
+CREATE OR REPLACE FUNCTION public.notify_on_question_insert()
+RETURNS TRIGGER AS $$
+DECLARE
+  _notified UUID[] := ARRAY[auth.uid(), NEW.author_id];
+BEGIN
+  IF NEW.department_id IS NOT NULL THEN
+    INSERT INTO public.notifications (recipient_id, type, question_id, data)
+    SELECT da.user_id, 'department_question', NEW.id, jsonb_build_object('department', d.name)
+    FROM public.department_admins da
+    JOIN public.departments d ON d.id = da.department_id
+    -- Admins are granted by user id alone; skip any without an account
+    JOIN public.profiles p ON p.user_id = da.user_id
+    WHERE da.department_id = NEW.department_id
+      AND da.user_id <> ALL (array_remove(_notified, NULL));
+
+    _notified := _notified || ARRAY(
+      SELECT user_id FROM public.department_admins WHERE department_id = NEW.department_id
+    );
+  END IF;
+
+  PERFORM public.notify_mentions(NEW.content, NEW.id, NULL, NULL, _notified);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_on_question_insert_trigger
+AFTER INSERT ON public.questions
+FOR EACH ROW EXECUTE FUNCTION public.notify_on_question_insert();
+
+CREATE OR REPLACE FUNCTION public.notify_on_answer_insert()
+RETURNS TRIGGER AS $$
+DECLARE
+  _question_author UUID;
+BEGIN
+  _question_author := public.notify_question_owner(NEW.question_id, 'new_answer', NEW.id);
+  PERFORM public.notify_mentions(NEW.content, NEW.question_id, NEW.id, NULL, ARRAY[auth.uid(), _question_author]);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- As before, plus mentions of anyone not already notified
+CREATE OR REPLACE FUNCTION public.notify_on_comment_insert()
+RETURNS TRIGGER AS $$
+DECLARE
+  _question_id UUID;
+  _parent_author UUID;
+  _answer_author UUID;
+  _notified UUID[] := ARRAY[auth.uid()];
+  _question_author UUID;
+BEGIN
+  IF NEW.answer_id IS NOT NULL THEN
+    SELECT question_id, author_id INTO _question_id, _answer_author
+    FROM public.answers WHERE id = NEW.answer_id;
+  ELSE
+    _question_id := NEW.question_id;
+  END IF;
+
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT coalesce(c.author_id, o.user_id) INTO _parent_author
+    FROM public.comments c
+    LEFT JOIN public.comment_owners o ON o.comment_id = c.id
+    WHERE c.id = NEW.parent_id;
+
+    IF _parent_author IS NOT NULL AND NOT _parent_author = ANY (_notified) THEN
+      INSERT INTO public.notifications (recipient_id, type, question_id, answer_id, comment_id)
+      VALUES (_parent_author, 'comment_reply', _question_id, NEW.answer_id, NEW.id);
+      _notified := _notified || _parent_author;
+    END IF;
+  END IF;
+
+  IF _answer_author IS NOT NULL AND NOT _answer_author = ANY (_notified) THEN
+    INSERT INTO public.notifications (recipient_id, type, question_id, answer_id, comment_id)
+    VALUES (_answer_author, 'new_comment', _question_id, NEW.answer_id, NEW.id);
+    _notified := _notified || _answer_author;
+  END IF;
+
+  SELECT author_id INTO _question_author FROM public.questions WHERE id = _question_id;
+  IF _question_author IS NULL OR NOT _question_author = ANY (_notified) THEN
+    PERFORM public.notify_question_owner(_question_id, 'new_comment', NEW.answer_id, NEW.id);
+    _notified := _notified || _question_author;
+  END IF;
+
+  PERFORM public.notify_mentions(NEW.content, _question_id, NEW.answer_id, NEW.id, _notified);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.notification_preference(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.notify_mentions(TEXT, UUID, UUID, UUID, UUID[]) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.get_my_notification_preferences() TO authenticated;
+
+-- Email delivery runs in the send-notification-emails edge function. It
+-- expects the project URL and service role key in Vault as 'project_url'
+-- and 'service_role_key'.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+CREATE OR REPLACE FUNCTION public.invoke_notification_emails(_frequency TEXT)
+RETURNS BIGINT
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/send-notification-emails',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('frequency', _frequency)
+  )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.invoke_notification_emails(TEXT) FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('notification-emails-instant', '*/5 * * * *', $$SELECT public.invoke_notification_emails('instant')$$);
+SELECT cron.schedule('notification-emails-daily', '0 8 * * *', $$SELECT public.invoke_notification_emails('daily')$$);
+SELECT cron.schedule('notification-emails-weekly', '0 8 * * 1', $$SELECT public.invoke_notification_emails('weekly')$$);
@@ -0,0 +1,180 @@
+-- Following questions and departments
+--
+-- Followers of a question hear about its new answers and status changes;
+-- followers of a department hear about new questions asked in it. Who
+-- follows what is private to each user.
+CREATE TABLE public.subscriptions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    question_id UUID REFERENCES public.questions(id) ON DELETE CASCADE,
+    department_id UUID REFERENCES public.departments(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    CONSTRAINT subscriptions_single_target CHECK (num_nonnulls(question_id, department_id) = 1),
+    UNIQUE (user_id, question_id),
+    UNIQUE (user_id, department_id)
+);
+
+CREATE INDEX idx_subscriptions_question ON public.subscriptions (question_id) WHERE question_id IS NOT NULL;
+CREATE INDEX idx_subscriptions_department ON public.subscriptions (department_id) WHERE department_id IS NOT NULL;
+
+ALTER TABLE public.subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own subscriptions"
+ON public.subscriptions FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can follow questions and departments"
+ON public.subscriptions FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can unfollow questions and departments"
+ON public.subscriptions FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Notification types and a preference event for followed items
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN (
+    'new_answer', 'new_comment', 'comment_reply', 'status_changed', 'answer_accepted', 'department_question', 'mention',
+    'following_new_answer', 'following_status_changed', 'following_new_question'
+  ));
+
+ALTER TABLE public.notification_preferences DROP CONSTRAINT notification_preferences_event_type_check;
+ALTER TABLE public.notification_preferences ADD CONSTRAINT notification_preferences_event_type_check
+  CHECK (event_type IN ('department_question', 'answer_to_my_question', 'reply_to_my_comment', 'mention', 'following'));
+
+CREATE OR REPLACE FUNCTION public.notification_event_type(_type TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE _type
+    WHEN 'department_question' THEN 'department_question'
+    WHEN 'new_answer' THEN 'answer_to_my_question'
+    WHEN 'comment_reply' THEN 'reply_to_my_comment'
+    WHEN 'mention' THEN 'mention'
+    WHEN 'following_new_answer' THEN 'following'
+    WHEN 'following_status_changed' THEN 'following'
+    WHEN 'following_new_question' THEN 'following'
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_my_notification_preferences()
+RETURNS TABLE (event_type TEXT, channel TEXT, enabled BOOLEAN, frequency TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT e.event_type, c.channel, p.enabled, p.frequency
+  FROM unnest(ARRAY['department_question', 'answer_to_my_question', 'reply_to_my_comment', 'mention', 'following']) AS e(event_type)
+  CROSS JOIN unnest(ARRAY['in_app', 'email']) AS c(channel)
+  CROSS JOIN LATERAL public.notification_preference(auth.uid(), e.event_type, c.channel) p
+  WHERE auth.uid() IS NOT NULL
+$$;
+
+-- Notify the followers of a question, or of a department when one is given,
+-- returning who was notified
+CREATE OR REPLACE FUNCTION public.notify_subscribers(
+  _question_id UUID,
+  _department_id UUID,
+  _type TEXT,
+  _answer_id UUID DEFAULT NULL,
+  _data JSONB DEFAULT '{}'::JSONB,
+  _exclude UUID[] DEFAULT '{}'
+)
+RETURNS UUID[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _notified UUID[];
+BEGIN
+  WITH inserted AS (
+    INSERT INTO public.notifications (recipient_id, type, question_id, answer_id, data)
+    SELECT s.user_id, _type, _question_id, _answer_id, _data
+    FROM public.subscriptions s
+    WHERE CASE WHEN _department_id IS NULL
+            THEN s.question_id = _question_id
+            ELSE s.department_id = _department_id
+          END
+      AND s.user_id <> ALL (array_remove(_exclude, NULL))
+    RETURNING recipient_id
+  )
+  SELECT coalesce(array_agg(recipient_id), '{}') INTO _notified FROM inserted;
+
+  RETURN _notified;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_on_question_insert()
+RETURNS TRIGGER AS $$
+DECLARE
+  _notified UUID[] := ARRAY[auth.uid(), NEW.author_id];
+BEGIN
+  IF NEW.department_id IS NOT NULL THEN
+    INSERT INTO public.notifications (recipient_id, type, question_id, data)
+    SELECT da.user_id, 'department_question', NEW.id, jsonb_build_object('department', d.name)
+    FROM public.department_admins da
+    JOIN public.departments d ON d.id = da.department_id
+    -- Admins are granted by user id alone; skip any without an account
+    JOIN public.profiles p ON p.user_id = da.user_id
+    WHERE da.department_id = NEW.department_id
+      AND da.user_id <> ALL (array_remove(_notified, NULL));
+
+    _notified := _notified || ARRAY(
+      SELECT user_id FROM public.department_admins WHERE department_id = NEW.department_id
+    );
+
+    _notified := _notified || public.notify_subscribers(
+      NEW.id,
+      NEW.department_id,
+      'following_new_question',
+      NULL,
+      jsonb_build_object('department', (SELECT name FROM public.departments WHERE id = NEW.department_id)),
+      _notified
+    );
+  END IF;
+
+  PERFORM public.notify_mentions(NEW.content, NEW.id, NULL, NULL, _notified);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.notify_on_answer_insert()
+RETURNS TRIGGER AS $$
+DECLARE
+  _notified UUID[];
+BEGIN
+  _notified := ARRAY[auth.uid(), public.notify_question_owner(NEW.question_id, 'new_answer', NEW.id)];
+  _notified := _notified || public.notify_subscribers(NEW.question_id, NULL, 'following_new_answer', NEW.id, '{}'::JSONB, _notified);
+  PERFORM public.notify_mentions(NEW.content, NEW.question_id, NEW.id, NULL, _notified);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Moving to 'answered' already comes with a new-answer notification
+CREATE OR REPLACE FUNCTION public.notify_on_question_status_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  _data JSONB := jsonb_build_object('from', OLD.status, 'to', NEW.status);
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status <> 'answered' THEN
+    PERFORM public.notify_subscribers(
+      NEW.id,
+      NULL,
+      'following_status_changed',
+      NULL,
+      _data,
+      ARRAY[auth.uid(), public.notify_question_owner(NEW.id, 'status_changed', NULL, NULL, _data)]
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.notify_subscribers(UUID, UUID, TEXT, UUID, JSONB, UUID[]) FROM PUBLIC, anon, authenticated;
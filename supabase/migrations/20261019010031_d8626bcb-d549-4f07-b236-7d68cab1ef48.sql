@@ -0,0 +1,206 @@
+-- Reliable delivery of new-question emails
+--
+-- A trigger records each new question in the outbox in the same transaction
+-- as the insert, so the email can't be lost to a closed tab or a failed
+-- request. The process-notification-outbox edge function expands outbox
+-- events into one delivery per recipient and sends them, retrying failures
+-- with exponential backoff until they succeed or are dead-lettered.
+CREATE TABLE public.notification_outbox (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    event_type TEXT NOT NULL CHECK (event_type IN ('question_created')),
+    question_id UUID REFERENCES public.questions(id) ON DELETE CASCADE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    processed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_notification_outbox_pending ON public.notification_outbox (created_at) WHERE processed_at IS NULL;
+
+-- Only the worker, using the service role, touches the outbox
+ALTER TABLE public.notification_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE public.notification_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    outbox_id UUID REFERENCES public.notification_outbox(id) ON DELETE CASCADE NOT NULL,
+    question_id UUID REFERENCES public.questions(id) ON DELETE CASCADE NOT NULL,
+    notification_id UUID REFERENCES public.notifications(id) ON DELETE SET NULL,
+    recipient_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    channel TEXT DEFAULT 'email' NOT NULL CHECK (channel IN ('email')),
+    -- 'failed' deliveries are retried at next_attempt_at; 'dead' ones only by an admin
+    status TEXT DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'dead')),
+    attempts INTEGER DEFAULT 0 NOT NULL,
+    next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    last_error TEXT,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    UNIQUE (outbox_id, recipient_id, channel)
+);
+
+CREATE INDEX idx_notification_deliveries_due ON public.notification_deliveries (next_attempt_at)
+WHERE status IN ('pending', 'sending', 'failed');
+CREATE INDEX idx_notification_deliveries_undelivered ON public.notification_deliveries (updated_at DESC)
+WHERE status IN ('failed', 'dead');
+
+ALTER TABLE public.notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view notification deliveries"
+ON public.notification_deliveries FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_notification_deliveries_updated_at
+BEFORE UPDATE ON public.notification_deliveries
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.enqueue_question_created()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.department_id IS NOT NULL THEN
+    INSERT INTO public.notification_outbox (event_type, question_id)
+    VALUES ('question_created', NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER enqueue_question_created_trigger
+AFTER INSERT ON public.questions
+FOR EACH ROW EXECUTE FUNCTION public.enqueue_question_created();
+
+-- Turn pending outbox events into deliveries for every department admin who
+-- wants new questions emailed instantly. Claiming their notifications keeps
+-- send-notification-emails from sending them a second time.
+CREATE OR REPLACE FUNCTION public.expand_notification_outbox()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _created INTEGER;
+BEGIN
+  WITH events AS (
+    UPDATE public.notification_outbox
+    SET processed_at = now()
+    WHERE processed_at IS NULL
+    RETURNING id, event_type, question_id
+  ),
+  claimed AS (
+    UPDATE public.notifications n
+    SET emailed_at = now()
+    FROM events e
+    WHERE e.event_type = 'question_created'
+      AND n.question_id = e.question_id
+      AND n.type = 'department_question'
+      AND n.email_frequency = 'instant'
+      AND n.emailed_at IS NULL
+    RETURNING n.id, n.recipient_id, n.question_id, e.id AS outbox_id
+  )
+  INSERT INTO public.notification_deliveries (outbox_id, question_id, notification_id, recipient_id)
+  SELECT outbox_id, question_id, id, recipient_id FROM claimed
+  ON CONFLICT (outbox_id, recipient_id, channel) DO NOTHING;
+
+  GET DIAGNOSTICS _created = ROW_COUNT;
+  RETURN _created;
+END;
+$$;
+
+-- Claim deliveries that are due, including any left 'sending' by a worker
+-- that died mid-run. SKIP LOCKED lets overlapping workers share the queue.
+CREATE OR REPLACE FUNCTION public.claim_notification_deliveries(_limit INTEGER DEFAULT 50)
+RETURNS SETOF public.notification_deliveries
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.notification_deliveries d
+  SET status = 'sending', attempts = d.attempts + 1
+  WHERE d.id IN (
+    SELECT id FROM public.notification_deliveries
+    WHERE (status IN ('pending', 'failed') AND next_attempt_at <= now())
+       OR (status = 'sending' AND updated_at < now() - interval '10 minutes')
+    ORDER BY next_attempt_at
+    LIMIT greatest(least(_limit, 200), 1)
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING d.*
+$$;
+
+-- Record the outcome of an attempt. Failures back off 1, 2, 4, 8 and 16
+-- minutes, and the sixth failed attempt is dead-lettered.
+CREATE OR REPLACE FUNCTION public.complete_notification_delivery(_delivery_id UUID, _error TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.notification_deliveries
+  SET
+    status = CASE
+      WHEN _error IS NULL THEN 'sent'
+      WHEN attempts >= 6 THEN 'dead'
+      ELSE 'failed'
+    END,
+    sent_at = CASE WHEN _error IS NULL THEN now() END,
+    last_error = coalesce(left(_error, 1000), last_error),
+    next_attempt_at = CASE
+      WHEN _error IS NULL THEN next_attempt_at
+      ELSE now() + interval '1 minute' * power(2, attempts - 1)
+    END
+  WHERE id = _delivery_id AND status = 'sending'
+$$;
+
+-- Admins can push a failed or dead-lettered delivery back onto the queue
+CREATE OR REPLACE FUNCTION public.retry_notification_delivery(_delivery_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can resend deliveries';
+  END IF;
+
+  UPDATE public.notification_deliveries
+  SET status = 'pending', attempts = 0, next_attempt_at = now()
+  WHERE id = _delivery_id AND status IN ('failed', 'dead');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expand_notification_outbox() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_notification_deliveries(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_notification_delivery(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.retry_notification_delivery(UUID) TO authenticated;
+
+-- Scheduled edge function calls share one helper
+CREATE OR REPLACE FUNCTION public.invoke_edge_function(_name TEXT, _body JSONB DEFAULT '{}'::JSONB)
+RETURNS BIGINT
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/' || _name,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := _body
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.invoke_notification_emails(_frequency TEXT)
+RETURNS BIGINT
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.invoke_edge_function('send-notification-emails', jsonb_build_object('frequency', _frequency))
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.invoke_edge_function(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('process-notification-outbox', '* * * * *', $$SELECT public.invoke_edge_function('process-notification-outbox')$$);
@@ -0,0 +1,146 @@
+-- Slack and Microsoft Teams posts for department activity
+--
+-- Each department can have incoming webhooks that receive its new questions,
+-- new official answers and status changes. Posts go through the notification
+-- outbox, so they are retried like emails and show up in failed deliveries.
+CREATE TABLE public.department_webhooks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    department_id UUID REFERENCES public.departments(id) ON DELETE CASCADE NOT NULL,
+    platform TEXT NOT NULL CHECK (platform IN ('slack', 'teams')),
+    url TEXT NOT NULL CHECK (url ~ '^https://'),
+    enabled BOOLEAN DEFAULT true NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_department_webhooks_department ON public.department_webhooks (department_id) WHERE enabled;
+
+-- Webhook URLs are credentials, so only admins can see them
+ALTER TABLE public.department_webhooks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view department webhooks"
+ON public.department_webhooks FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can add department webhooks"
+ON public.department_webhooks FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update department webhooks"
+ON public.department_webhooks FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete department webhooks"
+ON public.department_webhooks FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_department_webhooks_updated_at
+BEFORE UPDATE ON public.department_webhooks
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Outbox events for official answers and status changes
+ALTER TABLE public.notification_outbox
+  ADD COLUMN answer_id UUID REFERENCES public.answers(id) ON DELETE CASCADE,
+  ADD COLUMN data JSONB DEFAULT '{}'::JSONB NOT NULL;
+
+ALTER TABLE public.notification_outbox DROP CONSTRAINT notification_outbox_event_type_check;
+ALTER TABLE public.notification_outbox ADD CONSTRAINT notification_outbox_event_type_check
+  CHECK (event_type IN ('question_created', 'answer_official', 'question_status_changed'));
+
+-- A delivery goes either to a user by email or to a department webhook
+ALTER TABLE public.notification_deliveries
+  ALTER COLUMN recipient_id DROP NOT NULL,
+  ADD COLUMN webhook_id UUID REFERENCES public.department_webhooks(id) ON DELETE CASCADE,
+  ADD CONSTRAINT notification_deliveries_single_target CHECK (num_nonnulls(recipient_id, webhook_id) = 1),
+  ADD CONSTRAINT notification_deliveries_outbox_id_webhook_id_key UNIQUE (outbox_id, webhook_id);
+
+ALTER TABLE public.notification_deliveries DROP CONSTRAINT notification_deliveries_channel_check;
+ALTER TABLE public.notification_deliveries ADD CONSTRAINT notification_deliveries_channel_check
+  CHECK (channel IN ('email', 'slack', 'teams'));
+
+CREATE OR REPLACE FUNCTION public.enqueue_answer_official()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_official AND (TG_OP = 'INSERT' OR NOT OLD.is_official) THEN
+    INSERT INTO public.notification_outbox (event_type, question_id, answer_id)
+    SELECT 'answer_official', q.id, NEW.id
+    FROM public.questions q
+    WHERE q.id = NEW.question_id AND q.department_id IS NOT NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER enqueue_answer_official_trigger
+AFTER INSERT OR UPDATE OF is_official ON public.answers
+FOR EACH ROW EXECUTE FUNCTION public.enqueue_answer_official();
+
+-- An official answer that settles the question is already posted as such, so
+-- the move to 'answered' it causes (in the same transaction) isn't posted again
+CREATE OR REPLACE FUNCTION public.enqueue_question_status_changed()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'answered' AND EXISTS (
+    SELECT 1 FROM public.answers
+    WHERE question_id = NEW.id AND is_official AND created_at = now()
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status AND NEW.department_id IS NOT NULL THEN
+    INSERT INTO public.notification_outbox (event_type, question_id, data)
+    VALUES ('question_status_changed', NEW.id, jsonb_build_object('from', OLD.status, 'to', NEW.status));
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER enqueue_question_status_changed_trigger
+AFTER UPDATE OF status ON public.questions
+FOR EACH ROW EXECUTE FUNCTION public.enqueue_question_status_changed();
+
+-- Expand events into email deliveries as before, plus one delivery per
+-- enabled webhook of the question's department
+CREATE OR REPLACE FUNCTION public.expand_notification_outbox()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _created INTEGER;
+BEGIN
+  WITH events AS (
+    UPDATE public.notification_outbox
+    SET processed_at = now()
+    WHERE processed_at IS NULL
+    RETURNING id, event_type, question_id
+  ),
+  claimed AS (
+    UPDATE public.notifications n
+    SET emailed_at = now()
+    FROM events e
+    WHERE e.event_type = 'question_created'
+      AND n.question_id = e.question_id
+      AND n.type = 'department_question'
+      AND n.email_frequency = 'instant'
+      AND n.emailed_at IS NULL
+    RETURNING n.id, n.recipient_id, n.question_id, e.id AS outbox_id
+  )
+  INSERT INTO public.notification_deliveries (outbox_id, question_id, notification_id, recipient_id, webhook_id, channel)
+  SELECT outbox_id, question_id, id, recipient_id, NULL, 'email' FROM claimed
+  UNION ALL
+  SELECT e.id, e.question_id, NULL, NULL, w.id, w.platform
+  FROM events e
+  JOIN public.questions q ON q.id = e.question_id
+  JOIN public.department_webhooks w ON w.department_id = q.department_id AND w.enabled
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS _created = ROW_COUNT;
+  RETURN _created;
+END;
+$$;
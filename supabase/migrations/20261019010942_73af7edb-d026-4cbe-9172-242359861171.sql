@@ -0,0 +1,268 @@
+-- Outgoing webhooks for question lifecycle events
+--
+-- Admins register endpoints that receive a signed JSON payload for the events
+-- they subscribe to. Triggers snapshot each payload into a delivery when the
+-- event happens, so deleted questions can still be reported. The
+-- dispatch-webhooks edge function signs and sends due deliveries, retrying
+-- failures with the same backoff as notification deliveries.
+CREATE TABLE public.webhooks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    url TEXT NOT NULL CHECK (url ~ '^https://'),
+    events TEXT[] NOT NULL CHECK (
+      cardinality(events) > 0
+      AND events <@ ARRAY['question.created', 'answer.created', 'question.status_changed', 'question.deleted']
+    ),
+    -- Shared with the receiver to verify the X-Webhook-Signature header
+    secret TEXT DEFAULT encode(extensions.gen_random_bytes(32), 'hex') NOT NULL,
+    enabled BOOLEAN DEFAULT true NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.webhooks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view webhooks"
+ON public.webhooks FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can add webhooks"
+ON public.webhooks FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update webhooks"
+ON public.webhooks FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete webhooks"
+ON public.webhooks FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_webhooks_updated_at
+BEFORE UPDATE ON public.webhooks
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One row per event sent to a webhook, kept as the delivery log
+CREATE TABLE public.webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    webhook_id UUID REFERENCES public.webhooks(id) ON DELETE CASCADE NOT NULL,
+    event TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    -- 'failed' deliveries are retried at next_attempt_at; 'dead' ones gave up
+    status TEXT DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'dead')),
+    attempts INTEGER DEFAULT 0 NOT NULL,
+    next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    response_status INTEGER,
+    response_body TEXT,
+    last_error TEXT,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_webhook_deliveries_webhook ON public.webhook_deliveries (webhook_id, created_at DESC);
+CREATE INDEX idx_webhook_deliveries_due ON public.webhook_deliveries (next_attempt_at)
+WHERE status IN ('pending', 'sending', 'failed');
+
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view webhook deliveries"
+ON public.webhook_deliveries FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_webhook_deliveries_updated_at
+BEFORE UPDATE ON public.webhook_deliveries
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Queue an event for every enabled webhook subscribed to it
+CREATE OR REPLACE FUNCTION public.enqueue_webhook_event(_event TEXT, _data JSONB)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.webhook_deliveries (webhook_id, event, payload)
+  SELECT w.id, _event, jsonb_build_object('event', _event, 'occurred_at', now(), 'data', _data)
+  FROM public.webhooks w
+  WHERE w.enabled AND _event = ANY (w.events)
+$$;
+
+-- The question as sent to webhooks. Anonymous askers are never identified.
+CREATE OR REPLACE FUNCTION public.webhook_question_json(_question public.questions)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'id', _question.id,
+    'title', _question.title,
+    'content', _question.content,
+    'status', _question.status,
+    'is_anonymous', _question.is_anonymous,
+    'author_id', CASE WHEN _question.is_anonymous THEN NULL ELSE _question.author_id END,
+    'department', (
+      SELECT jsonb_build_object('id', d.id, 'name', d.name)
+      FROM public.departments d WHERE d.id = _question.department_id
+    ),
+    'created_at', _question.created_at
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.enqueue_question_webhooks()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.enqueue_webhook_event('question.created', jsonb_build_object('question', public.webhook_question_json(NEW)));
+  ELSIF TG_OP = 'UPDATE' THEN
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+      PERFORM public.enqueue_webhook_event('question.status_changed', jsonb_build_object(
+        'question', public.webhook_question_json(NEW),
+        'previous_status', OLD.status
+      ));
+    END IF;
+  ELSE
+    PERFORM public.enqueue_webhook_event('question.deleted', jsonb_build_object('question', public.webhook_question_json(OLD)));
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER enqueue_question_webhooks_trigger
+AFTER INSERT OR DELETE OR UPDATE OF status ON public.questions
+FOR EACH ROW EXECUTE FUNCTION public.enqueue_question_webhooks();
+
+CREATE OR REPLACE FUNCTION public.enqueue_answer_webhooks()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.enqueue_webhook_event('answer.created', jsonb_build_object(
+    'answer', jsonb_build_object(
+      'id', NEW.id,
+      'question_id', NEW.question_id,
+      'content', NEW.content,
+      'is_official', NEW.is_official,
+      'author_id', NEW.author_id,
+      'created_at', NEW.created_at
+    ),
+    'question', (SELECT public.webhook_question_json(q) FROM public.questions q WHERE q.id = NEW.question_id)
+  ));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER enqueue_answer_webhooks_trigger
+AFTER INSERT ON public.answers
+FOR EACH ROW EXECUTE FUNCTION public.enqueue_answer_webhooks();
+
+-- Claim due deliveries, including any left 'sending' by a worker that died
+CREATE OR REPLACE FUNCTION public.claim_webhook_deliveries(_limit INTEGER DEFAULT 50)
+RETURNS SETOF public.webhook_deliveries
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.webhook_deliveries d
+  SET status = 'sending', attempts = d.attempts + 1
+  WHERE d.id IN (
+    SELECT id FROM public.webhook_deliveries
+    WHERE (status IN ('pending', 'failed') AND next_attempt_at <= now())
+       OR (status = 'sending' AND updated_at < now() - interval '10 minutes')
+    ORDER BY next_attempt_at
+    LIMIT greatest(least(_limit, 200), 1)
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING d.*
+$$;
+
+-- Record the outcome of an attempt, backing off 1, 2, 4, 8 and 16 minutes
+-- and giving up after the sixth failure
+CREATE OR REPLACE FUNCTION public.complete_webhook_delivery(
+  _delivery_id UUID,
+  _response_status INTEGER,
+  _response_body TEXT,
+  _error TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.webhook_deliveries
+  SET
+    status = CASE
+      WHEN _error IS NULL THEN 'sent'
+      WHEN attempts >= 6 THEN 'dead'
+      ELSE 'failed'
+    END,
+    sent_at = CASE WHEN _error IS NULL THEN now() END,
+    response_status = _response_status,
+    response_body = left(_response_body, 2000),
+    last_error = left(_error, 1000),
+    next_attempt_at = CASE
+      WHEN _error IS NULL THEN next_attempt_at
+      ELSE now() + interval '1 minute' * power(2, attempts - 1)
+    END
+  WHERE id = _delivery_id AND status = 'sending'
+$$;
+
+-- Admins can send a sample event to check an endpoint and its signature
+-- verification, whatever events the webhook subscribes to
+CREATE OR REPLACE FUNCTION public.send_test_webhook(_webhook_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _delivery_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can test webhooks';
+  END IF;
+
+  INSERT INTO public.webhook_deliveries (webhook_id, event, payload)
+  VALUES (_webhook_id, 'webhook.test', jsonb_build_object(
+    'event', 'webhook.test',
+    'occurred_at', now(),
+    'data', jsonb_build_object('message', 'This is a test delivery.')
+  ))
+  RETURNING id INTO _delivery_id;
+
+  RETURN _delivery_id;
+END;
+$$;
+
+-- Admins can push a failed or given-up delivery back onto the queue
+CREATE OR REPLACE FUNCTION public.retry_webhook_delivery(_delivery_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can resend deliveries';
+  END IF;
+
+  UPDATE public.webhook_deliveries
+  SET status = 'pending', attempts = 0, next_attempt_at = now()
+  WHERE id = _delivery_id AND status IN ('failed', 'dead');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_webhook_event(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.webhook_question_json(public.questions) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_webhook_deliveries(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_webhook_delivery(UUID, INTEGER, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.send_test_webhook(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.retry_webhook_delivery(UUID) TO authenticated;
+
+SELECT cron.schedule('dispatch-webhooks', '* * * * *', $$SELECT public.invoke_edge_function('dispatch-webhooks')$$);
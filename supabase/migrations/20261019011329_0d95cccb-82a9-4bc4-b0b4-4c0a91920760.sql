@@ -0,0 +1,181 @@
+-- Question lifecycle
+--
+-- Questions move through an explicit workflow. Allowed transitions are
+-- enforced by a trigger, so every path that changes a status (admin edits,
+-- askers closing their question, official answers) follows the same rules,
+-- and each change is recorded in question_status_history.
+ALTER TABLE public.questions DROP CONSTRAINT questions_status_check;
+ALTER TABLE public.questions ADD CONSTRAINT questions_status_check
+  CHECK (status IN ('open', 'assigned', 'in_progress', 'needs_info', 'answered', 'closed', 'duplicate', 'archived'));
+
+-- Mirrored by STATUS_TRANSITIONS in src/lib/question-status.ts
+CREATE OR REPLACE FUNCTION public.question_status_transition_allowed(_from TEXT, _to TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT _to = ANY (CASE _from
+    WHEN 'open' THEN ARRAY['assigned', 'in_progress', 'needs_info', 'answered', 'duplicate', 'closed', 'archived']
+    WHEN 'assigned' THEN ARRAY['open', 'in_progress', 'needs_info', 'answered', 'duplicate', 'closed', 'archived']
+    WHEN 'in_progress' THEN ARRAY['assigned', 'needs_info', 'answered', 'duplicate', 'closed', 'archived']
+    WHEN 'needs_info' THEN ARRAY['open', 'in_progress', 'answered', 'duplicate', 'closed', 'archived']
+    WHEN 'answered' THEN ARRAY['open', 'in_progress', 'needs_info', 'closed', 'archived']
+    WHEN 'closed' THEN ARRAY['open', 'answered', 'archived']
+    WHEN 'duplicate' THEN ARRAY['open', 'archived']
+    WHEN 'archived' THEN ARRAY['open']
+    ELSE ARRAY[]::TEXT[]
+  END)
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_question_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+     AND NOT public.question_status_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'A question can''t move from % to %', OLD.status, NEW.status USING ERRCODE = '22023';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER enforce_question_status_transition_trigger
+BEFORE UPDATE OF status ON public.questions
+FOR EACH ROW EXECUTE FUNCTION public.enforce_question_status_transition();
+
+-- Changes made by the asker set by_asker, and leave changed_by empty when the
+-- question is anonymous so the history can't reveal who asked it
+CREATE TABLE public.question_status_history (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    question_id UUID REFERENCES public.questions(id) ON DELETE CASCADE NOT NULL,
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    by_asker BOOLEAN DEFAULT false NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_question_status_history_question ON public.question_status_history (question_id, created_at);
+
+ALTER TABLE public.question_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Status history is viewable by authenticated users"
+ON public.question_status_history FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE OR REPLACE FUNCTION public.record_question_status_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  _by_asker BOOLEAN := TG_OP = 'INSERT' OR public.is_question_owner(NEW.id);
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.question_status_history (question_id, from_status, to_status, changed_by, by_asker)
+    VALUES (
+      NEW.id,
+      CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+      NEW.status,
+      CASE WHEN _by_asker AND NEW.is_anonymous THEN NULL ELSE auth.uid() END,
+      _by_asker
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER record_question_status_change_trigger
+AFTER INSERT OR UPDATE OF status ON public.questions
+FOR EACH ROW EXECUTE FUNCTION public.record_question_status_change();
+
+-- Start the history of existing questions from when they were asked
+INSERT INTO public.question_status_history (question_id, from_status, to_status, changed_by, by_asker, created_at)
+SELECT id, NULL, 'open', CASE WHEN is_anonymous THEN NULL ELSE author_id END, true, created_at
+FROM public.questions;
+
+INSERT INTO public.question_status_history (question_id, from_status, to_status, created_at)
+SELECT id, 'open', status, updated_at
+FROM public.questions
+WHERE status <> 'open';
+
+-- Only official answers settle a question, and only while it is still being
+-- worked on
+CREATE OR REPLACE FUNCTION public.mark_question_answered()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_official THEN
+    UPDATE public.questions
+    SET status = 'answered'
+    WHERE id = NEW.question_id
+      AND status IN ('open', 'assigned', 'in_progress', 'needs_info');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER mark_question_answered_trigger
+AFTER INSERT ON public.answers
+FOR EACH ROW EXECUTE FUNCTION public.mark_question_answered();
+
+-- Whether a user administers the given department
+CREATE OR REPLACE FUNCTION public.is_department_admin(_user_id UUID, _department_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.department_admins
+    WHERE user_id = _user_id
+      AND department_id = _department_id
+  )
+$$;
+
+-- Admins, and the admins of a question's department, can move it to any
+-- allowed next status
+CREATE OR REPLACE FUNCTION public.set_question_status(_question_id UUID, _status TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _department_id UUID;
+BEGIN
+  SELECT department_id INTO _department_id FROM public.questions WHERE id = _question_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.is_department_admin(auth.uid(), _department_id)) THEN
+    RAISE EXCEPTION 'Only admins and the admins of its department can change the status of this question' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.questions SET status = _status WHERE id = _question_id;
+END;
+$$;
+
+-- Reopening goes back to answered only if an official answer settled the
+-- question, the same rule mark_question_answered() follows
+CREATE OR REPLACE FUNCTION public.set_question_closed(_question_id UUID, _closed BOOLEAN DEFAULT true)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (public.is_question_owner(_question_id) OR public.has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'Only the question author can close this question' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.questions
+  SET status = CASE
+    WHEN _closed THEN 'closed'
+    WHEN EXISTS (SELECT 1 FROM public.answers WHERE question_id = _question_id AND is_official) THEN 'answered'
+    ELSE 'open'
+  END
+  WHERE id = _question_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_question_status(UUID, TEXT) TO authenticated;
@@ -0,0 +1,225 @@
+-- Question assignment
+--
+-- Each question can have one responder who owns it. Departments using
+-- round-robin assignment hand new questions to their department admins in
+-- turn, and only the assignee is told about them; departments using manual
+-- assignment keep telling every department admin, and someone takes it.
+-- Departments start on manual, as before, until an admin turns round-robin
+-- on in the Departments tab.
+ALTER TABLE public.questions
+  ADD COLUMN assignee_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN assigned_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_questions_assignee ON public.questions (assignee_id, created_at DESC) WHERE assignee_id IS NOT NULL;
+CREATE INDEX idx_questions_unassigned ON public.questions (department_id, created_at DESC) WHERE assignee_id IS NULL;
+
+ALTER TABLE public.departments
+  ADD COLUMN assignment_mode TEXT DEFAULT 'manual' NOT NULL CHECK (assignment_mode IN ('round_robin', 'manual'));
+
+ALTER TABLE public.department_admins ADD COLUMN last_assigned_at TIMESTAMP WITH TIME ZONE;
+
+-- Responders need to know which departments they cover for their inbox
+CREATE POLICY "Users can view their own department memberships"
+ON public.department_admins FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN (
+    'new_answer', 'new_comment', 'comment_reply', 'status_changed', 'answer_accepted', 'department_question', 'mention',
+    'following_new_answer', 'following_status_changed', 'following_new_question', 'question_assigned'
+  ));
+
+-- Assignments follow the same preference as new department questions
+CREATE OR REPLACE FUNCTION public.notification_event_type(_type TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE _type
+    WHEN 'department_question' THEN 'department_question'
+    WHEN 'question_assigned' THEN 'department_question'
+    WHEN 'new_answer' THEN 'answer_to_my_question'
+    WHEN 'comment_reply' THEN 'reply_to_my_comment'
+    WHEN 'mention' THEN 'mention'
+    WHEN 'following_new_answer' THEN 'following'
+    WHEN 'following_status_changed' THEN 'following'
+    WHEN 'following_new_question' THEN 'following'
+  END
+$$;
+
+-- The department admin who has gone longest without an assignment
+CREATE OR REPLACE FUNCTION public.claim_round_robin_assignee(_department_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _membership_id UUID;
+  _assignee UUID;
+BEGIN
+  SELECT da.id, da.user_id INTO _membership_id, _assignee
+  FROM public.department_admins da
+  JOIN public.departments d ON d.id = da.department_id
+  -- Admins are granted by user id alone; skip any without an account
+  JOIN public.profiles p ON p.user_id = da.user_id
+  WHERE da.department_id = _department_id
+    AND d.assignment_mode = 'round_robin'
+  ORDER BY da.last_assigned_at NULLS FIRST, da.created_at
+  LIMIT 1
+  FOR UPDATE OF da;
+
+  IF _membership_id IS NOT NULL THEN
+    UPDATE public.department_admins SET last_assigned_at = now() WHERE id = _membership_id;
+  END IF;
+
+  RETURN _assignee;
+END;
+$$;
+
+-- Askers don't pick an assignee; anything sent with the question is dropped
+-- unless an admin asked it
+CREATE OR REPLACE FUNCTION public.assign_new_question()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    NEW.assignee_id := NULL;
+    NEW.assigned_at := NULL;
+  END IF;
+
+  IF NEW.department_id IS NOT NULL AND NEW.assignee_id IS NULL THEN
+    NEW.assignee_id := public.claim_round_robin_assignee(NEW.department_id);
+  END IF;
+
+  IF NEW.assignee_id IS NOT NULL THEN
+    NEW.assigned_at := now();
+    IF NEW.status = 'open' THEN
+      NEW.status := 'assigned';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER assign_new_question_trigger
+BEFORE INSERT ON public.questions
+FOR EACH ROW EXECUTE FUNCTION public.assign_new_question();
+
+-- Only the assignee hears about an assigned question; everyone else in the
+-- department is still kept from a second following notification
+CREATE OR REPLACE FUNCTION public.notify_on_question_insert()
+RETURNS TRIGGER AS $$
+DECLARE
+  _notified UUID[] := ARRAY[auth.uid(), NEW.author_id];
+BEGIN
+  IF NEW.department_id IS NOT NULL THEN
+    INSERT INTO public.notifications (recipient_id, type, question_id, data)
+    SELECT da.user_id, 'department_question', NEW.id, jsonb_build_object('department', d.name)
+    FROM public.department_admins da
+    JOIN public.departments d ON d.id = da.department_id
+    -- Admins are granted by user id alone; skip any without an account
+    JOIN public.profiles p ON p.user_id = da.user_id
+    WHERE da.department_id = NEW.department_id
+      AND (NEW.assignee_id IS NULL OR da.user_id = NEW.assignee_id)
+      AND da.user_id <> ALL (array_remove(_notified, NULL));
+
+    _notified := _notified || ARRAY(
+      SELECT user_id FROM public.department_admins WHERE department_id = NEW.department_id
+    );
+
+    _notified := _notified || public.notify_subscribers(
+      NEW.id,
+      NEW.department_id,
+      'following_new_question',
+      NULL,
+      jsonb_build_object('department', (SELECT name FROM public.departments WHERE id = NEW.department_id)),
+      _notified
+    );
+  END IF;
+
+  PERFORM public.notify_mentions(NEW.content, NEW.id, NULL, NULL, _notified);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Admins, and the admins of a question's department, can take it, hand it
+-- to any responder or give it back to the department. Assigning moves an
+-- open question to assigned, and unassigning moves it back.
+CREATE OR REPLACE FUNCTION public.assign_question(_question_id UUID, _assignee_id UUID DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _question public.questions;
+BEGIN
+  SELECT * INTO _question FROM public.questions WHERE id = _question_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.is_department_admin(auth.uid(), _question.department_id)) THEN
+    RAISE EXCEPTION 'Only admins and the admins of its department can assign this question' USING ERRCODE = '42501';
+  END IF;
+
+  IF _assignee_id IS NOT NULL AND NOT public.is_admin_or_responder(_assignee_id) THEN
+    RAISE EXCEPTION 'Questions can only be assigned to admins and responders' USING ERRCODE = '22023';
+  END IF;
+
+  IF _question.assignee_id IS NOT DISTINCT FROM _assignee_id THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.questions
+  SET
+    assignee_id = _assignee_id,
+    assigned_at = CASE WHEN _assignee_id IS NOT NULL THEN now() END,
+    status = CASE
+      WHEN _assignee_id IS NOT NULL AND status = 'open' THEN 'assigned'
+      WHEN _assignee_id IS NULL AND status = 'assigned' THEN 'open'
+      ELSE status
+    END
+  WHERE id = _question_id;
+
+  IF _assignee_id IS NOT NULL AND _assignee_id IS DISTINCT FROM auth.uid() THEN
+    INSERT INTO public.notifications (recipient_id, type, question_id, data)
+    VALUES (
+      _assignee_id,
+      'question_assigned',
+      _question_id,
+      jsonb_build_object('department', (SELECT name FROM public.departments WHERE id = _question.department_id))
+    );
+  END IF;
+END;
+$$;
+
+-- Admins and responders who can be assigned questions, with the members of
+-- the given department first
+CREATE OR REPLACE FUNCTION public.get_assignable_responders(_department_id UUID DEFAULT NULL)
+RETURNS TABLE (user_id UUID, full_name TEXT, email TEXT, in_department BOOLEAN)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT ON (p.user_id)
+    p.user_id,
+    p.full_name,
+    p.email,
+    EXISTS (
+      SELECT 1 FROM public.department_admins da
+      WHERE da.user_id = p.user_id AND da.department_id = _department_id
+    ) AS in_department
+  FROM public.profiles p
+  JOIN public.user_roles r ON r.user_id = p.user_id AND r.role IN ('admin', 'responder')
+  WHERE public.is_admin_or_responder(auth.uid())
+  ORDER BY p.user_id
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_round_robin_assignee(UUID) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.assign_question(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_assignable_responders(UUID) TO authenticated;
@@ -0,0 +1,227 @@
+-- Answer SLAs
+--
+-- Departments can promise an official answer within a number of business
+-- days. Each question gets a due date when it is asked, and the time of its
+-- first official answer is kept. The clock pauses while a question waits on
+-- its asker (needs_info), pushing the due date back by the time paused.
+-- Overdue questions are escalated to the department admins, and a business
+-- day later to the global admins.
+ALTER TABLE public.departments
+  ADD COLUMN sla_business_days INTEGER CHECK (sla_business_days > 0);
+
+ALTER TABLE public.questions
+  ADD COLUMN sla_due_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN first_answered_at TIMESTAMP WITH TIME ZONE,
+  -- When the current needs_info pause started, and how long earlier ones lasted
+  ADD COLUMN sla_paused_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN sla_paused_for INTERVAL DEFAULT interval '0' NOT NULL;
+
+CREATE INDEX idx_questions_sla_due ON public.questions (sla_due_at) WHERE sla_due_at IS NOT NULL AND first_answered_at IS NULL;
+
+UPDATE public.questions q
+SET first_answered_at = a.first_answered_at
+FROM (
+  SELECT question_id, min(created_at) AS first_answered_at
+  FROM public.answers
+  WHERE is_official
+  GROUP BY question_id
+) a
+WHERE a.question_id = q.id;
+
+UPDATE public.questions SET sla_paused_at = now() WHERE status = 'needs_info';
+
+-- Business days skip Saturdays and Sundays (UTC), so a question asked on a
+-- Friday with a one-day SLA is due on Monday at the same time. Days are
+-- added in UTC too, so the result doesn't depend on the session time zone.
+CREATE OR REPLACE FUNCTION public.add_business_days(_from TIMESTAMP WITH TIME ZONE, _days INTEGER)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+IMMUTABLE
+STRICT
+AS $$
+DECLARE
+  _result TIMESTAMP WITH TIME ZONE := _from;
+  _remaining INTEGER := _days;
+BEGIN
+  WHILE _remaining > 0 LOOP
+    _result := ((_result AT TIME ZONE 'UTC') + interval '1 day') AT TIME ZONE 'UTC';
+    IF EXTRACT(ISODOW FROM _result AT TIME ZONE 'UTC') < 6 THEN
+      _remaining := _remaining - 1;
+    END IF;
+  END LOOP;
+  RETURN _result;
+END;
+$$;
+
+-- A new question's clock always starts running, whatever the client sent
+CREATE OR REPLACE FUNCTION public.set_question_sla_due()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.first_answered_at := NULL;
+    NEW.sla_paused_at := CASE WHEN NEW.status = 'needs_info' THEN now() END;
+    NEW.sla_paused_for := interval '0';
+  END IF;
+
+  NEW.sla_due_at := public.add_business_days(
+    NEW.created_at,
+    (SELECT sla_business_days FROM public.departments WHERE id = NEW.department_id)
+  ) + NEW.sla_paused_for;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER set_question_sla_due_trigger
+BEFORE INSERT OR UPDATE OF department_id ON public.questions
+FOR EACH ROW EXECUTE FUNCTION public.set_question_sla_due();
+
+-- A changed target applies to the department's unanswered questions
+CREATE OR REPLACE FUNCTION public.reschedule_department_sla()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.questions
+  SET sla_due_at = public.add_business_days(created_at, NEW.sla_business_days) + sla_paused_for
+  WHERE department_id = NEW.id
+    AND first_answered_at IS NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER reschedule_department_sla_trigger
+AFTER UPDATE OF sla_business_days ON public.departments
+FOR EACH ROW
+WHEN (NEW.sla_business_days IS DISTINCT FROM OLD.sla_business_days)
+EXECUTE FUNCTION public.reschedule_department_sla();
+
+-- Waiting on the asker pauses the clock; picking the question up again
+-- moves the due date back by however long it waited
+CREATE OR REPLACE FUNCTION public.pause_question_sla()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'needs_info' AND OLD.status <> 'needs_info' THEN
+    NEW.sla_paused_at := now();
+  ELSIF OLD.status = 'needs_info' AND NEW.status <> 'needs_info' AND OLD.sla_paused_at IS NOT NULL THEN
+    NEW.sla_paused_for := OLD.sla_paused_for + (now() - OLD.sla_paused_at);
+    NEW.sla_due_at := NEW.sla_due_at + (now() - OLD.sla_paused_at);
+    NEW.sla_paused_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER pause_question_sla_trigger
+BEFORE UPDATE OF status ON public.questions
+FOR EACH ROW
+WHEN (NEW.status IS DISTINCT FROM OLD.status)
+EXECUTE FUNCTION public.pause_question_sla();
+
+-- The first official answer stops the clock
+CREATE OR REPLACE FUNCTION public.mark_question_answered()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.is_official THEN
+    UPDATE public.questions
+    SET
+      first_answered_at = COALESCE(first_answered_at, NEW.created_at),
+      status = CASE WHEN status IN ('open', 'assigned', 'in_progress', 'needs_info') THEN 'answered' ELSE status END
+    WHERE id = NEW.question_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- One row per question and escalation level: 1 went to the department
+-- admins, 2 to the global admins
+CREATE TABLE public.sla_escalations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    question_id UUID REFERENCES public.questions(id) ON DELETE CASCADE NOT NULL,
+    level SMALLINT NOT NULL CHECK (level IN (1, 2)),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    UNIQUE (question_id, level)
+);
+
+ALTER TABLE public.sla_escalations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and responders can view SLA escalations"
+ON public.sla_escalations FOR SELECT
+TO authenticated
+USING (public.is_admin_or_responder(auth.uid()));
+
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN (
+    'new_answer', 'new_comment', 'comment_reply', 'status_changed', 'answer_accepted', 'department_question', 'mention',
+    'following_new_answer', 'following_status_changed', 'following_new_question', 'question_assigned', 'sla_overdue'
+  ));
+
+CREATE OR REPLACE FUNCTION public.notification_event_type(_type TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE _type
+    WHEN 'department_question' THEN 'department_question'
+    WHEN 'question_assigned' THEN 'department_question'
+    WHEN 'sla_overdue' THEN 'department_question'
+    WHEN 'new_answer' THEN 'answer_to_my_question'
+    WHEN 'comment_reply' THEN 'reply_to_my_comment'
+    WHEN 'mention' THEN 'mention'
+    WHEN 'following_new_answer' THEN 'following'
+    WHEN 'following_status_changed' THEN 'following'
+    WHEN 'following_new_question' THEN 'following'
+  END
+$$;
+
+-- Questions waiting on the asker (needs_info), whose clock is paused, or
+-- closed without an answer are not escalated
+CREATE OR REPLACE FUNCTION public.escalate_overdue_questions()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  WITH escalated AS (
+    INSERT INTO public.sla_escalations (question_id, level)
+    SELECT q.id, 1
+    FROM public.questions q
+    WHERE q.sla_due_at < now()
+      AND q.first_answered_at IS NULL
+      AND q.status IN ('open', 'assigned', 'in_progress')
+    ON CONFLICT (question_id, level) DO NOTHING
+    RETURNING question_id
+  )
+  INSERT INTO public.notifications (recipient_id, type, question_id, data)
+  SELECT da.user_id, 'sla_overdue', q.id, jsonb_build_object('department', d.name, 'escalation', 'department')
+  FROM escalated e
+  JOIN public.questions q ON q.id = e.question_id
+  JOIN public.departments d ON d.id = q.department_id
+  JOIN public.department_admins da ON da.department_id = q.department_id
+  -- Admins are granted by user id alone; skip any without an account
+  JOIN public.profiles p ON p.user_id = da.user_id;
+
+  WITH escalated AS (
+    INSERT INTO public.sla_escalations (question_id, level)
+    SELECT q.id, 2
+    FROM public.questions q
+    JOIN public.sla_escalations earlier ON earlier.question_id = q.id AND earlier.level = 1
+    WHERE public.add_business_days(earlier.created_at, 1) < now()
+      AND q.first_answered_at IS NULL
+      AND q.status IN ('open', 'assigned', 'in_progress')
+    ON CONFLICT (question_id, level) DO NOTHING
+    RETURNING question_id
+  )
+  INSERT INTO public.notifications (recipient_id, type, question_id, data)
+  SELECT r.user_id, 'sla_overdue', q.id, jsonb_build_object('department', d.name, 'escalation', 'admins')
+  FROM escalated e
+  JOIN public.questions q ON q.id = e.question_id
+  JOIN public.departments d ON d.id = q.department_id
+  CROSS JOIN public.user_roles r
+  JOIN public.profiles p ON p.user_id = r.user_id
+  WHERE r.role = 'admin';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.escalate_overdue_questions() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('escalate-overdue-questions', '*/15 * * * *', $$SELECT public.escalate_overdue_questions()$$);
@@ -0,0 +1,100 @@
+-- Admin analytics
+--
+-- Aggregates for the Analytics tab, computed here rather than in the
+-- browser. Each function returns nothing to anyone but admins. Periods are
+-- whole weeks, counting the current one.
+
+-- Questions asked per week and department. Weeks without questions still get
+-- one row, with no department and a count of zero.
+CREATE OR REPLACE FUNCTION public.analytics_weekly_questions(_weeks INTEGER DEFAULT 12)
+RETURNS TABLE (week_start DATE, department TEXT, questions BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH weeks AS (
+    SELECT generate_series(
+      date_trunc('week', now()) - (_weeks - 1) * interval '1 week',
+      date_trunc('week', now()),
+      interval '1 week'
+    ) AS week_start
+  )
+  SELECT w.week_start::date, d.name, count(q.id)
+  FROM weeks w
+  LEFT JOIN public.questions q ON date_trunc('week', q.created_at) = w.week_start
+  LEFT JOIN public.departments d ON d.id = q.department_id
+  WHERE public.has_role(auth.uid(), 'admin')
+  GROUP BY w.week_start, d.name
+  ORDER BY w.week_start, d.name
+$$;
+
+-- Totals for the period. Duplicates are left out, since they are answered
+-- on the question they duplicate.
+CREATE OR REPLACE FUNCTION public.analytics_summary(_weeks INTEGER DEFAULT 12)
+RETURNS TABLE (questions BIGINT, answered BIGINT, anonymous BIGINT, median_first_answer_hours DOUBLE PRECISION)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    count(*),
+    count(first_answered_at),
+    count(*) FILTER (WHERE is_anonymous),
+    percentile_cont(0.5) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM first_answered_at - created_at) / 3600)
+  FROM public.questions
+  WHERE created_at >= date_trunc('week', now()) - (_weeks - 1) * interval '1 week'
+    AND status <> 'duplicate'
+    AND public.has_role(auth.uid(), 'admin')
+$$;
+
+-- Questions still waiting for an official answer, by how long they have waited
+CREATE OR REPLACE FUNCTION public.analytics_backlog_by_age()
+RETURNS TABLE (bucket TEXT, questions BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH buckets (position, bucket, min_age, max_age) AS (
+    VALUES
+      (1, 'Under a day', interval '0', interval '1 day'),
+      (2, '1-3 days', interval '1 day', interval '3 days'),
+      (3, '3-7 days', interval '3 days', interval '7 days'),
+      (4, '1-4 weeks', interval '7 days', interval '28 days'),
+      (5, 'Over 4 weeks', interval '28 days', NULL)
+  )
+  SELECT b.bucket, count(q.id)
+  FROM buckets b
+  LEFT JOIN public.questions q
+    ON q.first_answered_at IS NULL
+    AND q.status IN ('open', 'assigned', 'in_progress', 'needs_info')
+    AND now() - q.created_at >= b.min_age
+    AND (b.max_age IS NULL OR now() - q.created_at < b.max_age)
+  WHERE public.has_role(auth.uid(), 'admin')
+  GROUP BY b.position, b.bucket
+  ORDER BY b.position
+$$;
+
+CREATE OR REPLACE FUNCTION public.analytics_top_unanswered(_limit INTEGER DEFAULT 10)
+RETURNS TABLE (id UUID, title TEXT, upvotes INTEGER, department TEXT, created_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT q.id, q.title, q.upvotes, d.name, q.created_at
+  FROM public.questions q
+  LEFT JOIN public.departments d ON d.id = q.department_id
+  WHERE q.first_answered_at IS NULL
+    AND q.status IN ('open', 'assigned', 'in_progress', 'needs_info')
+    AND public.has_role(auth.uid(), 'admin')
+  ORDER BY q.upvotes DESC, q.created_at
+  LIMIT _limit
+$$;
+
+GRANT EXECUTE ON FUNCTION public.analytics_weekly_questions(INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.analytics_summary(INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.analytics_backlog_by_age() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.analytics_top_unanswered(INTEGER) TO authenticated;
@@ -0,0 +1,39 @@
+-- Department-scoped moderation
+--
+-- Department admins can moderate and delete the questions of the
+-- departments they administer, not just answer them. Directly they can only
+-- change a question's status; everything else goes through functions that
+-- check their own rules, such as assign_question() for the assignee and
+-- update_question_content() for what was asked, which stays the author's.
+CREATE POLICY "Department admins can update their departments' questions"
+ON public.questions FOR UPDATE
+TO authenticated
+USING (public.is_department_admin(auth.uid(), department_id))
+WITH CHECK (public.is_department_admin(auth.uid(), department_id));
+
+CREATE POLICY "Department admins can delete their departments' questions"
+ON public.questions FOR DELETE
+TO authenticated
+USING (public.is_department_admin(auth.uid(), department_id));
+
+-- Only direct updates are checked; functions such as the vote counter and
+-- update_question_content() run as their owner and keep working for
+-- department admins. search_vector is left out because it is only computed
+-- after this trigger runs.
+CREATE OR REPLACE FUNCTION public.guard_department_admin_question_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user = 'authenticated'
+    AND NOT public.has_role(auth.uid(), 'admin')
+    AND to_jsonb(NEW) - ARRAY['status', 'updated_at', 'search_vector']
+      IS DISTINCT FROM to_jsonb(OLD) - ARRAY['status', 'updated_at', 'search_vector']
+  THEN
+    RAISE EXCEPTION 'Department admins can only change the status of a question directly' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER guard_department_admin_question_update_trigger
+BEFORE UPDATE ON public.questions
+FOR EACH ROW EXECUTE FUNCTION public.guard_department_admin_question_update();
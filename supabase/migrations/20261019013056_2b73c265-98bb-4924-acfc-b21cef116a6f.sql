@@ -0,0 +1,146 @@
+-- Moving questions between departments
+--
+-- Admins, and the admins of a question's department, can move it to another
+-- department with move_question(). Questions asked without a department can
+-- be picked up by any department admin. Each move is recorded with who made
+-- it and why, and the new department hears about the question as if it had
+-- just been asked there: its admins are notified and emailed, and its chat
+-- webhooks get a post.
+CREATE TABLE public.question_department_moves (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    question_id UUID REFERENCES public.questions(id) ON DELETE CASCADE NOT NULL,
+    from_department_id UUID REFERENCES public.departments(id) ON DELETE SET NULL,
+    to_department_id UUID REFERENCES public.departments(id) ON DELETE SET NULL,
+    moved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    reason TEXT CHECK (char_length(reason) <= 500),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_question_department_moves_question ON public.question_department_moves (question_id, created_at DESC);
+
+ALTER TABLE public.question_department_moves ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Department moves are viewable by authenticated users"
+ON public.question_department_moves FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE OR REPLACE FUNCTION public.move_question(_question_id UUID, _department_id UUID, _reason TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _question public.questions;
+  _from_name TEXT;
+  _to_name TEXT;
+  _assignee UUID;
+BEGIN
+  SELECT * INTO _question FROM public.questions WHERE id = _question_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT (
+    public.has_role(auth.uid(), 'admin')
+    OR public.is_department_admin(auth.uid(), _question.department_id)
+    OR (_question.department_id IS NULL AND EXISTS (SELECT 1 FROM public.department_admins WHERE user_id = auth.uid()))
+  ) THEN
+    RAISE EXCEPTION 'Only admins and the admins of its department can move this question' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT name INTO _to_name FROM public.departments WHERE id = _department_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Department not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _question.department_id IS NOT DISTINCT FROM _department_id THEN
+    RETURN;
+  END IF;
+
+  SELECT name INTO _from_name FROM public.departments WHERE id = _question.department_id;
+
+  -- The old assignee covered the old department, so the new one assigns it
+  -- the way it assigns new questions
+  _assignee := public.claim_round_robin_assignee(_department_id);
+
+  UPDATE public.questions
+  SET
+    department_id = _department_id,
+    assignee_id = _assignee,
+    assigned_at = CASE WHEN _assignee IS NOT NULL THEN now() END,
+    status = CASE
+      WHEN _assignee IS NOT NULL AND status = 'open' THEN 'assigned'
+      WHEN _assignee IS NULL AND status = 'assigned' THEN 'open'
+      ELSE status
+    END
+  WHERE id = _question_id;
+
+  INSERT INTO public.question_department_moves (question_id, from_department_id, to_department_id, moved_by, reason)
+  VALUES (_question_id, _question.department_id, _department_id, auth.uid(), NULLIF(btrim(_reason), ''));
+
+  -- Escalations start over with the new department's admins
+  DELETE FROM public.sla_escalations WHERE question_id = _question_id;
+
+  INSERT INTO public.notifications (recipient_id, type, question_id, data)
+  SELECT da.user_id, 'department_question', _question_id,
+    jsonb_strip_nulls(jsonb_build_object('department', _to_name, 'moved_from', _from_name))
+  FROM public.department_admins da
+  -- Admins are granted by user id alone; skip any without an account
+  JOIN public.profiles p ON p.user_id = da.user_id
+  WHERE da.department_id = _department_id
+    AND (_assignee IS NULL OR da.user_id = _assignee)
+    AND da.user_id IS DISTINCT FROM auth.uid();
+
+  INSERT INTO public.notification_outbox (event_type, question_id, data)
+  VALUES ('question_moved', _question_id, jsonb_strip_nulls(jsonb_build_object('from', _from_name, 'to', _to_name)));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.move_question(UUID, UUID, TEXT) TO authenticated;
+
+ALTER TABLE public.notification_outbox DROP CONSTRAINT notification_outbox_event_type_check;
+ALTER TABLE public.notification_outbox ADD CONSTRAINT notification_outbox_event_type_check
+  CHECK (event_type IN ('question_created', 'answer_official', 'question_status_changed', 'question_moved'));
+
+-- Moves are emailed to the new department's admins like new questions
+CREATE OR REPLACE FUNCTION public.expand_notification_outbox()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _created INTEGER;
+BEGIN
+  WITH events AS (
+    UPDATE public.notification_outbox
+    SET processed_at = now()
+    WHERE processed_at IS NULL
+    RETURNING id, event_type, question_id
+  ),
+  claimed AS (
+    UPDATE public.notifications n
+    SET emailed_at = now()
+    FROM events e
+    WHERE e.event_type IN ('question_created', 'question_moved')
+      AND n.question_id = e.question_id
+      AND n.type = 'department_question'
+      AND n.email_frequency = 'instant'
+      AND n.emailed_at IS NULL
+    RETURNING n.id, n.recipient_id, n.question_id, e.id AS outbox_id
+  )
+  INSERT INTO public.notification_deliveries (outbox_id, question_id, notification_id, recipient_id, webhook_id, channel)
+  SELECT outbox_id, question_id, id, recipient_id, NULL, 'email' FROM claimed
+  UNION ALL
+  SELECT e.id, e.question_id, NULL, NULL, w.id, w.platform
+  FROM events e
+  JOIN public.questions q ON q.id = e.question_id
+  JOIN public.department_webhooks w ON w.department_id = q.department_id AND w.enabled
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS _created = ROW_COUNT;
+  RETURN _created;
+END;
+$$;
@@ -0,0 +1,36 @@
+-- Department suggestions
+--
+-- While a question is being written the app suggests a department. It learns
+-- from where past questions ended up, and admins can add keyword rules for
+-- each department to steer it, e.g. "payslip" for Payroll.
+CREATE TABLE public.department_keywords (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    department_id UUID REFERENCES public.departments(id) ON DELETE CASCADE NOT NULL,
+    keyword TEXT NOT NULL CHECK (keyword = lower(btrim(keyword)) AND char_length(keyword) BETWEEN 2 AND 60),
+    weight SMALLINT DEFAULT 1 NOT NULL CHECK (weight BETWEEN 1 AND 3),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    UNIQUE (department_id, keyword)
+);
+
+-- Everyone asking a question needs the rules to get suggestions
+ALTER TABLE public.department_keywords ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Department keywords are viewable by authenticated users"
+ON public.department_keywords FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can add department keywords"
+ON public.department_keywords FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update department keywords"
+ON public.department_keywords FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete department keywords"
+ON public.department_keywords FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,199 @@
+-- Duplicate questions
+--
+-- While a question is being written, find_similar_questions() looks for
+-- existing ones with a similar title (trigram) or matching words (full-text
+-- search over title and content). Admins can mark a question as a duplicate
+-- of another with mark_question_duplicate(): readers are sent on to the
+-- canonical question, and the duplicate's votes move over to it.
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+ALTER TABLE public.questions
+  ADD COLUMN duplicate_of_id UUID REFERENCES public.questions(id) ON DELETE SET NULL
+    CHECK (duplicate_of_id <> id);
+
+CREATE INDEX idx_questions_duplicate_of ON public.questions (duplicate_of_id) WHERE duplicate_of_id IS NOT NULL;
+CREATE INDEX idx_questions_title_trgm ON public.questions USING gin (title extensions.gin_trgm_ops);
+
+-- Runs as the caller, so only questions they can read are returned
+CREATE OR REPLACE FUNCTION public.find_similar_questions(_title TEXT, _content TEXT DEFAULT NULL, _limit INTEGER DEFAULT 5)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  status TEXT,
+  upvotes INTEGER,
+  is_answered BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  score REAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH search AS (
+    -- Any of the words may match; the ranking prefers questions that match more of them
+    SELECT websearch_to_tsquery('english', regexp_replace(concat_ws(' ', _title, _content), '[^[:alnum:]]+', ' or ', 'g')) AS query
+  ),
+  candidates AS (
+    SELECT
+      q.id, q.title, q.status, q.upvotes, q.first_answered_at IS NOT NULL AS is_answered, q.created_at,
+      q.title % _title AS similar_title,
+      similarity(q.title, _title) AS title_similarity,
+      ts_rank(q.search_vector, s.query) AS text_rank
+    FROM public.questions q, search s
+    WHERE q.status NOT IN ('duplicate', 'archived')
+      AND (
+        q.title % _title
+        OR q.search_vector @@ s.query
+      )
+  )
+  SELECT
+    c.id, c.title, c.status, c.upvotes, c.is_answered, c.created_at,
+    (c.title_similarity + c.text_rank)::REAL AS score
+  FROM candidates c
+  -- Each signal counts on its own. ts_rank averages over the query's words:
+  -- each one found in a question's content scores about 0.24, and in its title
+  -- about 0.6, so 0.04 asks for roughly a sixth of the words to turn up in the
+  -- content, or fewer in the title.
+  WHERE c.similar_title OR c.text_rank >= 0.04
+  -- Answered questions come first among close matches, since they may already settle it
+  ORDER BY c.title_similarity + c.text_rank + CASE WHEN c.is_answered THEN 0.1 ELSE 0 END DESC, c.upvotes DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 20)
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_question_duplicate(_question_id UUID, _duplicate_of_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _question public.questions;
+  _canonical public.questions;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can mark questions as duplicates' USING ERRCODE = '42501';
+  END IF;
+
+  IF _question_id = _duplicate_of_id THEN
+    RAISE EXCEPTION 'A question can''t be a duplicate of itself' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _question FROM public.questions WHERE id = _question_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO _canonical FROM public.questions WHERE id = _duplicate_of_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _canonical.duplicate_of_id IS NOT NULL THEN
+    RAISE EXCEPTION 'That question is itself a duplicate; pick the one it points to' USING ERRCODE = '22023';
+  END IF;
+
+  IF _question.status <> 'duplicate' AND NOT public.question_status_transition_allowed(_question.status, 'duplicate') THEN
+    RAISE EXCEPTION 'A % question can''t be marked as a duplicate; reopen it first', _question.status USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.questions
+  SET status = 'duplicate', duplicate_of_id = _duplicate_of_id
+  WHERE id = _question_id;
+
+  -- Anything that pointed at this question now points at the canonical one
+  UPDATE public.questions
+  SET duplicate_of_id = _duplicate_of_id
+  WHERE duplicate_of_id = _question_id;
+
+  -- Move the votes over; the vote trigger keeps both counts right. People
+  -- who voted on both keep their vote on the canonical question.
+  UPDATE public.votes v
+  SET question_id = _duplicate_of_id
+  WHERE v.question_id = _question_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.votes c WHERE c.question_id = _duplicate_of_id AND c.user_id = v.user_id
+    );
+
+  DELETE FROM public.votes WHERE question_id = _question_id;
+END;
+$$;
+
+-- set_question_status() can't mark duplicates, since that would skip
+-- pointing readers at the original and merging the votes
+CREATE OR REPLACE FUNCTION public.set_question_status(_question_id UUID, _status TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _department_id UUID;
+BEGIN
+  SELECT department_id INTO _department_id FROM public.questions WHERE id = _question_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Question not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.is_department_admin(auth.uid(), _department_id)) THEN
+    RAISE EXCEPTION 'Only admins and the admins of its department can change the status of this question' USING ERRCODE = '42501';
+  END IF;
+
+  IF _status = 'duplicate' THEN
+    RAISE EXCEPTION 'Mark duplicates with mark_question_duplicate()' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.questions SET status = _status WHERE id = _question_id;
+END;
+$$;
+
+-- Only mark_question_duplicate() links questions, so a new question can't
+-- send its readers elsewhere
+CREATE OR REPLACE FUNCTION public.clear_new_question_duplicate_of()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.duplicate_of_id := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER clear_new_question_duplicate_of_trigger
+BEFORE INSERT ON public.questions
+FOR EACH ROW EXECUTE FUNCTION public.clear_new_question_duplicate_of();
+
+-- A reopened duplicate no longer points anywhere, and a duplicate always
+-- points somewhere: direct updates can't mark one without going through
+-- mark_question_duplicate()
+CREATE OR REPLACE FUNCTION public.check_question_duplicate_of()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status <> 'duplicate' THEN
+    NEW.duplicate_of_id := NULL;
+  ELSIF NEW.duplicate_of_id IS NULL THEN
+    RAISE EXCEPTION 'Mark duplicates with mark_question_duplicate()' USING ERRCODE = '22023';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER check_question_duplicate_of_trigger
+BEFORE UPDATE OF status, duplicate_of_id ON public.questions
+FOR EACH ROW EXECUTE FUNCTION public.check_question_duplicate_of();
+
+-- Deleting the original reopens its duplicates rather than leaving them
+-- pointing nowhere. Their votes went to the original and are gone with it.
+CREATE OR REPLACE FUNCTION public.reopen_question_duplicates()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.questions
+  SET status = 'open'
+  WHERE duplicate_of_id = OLD.id AND status = 'duplicate';
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER reopen_question_duplicates_trigger
+BEFORE DELETE ON public.questions
+FOR EACH ROW EXECUTE FUNCTION public.reopen_question_duplicates();
+
+GRANT EXECUTE ON FUNCTION public.find_similar_questions(TEXT, TEXT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_question_duplicate(UUID, UUID) TO authenticated;
@@ -0,0 +1,37 @@
+-- Run with `supabase test db`
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(3);
+
+INSERT INTO public.questions (id, title, content) VALUES
+  ('00000000-0000-0000-0000-000000000001', 'Travel reimbursements', 'Can I expense a rental car and electric charging when I travel for work?'),
+  ('00000000-0000-0000-0000-000000000002', 'Parental leave', 'How many weeks of leave do new parents get?'),
+  ('00000000-0000-0000-0000-000000000003', 'Where can I charge my electric car?', 'Looking for chargers near the building.');
+
+SELECT ok(
+  EXISTS (
+    SELECT 1 FROM public.find_similar_questions('Electric car charging at the office', 'Is there a charging station in the garage?')
+    WHERE id = '00000000-0000-0000-0000-000000000001'
+  ),
+  'a question whose content matches comes back, even with an unrelated title'
+);
+
+SELECT ok(
+  EXISTS (
+    SELECT 1 FROM public.find_similar_questions('Where do I charge my electric car?')
+    WHERE id = '00000000-0000-0000-0000-000000000003'
+  ),
+  'a question with a similar title comes back'
+);
+
+SELECT ok(
+  NOT EXISTS (
+    SELECT 1 FROM public.find_similar_questions('Electric car charging at the office', 'Is there a charging station in the garage?')
+    WHERE id = '00000000-0000-0000-0000-000000000002'
+  ),
+  'an unrelated question does not come back'
+);
+
+SELECT * FROM finish();
+ROLLBACK;